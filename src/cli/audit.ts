@@ -0,0 +1,126 @@
+import { AUDIT_OUTCOMES, AuditLog, AuditOutcome, parseAuditTime } from '../security/audit-log.js';
+import { config } from '../utils/config.js';
+import { parseArgs, ParsedArgs } from './auth.js';
+
+const USAGE = `Usage: slack-browser-mcp-server audit <command>
+
+Commands:
+  query                Print matching audit log entries as JSON lines, newest first
+  path                 Print where the audit log is written
+
+Options for both commands:
+  --config <file>      Config file whose profile sets the audit log (default SLACK_MCP_CONFIG)
+  --profile <name>     Profile to use from the config file
+
+Query options:
+  --since <time>       Only entries from this time on: an ISO date, or a time ago such as 7d, 12h or 30m
+  --until <time>       Only entries before this time
+  --tool <name>        Only calls to this tool (e.g. post_message)
+  --channel <id>       Only calls in this channel
+  --workspace <name>   Only calls in this workspace
+  --outcome <outcome>  success, failure, timeout, cancelled, pending or rejected
+  --contains <text>    Only calls whose arguments contain this text
+  --limit <n>          Most entries to print (default 50)
+
+The log is ~/.slack-browser-mcp/audit.jsonl (SLACK_AUDIT_LOG, or the profile's audit.file),
+rotated by size (SLACK_AUDIT_MAX_SIZE_MB) into audit.1.jsonl, audit.2.jsonl and so on; queries
+read them all.`;
+
+/**
+ * Options that pick the profile, which can move or turn off the audit log
+ */
+const PROFILE_OPTIONS = ['config', 'profile'];
+
+/**
+ * Run an "audit" subcommand and return the process exit code
+ */
+export async function runAuditCommand(argv: string[]): Promise<number> {
+  const [command, ...rest] = argv;
+
+  switch (command) {
+    case 'query':
+      return queryAuditLog(
+        loadProfile(
+          parseArgs(
+            rest,
+            [
+              ...PROFILE_OPTIONS,
+              'since',
+              'until',
+              'tool',
+              'channel',
+              'workspace',
+              'outcome',
+              'contains',
+              'limit',
+            ],
+            []
+          )
+        )
+      );
+    case 'path': {
+      const args = loadProfile(parseArgs(rest, PROFILE_OPTIONS, []));
+      if (args.positionals.length > 0) {
+        throw new Error('Usage: audit path [--config <file>] [--profile <name>]');
+      }
+      console.log(AuditLog.getInstance().file);
+      return 0;
+    }
+    case undefined:
+    case 'help':
+    case '--help':
+      console.log(USAGE);
+      return command ? 0 : 1;
+    default:
+      console.error(`Unknown audit command: ${command}\n\n${USAGE}`);
+      return 1;
+  }
+}
+
+/**
+ * Load the profile the server would run with, before the audit log is first opened
+ */
+function loadProfile(args: ParsedArgs): ParsedArgs {
+  config.loadProfile({ file: args.values.config, profile: args.values.profile });
+  return args;
+}
+
+function queryAuditLog(args: ParsedArgs): number {
+  if (args.positionals.length > 0) {
+    throw new Error('Usage: audit query [options]');
+  }
+
+  const { since, until, tool, channel, workspace, outcome, contains, limit } = args.values;
+  if (outcome !== undefined && !AUDIT_OUTCOMES.includes(outcome as AuditOutcome)) {
+    throw new Error(`Invalid --outcome value: ${outcome} (expected ${AUDIT_OUTCOMES.join(', ')})`);
+  }
+  const count = limit === undefined ? 50 : parseInt(limit, 10);
+  if (!Number.isInteger(count) || count < 1) {
+    throw new Error(`Invalid --limit value: ${limit}`);
+  }
+
+  const log = AuditLog.getInstance();
+  if (!log.enabled) {
+    console.error('The audit log is turned off (SLACK_AUDIT_LOG=false).');
+    return 1;
+  }
+
+  const { entries, total } = log.query({
+    since: since ? parseAuditTime(since, '--since') : undefined,
+    until: until ? parseAuditTime(until, '--until') : undefined,
+    tool,
+    channel,
+    workspace,
+    outcome: outcome as AuditOutcome | undefined,
+    contains,
+    limit: count,
+  });
+
+  for (const entry of entries) {
+    console.log(JSON.stringify(entry));
+  }
+  if (total > entries.length) {
+    console.error(`${total - entries.length} older matching entries not shown (use --limit)`);
+  }
+  return 0;
+}
@@ -0,0 +1,414 @@
+import { readFileSync } from 'node:fs';
+import { dirname, resolve } from 'node:path';
+import { createInterface } from 'node:readline';
+import { Writable } from 'node:stream';
+import { SlackAuth, SlackTokens } from '../slack/auth.js';
+import { WorkspaceRegistry } from '../slack/workspaces.js';
+import {
+  ImportedTeam,
+  SessionExportFormat,
+  mergeSessions,
+  parseSessionExport,
+} from '../slack/session-import.js';
+
+const USAGE = `Usage: slack-browser-mcp-server auth <command>
+
+Commands:
+  list                 List configured workspaces and where they come from
+  add <name>           Add a workspace to the credential store (prompts for tokens)
+  remove <name>        Remove a workspace from the credential store
+  test [name...]       Check tokens with auth.test (all workspaces when no name is given)
+  import <file...>     Import a browser session from cookies.txt, HAR or localStorage exports
+  init-key <path>      Create a random key file for the credential store
+
+Add options:
+  --domain <domain>                    Team domain (e.g. mycompany for mycompany.slack.com)
+  --team-id <id>, --enterprise-id <id> Enterprise Grid identifiers
+
+Import options:
+  --format <cookies|har|localstorage>  Skip format detection (applies to every file)
+  --workspace <name>                   Name to save the workspace under (single team only)
+
+Common options:
+  --default                            Make the workspace the default
+  --no-verify                          Skip checking the tokens with auth.test
+
+Tokens are stored encrypted in ~/.slack-browser-mcp/credentials.enc (SLACK_MCP_CREDENTIALS_FILE)
+using SLACK_MCP_PASSPHRASE or a key file (SLACK_MCP_KEY_FILE). One of them must be set before
+the first add or import. A key file must live outside ~/.slack-browser-mcp, for example on
+removable or separately backed-up storage.`;
+
+export interface ParsedArgs {
+  positionals: string[];
+  values: Record<string, string>;
+  flags: Set<string>;
+}
+
+/**
+ * Run an "auth" subcommand and return the process exit code
+ */
+export async function runAuthCommand(argv: string[]): Promise<number> {
+  const [command, ...rest] = argv;
+
+  switch (command) {
+    case 'list':
+      return listWorkspaces(parseArgs(rest, [], []));
+    case 'add':
+      return addWorkspace(
+        parseArgs(rest, ['domain', 'team-id', 'enterprise-id'], ['default', 'no-verify'])
+      );
+    case 'remove':
+      return removeWorkspace(parseArgs(rest, [], []));
+    case 'test':
+      return testWorkspaces(parseArgs(rest, [], []));
+    case 'import':
+      return importSession(parseArgs(rest, ['format', 'workspace'], ['default', 'no-verify']));
+    case 'init-key':
+      return initKey(parseArgs(rest, [], []));
+    case undefined:
+    case 'help':
+    case '--help':
+      console.log(USAGE);
+      return command ? 0 : 1;
+    default:
+      console.error(`Unknown auth command: ${command}\n\n${USAGE}`);
+      return 1;
+  }
+}
+
+/**
+ * Parse "--name value", "--name=value" and boolean "--flag" options
+ */
+export function parseArgs(
+  argv: string[],
+  valueOptions: string[],
+  flagOptions: string[]
+): ParsedArgs {
+  const parsed: ParsedArgs = { positionals: [], values: {}, flags: new Set() };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) {
+      parsed.positionals.push(arg);
+      continue;
+    }
+
+    const [name, inlineValue] = arg.slice(2).split(/=(.*)/s, 2);
+    if (valueOptions.includes(name)) {
+      const value = inlineValue ?? argv[++i];
+      if (value === undefined || value.startsWith('--')) {
+        throw new Error(`Missing value for --${name}`);
+      }
+      parsed.values[name] = value;
+    } else if (flagOptions.includes(name) && inlineValue === undefined) {
+      parsed.flags.add(name);
+    } else {
+      throw new Error(`Unknown option: ${arg}`);
+    }
+  }
+
+  return parsed;
+}
+
+function listWorkspaces(args: ParsedArgs): number {
+  if (args.positionals.length > 0) {
+    throw new Error('Usage: auth list');
+  }
+
+  const registry = WorkspaceRegistry.getInstance();
+  const workspaces = registry.list();
+
+  if (workspaces.length === 0) {
+    console.log('No workspaces configured. Add one with "auth add" or "auth import".');
+    return 0;
+  }
+
+  for (const workspace of workspaces) {
+    const ids = [workspace.teamId, workspace.enterpriseId && `grid ${workspace.enterpriseId}`]
+      .filter(Boolean)
+      .join(', ');
+    console.log(
+      `${workspace.isDefault ? '*' : ' '} ${workspace.name}  ${workspace.teamDomain}.slack.com` +
+        `${ids ? `  (${ids})` : ''}  [${workspace.source}]`
+    );
+  }
+
+  const store = registry.getStore();
+  console.log(`\nCredential store: ${store.path}${store.exists() ? '' : ' (not created yet)'}`);
+  if (store.isKeyBesideStore()) {
+    console.log(
+      `Warning: the key file ${store.getKeySource()} is next to the store, so it does not protect it. ` +
+        'Move it elsewhere and set SLACK_MCP_KEY_FILE.'
+    );
+  }
+  return 0;
+}
+
+async function addWorkspace(args: ParsedArgs): Promise<number> {
+  const [name] = args.positionals;
+  if (!name || args.positionals.length > 1) {
+    throw new Error('Usage: auth add <name> [--domain <domain>]');
+  }
+  requireStoreKey();
+
+  // Tokens are read interactively (or from piped stdin) so they never appear in shell history
+  const prompt = createPrompter();
+  try {
+    const tokens: SlackTokens = {
+      xoxc: await prompt('xoxc token: ', { secret: true }),
+      xoxd: await prompt('d cookie (xoxd-...): ', { secret: true }),
+      teamDomain: args.values['domain'] || (await prompt(`Team domain [${name}]: `)) || name,
+      teamId: args.values['team-id'],
+      enterpriseId: args.values['enterprise-id'],
+    };
+
+    if (!tokens.xoxc.startsWith('xoxc-') || !tokens.xoxd.startsWith('xoxd-')) {
+      console.error('Invalid token format: expected xoxc-... and xoxd-...');
+      return 1;
+    }
+
+    if (!args.flags.has('no-verify') && !(await verifyTokens(tokens, name))) {
+      return 1;
+    }
+
+    saveWorkspace(name, tokens, args.flags.has('default'));
+    console.log(`Saved workspace ${name}`);
+    return 0;
+  } finally {
+    prompt.close();
+  }
+}
+
+function removeWorkspace(args: ParsedArgs): number {
+  const [name] = args.positionals;
+  if (!name || args.positionals.length > 1) {
+    throw new Error('Usage: auth remove <name>');
+  }
+
+  if (!WorkspaceRegistry.getInstance().removeWorkspace(name)) {
+    console.error(`Workspace ${name} is not in the credential store`);
+    return 1;
+  }
+
+  console.log(`Removed workspace ${name}`);
+  return 0;
+}
+
+async function testWorkspaces(args: ParsedArgs): Promise<number> {
+  const registry = WorkspaceRegistry.getInstance();
+  const names = args.positionals.length > 0 ? args.positionals : registry.getNames();
+
+  if (names.length === 0) {
+    console.error('No workspaces configured');
+    return 1;
+  }
+
+  let failures = 0;
+  for (const name of names) {
+    const entry = registry.resolve(name)!;
+    const result = await new SlackAuth().validateTokens(entry.tokens);
+    if (result.success) {
+      console.log(
+        `ok    ${entry.name}  ${result.user?.name} @ ${result.user?.team} (${result.user?.teamId})`
+      );
+    } else {
+      console.log(`FAIL  ${entry.name}  ${result.error}`);
+      failures++;
+    }
+  }
+
+  return failures > 0 ? 1 : 0;
+}
+
+async function importSession(args: ParsedArgs): Promise<number> {
+  const format = args.values['format'];
+  if (format && format !== 'cookies' && format !== 'har' && format !== 'localstorage') {
+    throw new Error(`Invalid --format value: ${format} (expected cookies, har or localstorage)`);
+  }
+  if (args.positionals.length === 0) {
+    throw new Error('auth import needs at least one export file');
+  }
+  requireStoreKey();
+
+  const session = mergeSessions(
+    args.positionals.map((file) =>
+      parseSessionExport(readFileSync(file, 'utf8'), format as SessionExportFormat | undefined)
+    )
+  );
+
+  if (!session.xoxd) {
+    console.error(
+      'No "d" session cookie found. Include a cookies.txt export or a HAR file with request cookies.'
+    );
+    return 1;
+  }
+  if (session.teams.length === 0) {
+    console.error(
+      'No xoxc tokens found. Include a HAR file or a localStorage dump from app.slack.com.'
+    );
+    return 1;
+  }
+
+  const workspaceName = args.values['workspace'];
+  if (workspaceName && session.teams.length > 1) {
+    console.error(
+      `--workspace can only be used when importing one team (found ${session.teams.length})`
+    );
+    return 1;
+  }
+
+  let saved = 0;
+  let failures = 0;
+
+  for (const team of session.teams) {
+    const name = workspaceName || team.teamDomain || team.teamId;
+    if (!name) {
+      console.error(`Skipping token ${maskToken(team.xoxc)}: unknown team, pass --workspace`);
+      failures++;
+      continue;
+    }
+
+    const tokens: SlackTokens = {
+      xoxc: team.xoxc,
+      xoxd: session.xoxd,
+      teamDomain: team.teamDomain || name,
+      teamId: team.teamId,
+      enterpriseId: team.enterpriseId,
+    };
+
+    if (!args.flags.has('no-verify') && !(await verifyTokens(tokens, name))) {
+      failures++;
+      continue;
+    }
+
+    saveWorkspace(name, tokens, args.flags.has('default'));
+    console.log(`Imported ${describeTeam(name, team)}`);
+    saved++;
+  }
+
+  if (saved > 0) {
+    console.log(
+      `Saved ${saved} workspace(s) to ${WorkspaceRegistry.getInstance().getStore().path}`
+    );
+  }
+  return failures > 0 ? 1 : 0;
+}
+
+function initKey(args: ParsedArgs): number {
+  const [path] = args.positionals;
+  if (!path || args.positionals.length > 1) {
+    throw new Error('Usage: auth init-key <path>');
+  }
+
+  const store = WorkspaceRegistry.getInstance().getStore();
+  store.createKeyFile(resolve(path));
+  console.log(`Created key file ${store.getKeySource()} (keep it private; it unlocks the store)`);
+  console.log(
+    `Set SLACK_MCP_KEY_FILE=${store.getKeySource()} for the server and for auth commands.`
+  );
+  return 0;
+}
+
+/**
+ * Fail before asking for tokens when the credential store has no key to save them with
+ */
+function requireStoreKey(): void {
+  const store = WorkspaceRegistry.getInstance().getStore();
+  if (!store.hasKey()) {
+    throw new Error(
+      'No key for the credential store. Set SLACK_MCP_PASSPHRASE, or create a key file outside ' +
+        `${dirname(store.path)} with "auth init-key <path>" and set SLACK_MCP_KEY_FILE to it.`
+    );
+  }
+}
+
+function saveWorkspace(name: string, tokens: SlackTokens, makeDefault: boolean): void {
+  WorkspaceRegistry.getInstance().saveWorkspace(name, tokens, { makeDefault });
+}
+
+async function verifyTokens(tokens: SlackTokens, name: string): Promise<boolean> {
+  const result = await new SlackAuth().validateTokens(tokens);
+  if (!result.success) {
+    console.error(`Tokens for ${name} rejected: ${result.error}`);
+    return false;
+  }
+  tokens.teamId = tokens.teamId || result.user?.teamId;
+  return true;
+}
+
+/**
+ * Line reader that works for both a terminal and piped stdin. On a terminal,
+ * answers to secret questions are not echoed.
+ */
+function createPrompter(): ((
+  question: string,
+  options?: { secret?: boolean }
+) => Promise<string>) & {
+  close(): void;
+} {
+  // Typed characters are echoed through this stream, so muting it hides them
+  let muted = false;
+  const output = new Writable({
+    write(chunk, _encoding, callback) {
+      if (!muted) {
+        process.stderr.write(chunk);
+      }
+      callback();
+    },
+  });
+  const rl = createInterface({
+    input: process.stdin,
+    output,
+    terminal: process.stdin.isTTY === true,
+  });
+  const lines: string[] = [];
+  const waiting: Array<(line: string) => void> = [];
+  let closed = false;
+
+  rl.on('line', (line) => {
+    if (muted) {
+      muted = false;
+      process.stderr.write('\n');
+    }
+    const resolve = waiting.shift();
+    if (resolve) {
+      resolve(line.trim());
+    } else {
+      lines.push(line.trim());
+    }
+  });
+  rl.on('close', () => {
+    closed = true;
+    waiting.splice(0).forEach((resolve) => resolve(''));
+  });
+  // A terminal in raw mode delivers Ctrl+C to readline rather than as a signal
+  rl.on('SIGINT', () => {
+    process.stderr.write('\n');
+    process.exit(130);
+  });
+
+  const prompt = (question: string, options: { secret?: boolean } = {}): Promise<string> => {
+    if (lines.length > 0) {
+      return Promise.resolve(lines.shift()!);
+    }
+    if (closed) {
+      return Promise.resolve('');
+    }
+    process.stderr.write(question);
+    muted = !!options.secret;
+    return new Promise((resolve) => waiting.push(resolve));
+  };
+
+  return Object.assign(prompt, { close: () => rl.close() });
+}
+
+function describeTeam(name: string, team: ImportedTeam): string {
+  const details = [team.teamName, team.teamId, team.enterpriseId && `grid ${team.enterpriseId}`]
+    .filter(Boolean)
+    .join(', ');
+  return details ? `${name} (${details})` : name;
+}
+
+function maskToken(token: string): string {
+  return `${token.slice(0, 9)}...`;
+}
@@ -0,0 +1,233 @@
+/**
+ * Completion Provider
+ * Suggests values for prompt and resource template arguments (completion/complete)
+ */
+
+import type { CompleteResult } from '@modelcontextprotocol/sdk/types.js';
+import { InputValidationError } from '../errors/index.js';
+import { PromptRegistry } from '../prompts/index.js';
+import { PERMALINK_TEMPLATE } from '../resources/index.js';
+import { ResourcePolicy } from '../security/index.js';
+import { DirectorySnapshot, SlackDirectory } from '../slack/directory.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * The MCP spec caps a completion response at 100 values
+ */
+const MAX_COMPLETIONS = 100;
+
+const TIME_RANGES = [
+  'today',
+  'yesterday',
+  '3 days',
+  '7 days',
+  '30 days',
+  'this week',
+  'last week',
+  'this month',
+  'last month',
+  'this year',
+];
+
+export type CompletionReference =
+  | { type: 'ref/prompt'; name: string }
+  | { type: 'ref/resource'; uri: string };
+
+export type CompletionKind =
+  | 'channel_name'
+  | 'channel_id'
+  | 'user_id'
+  | 'recipient'
+  | 'emoji'
+  | 'time_range';
+
+interface Candidate {
+  value: string;
+  keys: string[]; // Names the query is matched against
+}
+
+/**
+ * Argument kinds for prompt arguments, by argument name
+ */
+const PROMPT_ARGUMENT_KINDS: Record<string, CompletionKind> = {
+  channel: 'channel_name',
+  recipient: 'recipient',
+  time_range: 'time_range',
+  emoji: 'emoji',
+  reaction: 'emoji',
+};
+
+/**
+ * Argument kinds for resource template variables, by template then variable
+ */
+const TEMPLATE_ARGUMENT_KINDS: Record<string, Record<string, CompletionKind>> = {
+  'slack://channel/{id}/history': { id: 'channel_id' },
+  'slack://thread/{channel}/{ts}': { channel: 'channel_id' },
+  'slack://user/{id}': { id: 'user_id' },
+  [PERMALINK_TEMPLATE.uriTemplate]: { channel: 'channel_id' },
+};
+
+/**
+ * Rank how well a query matches a name: 0 prefix, 1 word prefix, 2 substring,
+ * 3 subsequence (fuzzy), or -1 for no match
+ */
+export function matchScore(query: string, name: string): number {
+  const target = name.toLowerCase();
+  if (!query || target.startsWith(query)) {
+    return 0;
+  }
+  if (target.split(/[-_.\s]+/).some((word) => word.startsWith(query))) {
+    return 1;
+  }
+  if (target.includes(query)) {
+    return 2;
+  }
+
+  let position = 0;
+  for (const char of target) {
+    if (char === query[position]) {
+      position++;
+      if (position === query.length) {
+        return 3;
+      }
+    }
+  }
+  return -1;
+}
+
+export class CompletionProvider {
+  constructor(
+    private prompts: PromptRegistry = new PromptRegistry(),
+    private directory: SlackDirectory = SlackDirectory.getInstance(),
+    private policy: ResourcePolicy = new ResourcePolicy()
+  ) {}
+
+  /**
+   * Complete an argument of a prompt or resource template. Channels and users
+   * the policy denies are never suggested.
+   */
+  async complete(
+    ref: CompletionReference,
+    argument: { name: string; value: string }
+  ): Promise<CompleteResult['completion']> {
+    const kind = this.resolveKind(ref, argument.name);
+    if (!kind) {
+      return { values: [] };
+    }
+
+    let candidates: Candidate[];
+    try {
+      candidates = await this.getCandidates(kind, argument.value);
+    } catch (error) {
+      logger.warn('Completion unavailable', {
+        kind,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return { values: [] };
+    }
+
+    const values = this.rank(candidates, argument.value);
+    return {
+      values: values.slice(0, MAX_COMPLETIONS),
+      total: values.length,
+      hasMore: values.length > MAX_COMPLETIONS,
+    };
+  }
+
+  /**
+   * Which kind of value an argument takes, or null when it has no suggestions
+   */
+  private resolveKind(ref: CompletionReference, argumentName: string): CompletionKind | null {
+    if (ref.type === 'ref/prompt') {
+      const prompt = this.prompts.getDefinition(ref.name);
+      if (!prompt) {
+        throw new InputValidationError('ref', `unknown prompt ${ref.name}`);
+      }
+      if (!prompt.arguments.some((arg) => arg.name === argumentName)) {
+        throw new InputValidationError('argument', `${ref.name} has no argument ${argumentName}`);
+      }
+      return PROMPT_ARGUMENT_KINDS[argumentName] || null;
+    }
+
+    return TEMPLATE_ARGUMENT_KINDS[ref.uri]?.[argumentName] || null;
+  }
+
+  private async getCandidates(kind: CompletionKind, value: string): Promise<Candidate[]> {
+    if (kind === 'time_range') {
+      return TIME_RANGES.map((range) => ({ value: range, keys: [range] }));
+    }
+
+    const snapshot = await this.directory.get();
+    switch (kind) {
+      case 'channel_name':
+        return this.channels(snapshot).map(({ name }) => ({ value: name, keys: [name] }));
+      case 'channel_id':
+        return this.channels(snapshot).map(({ id, name }) => ({ value: id, keys: [name, id] }));
+      case 'user_id':
+        return this.users(snapshot).map((user) => ({ value: user.id, keys: user.keys }));
+      case 'recipient':
+        // "#" switches a recipient from people to channels
+        return value.trim().startsWith('#')
+          ? this.channels(snapshot).map(({ name }) => ({ value: `#${name}`, keys: [name] }))
+          : this.users(snapshot).map((user) => ({ value: user.name, keys: user.keys }));
+      case 'emoji':
+        return snapshot.emoji.map((name) => ({ value: name, keys: [name] }));
+    }
+  }
+
+  private channels(snapshot: DirectorySnapshot) {
+    return this.policy.filterWith(
+      'completion/complete',
+      snapshot.channels.filter((channel) => !channel.is_archived && !channel.is_mpim),
+      (channel) => ({ channel: channel.id }),
+      snapshot
+    );
+  }
+
+  private users(snapshot: DirectorySnapshot) {
+    return this.policy
+      .filterWith(
+        'completion/complete',
+        snapshot.users.filter((user) => !user.deleted),
+        (user) => ({ user: user.id }),
+        snapshot
+      )
+      .map((user) => ({
+        id: user.id,
+        name: user.name,
+        keys: [user.name, user.display_name, user.real_name, user.id].filter(
+          (key): key is string => !!key
+        ),
+      }));
+  }
+
+  /**
+   * Order candidates by best match, then shortest, then alphabetically
+   */
+  private rank(candidates: Candidate[], value: string): string[] {
+    const query = value
+      .trim()
+      .replace(/^[#@:]/, '')
+      .replace(/:$/, '')
+      .toLowerCase();
+
+    const scored = candidates
+      .map((candidate) => ({
+        value: candidate.value,
+        score: Math.min(
+          ...candidate.keys.map((key) => {
+            const score = matchScore(query, key);
+            return score < 0 ? Infinity : score;
+          })
+        ),
+      }))
+      .filter((candidate) => candidate.score !== Infinity);
+
+    scored.sort(
+      (a, b) =>
+        a.score - b.score || a.value.length - b.value.length || a.value.localeCompare(b.value)
+    );
+
+    return Array.from(new Set(scored.map((candidate) => candidate.value)));
+  }
+}
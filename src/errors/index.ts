@@ -1,4 +1,5 @@
 import { logger } from '../utils/logger.js';
+import { sleep } from '../utils/sleep.js';
 
 /**
  * Base error class for MCP server errors
@@ -97,6 +98,15 @@ export class ToolTimeoutError extends MCPError {
   }
 }
 
+export class OperationCancelledError extends MCPError {
+  readonly code = 'OPERATION_CANCELLED';
+  readonly statusCode = 499;
+
+  constructor(toolName: string, reason?: string, traceId?: string) {
+    super(`Tool ${toolName} was cancelled${reason ? `: ${reason}` : ''}`, traceId, { toolName, reason });
+  }
+}
+
 /**
  * Resource-related errors
  */
@@ -161,19 +171,166 @@ export class InputValidationError extends MCPError {
   }
 }
 
+export class AuthenticationError extends MCPError {
+  readonly code = 'AUTHENTICATION_FAILED';
+  readonly statusCode = 401;
+
+  constructor(reason: string, traceId?: string) {
+    super(`Authentication failed: ${reason}`, traceId, { reason });
+  }
+
+  getUserMessage(): string {
+    return 'Authentication required';
+  }
+}
+
 export class SecurityViolationError extends MCPError {
   readonly code = 'SECURITY_VIOLATION';
   readonly statusCode = 403;
 
-  constructor(violation: string, traceId?: string) {
-    super(`Security violation detected: ${violation}`, traceId, { violation });
+  /**
+   * Policy violations name the rule that matched, and are shown to the user in full
+   */
+  constructor(violation: string, traceId?: string, policy?: { rule?: string }) {
+    super(`Security violation detected: ${violation}`, traceId, {
+      violation,
+      policy: !!policy,
+      rule: policy?.rule
+    });
   }
 
   getUserMessage(): string {
+    if (this.context?.rule) {
+      return `Blocked by policy rule "${this.context.rule}": ${this.context.violation}`;
+    }
+    if (this.context?.policy) {
+      return `Blocked by policy: ${this.context.violation}`;
+    }
     return 'Security violation detected';
   }
 }
 
+export class ReadOnlyModeError extends MCPError {
+  readonly code = 'READ_ONLY_MODE';
+  readonly statusCode = 403;
+
+  constructor(toolName: string, workspace?: string, traceId?: string) {
+    super(
+      `Tool ${toolName} writes to Slack and ${workspace ? `workspace ${workspace} is` : 'the server is'} read-only`,
+      traceId,
+      { toolName, workspace }
+    );
+  }
+
+  getUserMessage(): string {
+    const scope = this.context?.workspace ? `Workspace ${this.context.workspace} is` : 'This server is';
+    return `${scope} in read-only mode; ${this.context?.toolName} is not available.`;
+  }
+}
+
+/**
+ * Approval queue errors
+ */
+export class PendingActionNotFoundError extends MCPError {
+  readonly code = 'PENDING_ACTION_NOT_FOUND';
+  readonly statusCode = 404;
+
+  constructor(actionId: string, expired: boolean, traceId?: string) {
+    super(`Pending action ${actionId} ${expired ? 'has expired' : 'not found'}`, traceId, { actionId, expired });
+  }
+
+  getUserMessage(): string {
+    return this.context?.expired
+      ? `Pending action ${this.context.actionId} has expired and was discarded; make the call again to draft a new one.`
+      : `No pending action ${this.context?.actionId}; it may have been approved, rejected or expired already.`;
+  }
+}
+
+/**
+ * Undo journal errors
+ */
+export class UndoActionNotFoundError extends MCPError {
+  readonly code = 'UNDO_ACTION_NOT_FOUND';
+  readonly statusCode = 404;
+
+  constructor(actionId?: string, traceId?: string) {
+    super(actionId ? `Undoable action ${actionId} not found` : 'Nothing to undo', traceId, { actionId });
+  }
+
+  getUserMessage(): string {
+    return this.context?.actionId
+      ? `No undoable action ${this.context.actionId}; it may have been undone already, or dropped from the journal.`
+      : 'Nothing to undo: no recent posts, edits or reactions were made in this workspace.';
+  }
+}
+
+/**
+ * Slack API errors
+ */
+export class SlackHttpError extends MCPError {
+  readonly code = 'SLACK_HTTP_ERROR';
+  readonly statusCode: number;
+
+  constructor(endpoint: string, status: number, statusText: string, traceId?: string) {
+    super(`HTTP ${status}: ${statusText}`, traceId, { endpoint, status });
+    this.statusCode = status;
+  }
+}
+
+export class SlackDecodeError extends MCPError {
+  readonly code = 'SLACK_DECODE_ERROR';
+  readonly statusCode = 502;
+
+  constructor(endpoint: string, issues: string[], traceId?: string) {
+    super(
+      `Unexpected response from Slack ${endpoint}: ${issues.slice(0, 3).join('; ')}` +
+        (issues.length > 3 ? ` (+${issues.length - 3} more)` : ''),
+      traceId,
+      { endpoint, issues }
+    );
+  }
+}
+
+export class SessionExpiredError extends MCPError {
+  readonly code = 'SESSION_EXPIRED';
+  readonly statusCode = 401;
+
+  constructor(workspace: string, reason: string, traceId?: string) {
+    super(
+      `Slack session expired for workspace ${workspace} (${reason}). ` +
+        'Log in to Slack in the browser and re-import the session with "slack-browser-mcp-server auth import"',
+      traceId,
+      { workspace, reason }
+    );
+  }
+}
+
+export class WorkspaceNotFoundError extends MCPError {
+  readonly code = 'WORKSPACE_NOT_FOUND';
+  readonly statusCode = 404;
+
+  constructor(workspace: string, available: string[], traceId?: string) {
+    super(
+      `Unknown Slack workspace: ${workspace} (configured: ${available.join(', ') || 'none'})`,
+      traceId,
+      { workspace, available }
+    );
+  }
+}
+
+export class CredentialStoreError extends MCPError {
+  readonly code = 'CREDENTIAL_STORE_ERROR';
+  readonly statusCode = 500;
+
+  constructor(reason: string, traceId?: string) {
+    super(`Credential store error: ${reason}`, traceId, { reason });
+  }
+
+  getUserMessage(): string {
+    return 'Credential store unavailable';
+  }
+}
+
 /**
  * System-related errors
  */
@@ -353,6 +510,8 @@ export class ErrorRecovery {
       maxDelay?: number;
       factor?: number;
       retryCondition?: (error: MCPError) => boolean;
+      retryDelay?: (error: MCPError, attempt: number) => number | undefined;
+      signal?: AbortSignal;
     } = {}
   ): Promise<T> {
     const {
@@ -360,7 +519,9 @@ export class ErrorRecovery {
       initialDelay = 1000,
       maxDelay = 10000,
       factor = 2,
-      retryCondition = (error) => error.statusCode >= 500
+      retryCondition = (error) => error.statusCode >= 500,
+      retryDelay,
+      signal
     } = options;
 
     let lastError: MCPError | undefined;
@@ -372,19 +533,25 @@ export class ErrorRecovery {
       } catch (error) {
         lastError = ErrorHandler.handleError(error);
         
-        if (attempt === maxRetries || !retryCondition(lastError)) {
+        if (attempt === maxRetries || !retryCondition(lastError) || signal?.aborted) {
           throw lastError;
         }
 
+        // Errors may dictate their own delay (e.g. Retry-After); otherwise back off exponentially
+        const errorDelay = retryDelay?.(lastError, attempt);
+        const waitMs = errorDelay !== undefined ? errorDelay : delay;
+
         logger.warn('Operation failed, retrying', {
           attempt: attempt + 1,
           maxRetries,
-          delay,
+          delay: waitMs,
           error: lastError.toJSON()
         });
 
-        await new Promise(resolve => setTimeout(resolve, delay));
-        delay = Math.min(delay * factor, maxDelay);
+        await sleep(waitMs, signal);
+        if (errorDelay === undefined) {
+          delay = Math.min(delay * factor, maxDelay);
+        }
       }
     }
 
@@ -3,15 +3,56 @@
 import 'dotenv/config';
 import { SlackMCPServer } from './server.js';
 import { logger } from './utils/logger.js';
+import { parseCliArgs } from './utils/cli.js';
+import { config } from './utils/config.js';
+import { runAuthCommand } from './cli/auth.js';
+import { runAuditCommand } from './cli/audit.js';
+
+/**
+ * Run a one-shot subcommand (e.g. "auth import" or "audit query") instead of starting the server
+ */
+async function runSubcommand(argv: string[]): Promise<never> {
+  try {
+    const run = argv[0] === 'audit' ? runAuditCommand : runAuthCommand;
+    process.exit(await run(argv.slice(1)));
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    process.exit(1);
+  }
+}
 
 async function main(): Promise<void> {
+  const argv = process.argv.slice(2);
+  if (argv[0] === 'auth' || argv[0] === 'audit') {
+    await runSubcommand(argv);
+  }
+
+  const cliOptions = parseCliArgs(argv);
+
   logger.info('Slack MCP Server starting', {
-    architecture: 'tool-only',
+    architecture: 'tools-and-resources',
     environment: process.env.NODE_ENV || 'production',
   });
   logger.info('Initializing Slack MCP Server');
 
-  const server = new SlackMCPServer();
+  let server: SlackMCPServer;
+  try {
+    // The profile decides which tools the server registers, so it is loaded first
+    config.loadProfile({ file: cliOptions.config, profile: cliOptions.profile });
+    server = new SlackMCPServer({
+      readOnly: cliOptions.readOnly,
+      transport: {
+        type: cliOptions.transport,
+        http: {
+          ...(cliOptions.host !== undefined && { host: cliOptions.host }),
+          ...(cliOptions.port !== undefined && { port: cliOptions.port }),
+        },
+      },
+    });
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    process.exit(1);
+  }
 
   // Handle graceful shutdown
   process.on('SIGINT', async () => {
@@ -29,7 +70,9 @@ async function main(): Promise<void> {
   try {
     await server.run();
   } catch (error) {
-    logger.error('Failed to start server', { error });
+    logger.error('Failed to start server', {
+      error: error instanceof Error ? error.message : error,
+    });
     process.exit(1);
   }
 }
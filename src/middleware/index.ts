@@ -4,6 +4,7 @@ export { ValidationMiddleware, ErrorHandlingMiddleware, DevelopmentMiddleware }
 
 // Export convenience function to create default middleware stack
 import { ToolMiddleware } from '../types/tools.js';
+import type { MiddlewareStack } from '../utils/config.js';
 import { LoggingMiddleware, PerformanceMiddleware, MemoryMiddleware } from './logging.js';
 import { ValidationMiddleware, ErrorHandlingMiddleware, DevelopmentMiddleware } from './validation.js';
 
@@ -41,4 +42,18 @@ export function createTestingMiddleware(): ToolMiddleware[] {
     new ValidationMiddleware(),
     new ErrorHandlingMiddleware()
   ];
+}
+
+/**
+ * Create the middleware stack chosen by the config profile
+ */
+export function createMiddleware(stack: MiddlewareStack): ToolMiddleware[] {
+  switch (stack) {
+    case 'production':
+      return createProductionMiddleware();
+    case 'testing':
+      return createTestingMiddleware();
+    default:
+      return createDevelopmentMiddleware();
+  }
 }
\ No newline at end of file
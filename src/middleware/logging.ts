@@ -12,6 +12,7 @@ export class LoggingMiddleware implements ToolMiddleware {
     logger.debug('Tool execution starting', {
       toolName: context.toolName,
       traceId: context.traceId,
+      userId: context.userId,
       startTime: context.startTime,
       args: this.sanitizeArgs(args),
       metadata: context.metadata
@@ -25,6 +26,7 @@ export class LoggingMiddleware implements ToolMiddleware {
       logger.info('Tool execution completed successfully', {
         toolName: context.toolName,
         traceId: context.traceId,
+        userId: context.userId,
         executionTime,
         success: result.success,
         hasData: !!result.data,
@@ -34,6 +36,7 @@ export class LoggingMiddleware implements ToolMiddleware {
       logger.warn('Tool execution failed', {
         toolName: context.toolName,
         traceId: context.traceId,
+        userId: context.userId,
         executionTime,
         success: result.success,
         error: result.error,
@@ -49,6 +52,7 @@ export class LoggingMiddleware implements ToolMiddleware {
     logger.error('Tool execution error', {
       toolName: context.toolName,
       traceId: context.traceId,
+      userId: context.userId,
       executionTime,
       error: error.message,
       stack: error.stack,
@@ -54,10 +54,16 @@ export interface SystemInfo {
  * Thread Performance Benchmarking Class
  */
 export class ThreadPerformanceBenchmarks {
-  private testChannel = 'C07UMQ2PR1V'; // general channel for testing
-  private testThreadTs = '1754521533.893'; // existing test thread
+  private testChannel: string;
+  private testThreadTs: string;
 
-  constructor() {
+  /**
+   * The thread to benchmark against, e.g. the fake workspace's FAKE_CHANNEL_ID
+   * and FAKE_THREAD_TS (see test/support/fixtures.ts)
+   */
+  constructor(options: { channel: string; threadTs: string }) {
+    this.testChannel = options.channel;
+    this.testThreadTs = options.threadTs;
     logger.info('Thread Performance Benchmarks initialized');
   }
 
@@ -0,0 +1,65 @@
+/**
+ * Prompt Registry
+ * Serves the workflow prompts over prompts/list and prompts/get
+ */
+
+import type { GetPromptResult, Prompt } from '@modelcontextprotocol/sdk/types.js';
+import { InputValidationError } from '../errors/index.js';
+import { logger } from '../utils/logger.js';
+import { SlackPromptDefinition, WORKFLOW_PROMPTS, toSearchDateFilter } from './workflows.js';
+
+export { WORKFLOW_PROMPTS, toSearchDateFilter };
+export type { SlackPromptDefinition };
+
+export class PromptRegistry {
+  private prompts: Map<string, SlackPromptDefinition>;
+
+  constructor(prompts: SlackPromptDefinition[] = WORKFLOW_PROMPTS) {
+    this.prompts = new Map(prompts.map((prompt) => [prompt.name, prompt]));
+  }
+
+  /**
+   * Prompt metadata for prompts/list
+   */
+  listPrompts(): Prompt[] {
+    return Array.from(this.prompts.values()).map(
+      ({ name, title, description, arguments: args }) => ({
+        name,
+        title,
+        description,
+        arguments: args,
+      })
+    );
+  }
+
+  /**
+   * Get a prompt definition by name
+   */
+  getDefinition(name: string): SlackPromptDefinition | undefined {
+    return this.prompts.get(name);
+  }
+
+  /**
+   * Expand a prompt with its arguments for prompts/get
+   */
+  getPrompt(name: string, args: Record<string, string> = {}): GetPromptResult {
+    const prompt = this.prompts.get(name);
+    if (!prompt) {
+      throw new InputValidationError('name', `unknown prompt ${name}`);
+    }
+
+    const missing = prompt.arguments
+      .filter((arg) => arg.required && !args[arg.name]?.trim())
+      .map((arg) => arg.name);
+    if (missing.length > 0) {
+      throw new InputValidationError(missing[0], `${missing.join(', ')} required`);
+    }
+
+    logger.debug('Rendering prompt', { name, arguments: Object.keys(args) });
+
+    return {
+      description: prompt.description,
+      messages: [{ role: 'user', content: { type: 'text', text: prompt.render(args) } }],
+    };
+  }
+}
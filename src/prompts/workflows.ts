@@ -0,0 +1,218 @@
+/**
+ * Workflow Prompts
+ * The multi-step workflows from the README as MCP prompts
+ */
+
+import type { PromptArgument } from '@modelcontextprotocol/sdk/types.js';
+import { InputValidationError } from '../errors/index.js';
+import { resolvePermalink } from '../resources/slack-resources.js';
+
+/**
+ * A prompt that expands its arguments into step-by-step tool instructions
+ */
+export interface SlackPromptDefinition {
+  name: string;
+  title: string;
+  description: string;
+  arguments: PromptArgument[];
+  render(args: Record<string, string>): string;
+}
+
+const CHANNEL_ID_PATTERN = /^[CG][A-Z0-9]+$/;
+const USER_ID_PATTERN = /^[UW][A-Z0-9]+$/;
+
+/**
+ * Turn a friendly time range into a search_messages date filter.
+ * Slack's own operators (after:, before:, on:, during:) pass through unchanged.
+ */
+export function toSearchDateFilter(timeRange: string, now: Date = new Date()): string {
+  const value = timeRange.trim().toLowerCase();
+
+  if (/^(after|before|on|during):\S+/.test(value)) {
+    return timeRange.trim();
+  }
+
+  // after: and before: are exclusive, so ranges are bounded by the neighbouring days
+  const day = (date: Date, offsetDays: number = 0) =>
+    new Date(date.getTime() + offsetDays * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+  const days = /^(?:last |past )?(\d{1,3}) ?(?:d|days?)$/.exec(value);
+  if (days) {
+    return `after:${day(now, -parseInt(days[1], 10))}`;
+  }
+
+  if (value === 'today' || value === 'yesterday') {
+    return `on:${value}`;
+  }
+
+  const period = /^(this|last) (week|month|year)$/.exec(value);
+  if (period) {
+    const [, which, unit] = period;
+    const start = new Date(
+      Date.UTC(now.getUTCFullYear(), unit === 'year' ? 0 : now.getUTCMonth(), 1)
+    );
+    if (unit === 'week') {
+      start.setUTCMonth(now.getUTCMonth(), now.getUTCDate() - ((now.getUTCDay() + 6) % 7));
+    }
+    if (which === 'this') {
+      return `after:${day(start, -1)}`;
+    }
+
+    const previous = new Date(start);
+    if (unit === 'week') {
+      previous.setUTCDate(start.getUTCDate() - 7);
+    } else if (unit === 'month') {
+      previous.setUTCMonth(start.getUTCMonth() - 1);
+    } else {
+      previous.setUTCFullYear(start.getUTCFullYear() - 1);
+    }
+    return `after:${day(previous, -1)} before:${day(start)}`;
+  }
+
+  throw new InputValidationError(
+    'time_range',
+    'use "3 days", "today", "yesterday", "this week", "last month" or a Slack date operator such as after:2025-08-01'
+  );
+}
+
+/**
+ * A search_messages channel filter for a channel name or ID
+ */
+function channelFilter(channel: string): { filter: string; lookup?: string } {
+  const name = channel.trim().replace(/^#/, '');
+  if (CHANNEL_ID_PATTERN.test(name)) {
+    return {
+      filter: 'in:<channel name>',
+      lookup: `Call list_workspace_channels and find the name of channel ${name}; use it for <channel name> below.`,
+    };
+  }
+  return { filter: `in:${name}` };
+}
+
+/**
+ * Where to send a report: a channel, or a person's DM via their user ID
+ */
+function recipientStep(recipient: string): string {
+  const target = recipient.trim();
+  if (CHANNEL_ID_PATTERN.test(target) || USER_ID_PATTERN.test(target)) {
+    return `Use post_message_blocks with channel "${target}", the report as blocks (a JSON string) and a one-line text fallback.`;
+  }
+  if (target.startsWith('#')) {
+    return `Call list_workspace_channels to find the ID of ${target}, then use post_message_blocks with that channel ID, the report as blocks (a JSON string) and a one-line text fallback.`;
+  }
+  return `Call list_workspace_users to find the user ID of "${target.replace(/^@/, '')}" (confirm with get_user_profile if several users match). Then use post_message_blocks with that user ID as channel, which sends a direct message, passing the report as blocks (a JSON string) and a one-line text fallback.`;
+}
+
+/**
+ * Parse a message permalink or slack://thread URI into channel and thread ts
+ */
+function parseThread(threadUrl: string): { channel: string; ts: string } {
+  const uri = resolvePermalink(threadUrl.trim()) || threadUrl.trim();
+  const match = /^slack:\/\/thread\/([A-Z0-9]+)\/(\d+\.\d+)$/.exec(uri);
+  if (!match) {
+    throw new InputValidationError(
+      'thread_url',
+      'expected a Slack message link (https://<workspace>.slack.com/archives/<channel>/p<ts>) or slack://thread/<channel>/<ts>'
+    );
+  }
+  return { channel: match[1], ts: match[2] };
+}
+
+function numbered(steps: string[]): string {
+  return steps.map((step, index) => `${index + 1}. ${step}`).join('\n');
+}
+
+export const WORKFLOW_PROMPTS: SlackPromptDefinition[] = [
+  {
+    name: 'progress_report',
+    title: 'Progress Summary & Block Kit Report',
+    description:
+      'Summarize recent progress in a channel as a Block Kit report, optionally sending it to someone',
+    arguments: [
+      { name: 'channel', description: 'Channel name or ID, e.g. engineering', required: true },
+      {
+        name: 'time_range',
+        description:
+          'Period to cover: "3 days", "this week", or after:2025-08-01 (default: 3 days)',
+      },
+      {
+        name: 'recipient',
+        description: 'Who gets the report: a username, user ID or #channel (default: just show it)',
+      },
+    ],
+    render(args) {
+      const { filter, lookup } = channelFilter(args.channel);
+      const dateFilter = toSearchDateFilter(args.time_range || '3 days');
+
+      const steps = [
+        ...(lookup ? [lookup] : []),
+        `Call search_messages with query "${filter} ${dateFilter}" and sort "desc". Fetch further pages while results are relevant.`,
+        'For results that started threads or look important, call get_thread_replies with the channel ID and ts to get the full discussion.',
+        'Group the findings into completed work, work in progress, blockers and decisions. Credit people by name and link the source messages.',
+        'Build a Block Kit report: a header, one section per group, a divider between groups and a context block with the period covered.',
+        args.recipient
+          ? recipientStep(args.recipient)
+          : 'Show the report and the blocks JSON. Do not post anything; offer to send it.',
+      ];
+
+      return `Write a progress report for ${args.channel.trim()} covering ${args.time_range || 'the last 3 days'}.\n\n${numbered(steps)}`;
+    },
+  },
+  {
+    name: 'thread_analysis',
+    title: 'Thread Analysis & Response Guidance',
+    description: 'Summarize a thread and suggest how to respond',
+    arguments: [
+      {
+        name: 'thread_url',
+        description: 'Link to the thread or any message in it, or slack://thread/<channel>/<ts>',
+        required: true,
+      },
+      { name: 'goal', description: 'What you want your reply to achieve (optional)' },
+    ],
+    render(args) {
+      const { channel, ts } = parseThread(args.thread_url);
+
+      const steps = [
+        `Call get_thread_replies with channel "${channel}" and ts "${ts}" to get every message in the thread.`,
+        'Call get_user_profile for each participant you need to identify (role, title, time zone).',
+        'Summarize the thread: the question or problem, the timeline, positions taken, decisions made and anything still open.',
+        'Describe the tone and what each participant is waiting for.',
+        `Suggest two or three possible replies${args.goal ? ` that work toward this goal: ${args.goal}` : ''}, with the trade-offs of each.`,
+        `Do not post anything. If asked to send a reply, use post_message with channel "${channel}" and thread_ts "${ts}".`,
+      ];
+
+      return `Analyze the Slack thread ${channel}/${ts} and help me respond.\n\n${numbered(steps)}`;
+    },
+  },
+  {
+    name: 'topic_synthesis',
+    title: 'Topic Discovery & Information Synthesis',
+    description: 'Find where a topic is discussed across the workspace and synthesize it',
+    arguments: [
+      { name: 'topic', description: 'Topic or phrase, e.g. deployment issues', required: true },
+      {
+        name: 'time_range',
+        description:
+          'Period to search: "30 days", "last month", or after:2025-08-01 (default: 30 days)',
+      },
+      { name: 'channel', description: 'Limit the search to one channel name or ID (optional)' },
+    ],
+    render(args) {
+      const topic = args.topic.trim();
+      const dateFilter = toSearchDateFilter(args.time_range || '30 days');
+      const scope = args.channel ? channelFilter(args.channel) : undefined;
+      const query = [`"${topic}"`, scope?.filter, dateFilter].filter(Boolean).join(' ');
+
+      const steps = [
+        ...(scope?.lookup ? [scope.lookup] : []),
+        `Call search_messages with query '${query}'. If there are few results, retry without quotes or with related terms.`,
+        'For the most relevant results that have replies, call get_thread_replies with the channel ID and ts.',
+        'Call list_workspace_channels to see which teams the channels belong to, if that is not clear from their names.',
+        `Write a synthesis of "${topic}": the main issues, how they were resolved or who owns them, open questions and the key people involved. Link the source messages.`,
+      ];
+
+      return `Find and synthesize what the workspace says about "${topic}".\n\n${numbered(steps)}`;
+    },
+  },
+];
@@ -0,0 +1,222 @@
+/**
+ * Resource Registry
+ * Resolves slack:// resource URIs to read-only Slack content
+ */
+
+import type { Resource, ResourceTemplate } from '@modelcontextprotocol/sdk/types.js';
+import { SlackClientProvider } from '../slack/client-provider.js';
+import { collect } from '../slack/pagination.js';
+import { WorkspaceRegistry } from '../slack/workspaces.js';
+import { ResourcePolicy, ResourceSecurityMiddleware } from '../security/index.js';
+import type { PolicyTarget } from '../security/index.js';
+import {
+  MCPError,
+  ResourceAccessDeniedError,
+  ResourceGenerationError,
+  ResourceNotFoundError,
+} from '../errors/index.js';
+import { logger } from '../utils/logger.js';
+import {
+  PERMALINK_TEMPLATE,
+  SLACK_RESOURCE_TEMPLATES,
+  SlackResourceTemplate,
+  matchResourceUri,
+  permalinkDomain,
+  resolvePermalink,
+} from './slack-resources.js';
+
+export {
+  PERMALINK_TEMPLATE,
+  SLACK_RESOURCE_TEMPLATES,
+  matchResourceUri,
+  permalinkDomain,
+  resolvePermalink,
+};
+export type { SlackResourceTemplate };
+export { ResourceWatcher } from './watcher.js';
+export type { ResourceUpdate, WatchInfo, WatchOwner, WatchTarget } from './watcher.js';
+
+/**
+ * Most channels listed as concrete resources; the rest stay reachable by template
+ */
+const LISTED_CHANNEL_LIMIT = 100;
+
+/**
+ * The channel or user a resource belongs to, for the policy, or null for
+ * files, which are checked once fetched
+ */
+function policyTarget(uriTemplate: string, params: Record<string, string>): PolicyTarget | null {
+  if (uriTemplate === 'slack://user/{id}') {
+    return { user: params.id };
+  }
+  if (uriTemplate === 'slack://file/{id}') {
+    return null;
+  }
+  return { channel: params.channel ?? params.id };
+}
+
+export interface ResourceContents {
+  uri: string;
+  mimeType: string;
+  text: string;
+}
+
+/**
+ * Serves Slack context as MCP resources, read through the shared client of
+ * the default workspace, or of the workspace a permalink points into. The
+ * channel and user policy applies as it does to tools.
+ */
+export class ResourceRegistry {
+  private templates: SlackResourceTemplate[];
+  private security: ResourceSecurityMiddleware;
+
+  constructor(
+    private clientProvider: SlackClientProvider = SlackClientProvider.getInstance(),
+    templates: SlackResourceTemplate[] = SLACK_RESOURCE_TEMPLATES,
+    private policy: ResourcePolicy = new ResourcePolicy(),
+    private workspaces: WorkspaceRegistry = WorkspaceRegistry.getInstance()
+  ) {
+    this.templates = templates;
+    this.security = new ResourceSecurityMiddleware();
+  }
+
+  /**
+   * URI templates clients can fill in, including Slack message permalinks
+   */
+  listTemplates(): ResourceTemplate[] {
+    return [...this.templates, PERMALINK_TEMPLATE].map(
+      ({ uriTemplate, name, description, mimeType }) => ({
+        uriTemplate,
+        name,
+        description,
+        mimeType,
+      })
+    );
+  }
+
+  /**
+   * Concrete resources: the history of each channel the user belongs to and
+   * the policy allows. Listing never fails the request; without a usable session it is empty.
+   */
+  async listResources(): Promise<Resource[]> {
+    try {
+      const channels = await collect(
+        this.clientProvider.getClient().iterateChannels({
+          types: 'public_channel,private_channel',
+          exclude_archived: true,
+          maxItems: LISTED_CHANNEL_LIMIT * 2,
+        })
+      );
+
+      const allowed = await this.policy.filter(
+        'resources/list',
+        channels.filter((channel) => channel.is_member),
+        (channel) => ({ channel: channel.id })
+      );
+
+      return allowed.slice(0, LISTED_CHANNEL_LIMIT).map((channel) => ({
+        uri: `slack://channel/${channel.id}/history`,
+        name: `#${channel.name}`,
+        description: channel.topic?.value || channel.purpose?.value || undefined,
+        mimeType: 'application/json',
+      }));
+    } catch (error) {
+      logger.warn('Could not list Slack resources', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return [];
+    }
+  }
+
+  /**
+   * Read a resource by URI. A permalink is read from the workspace its host
+   * names; throws WorkspaceNotFoundError if that workspace is not configured.
+   */
+  async readResource(uri: string): Promise<ResourceContents> {
+    const resolved = resolvePermalink(uri) || uri;
+    const domain = permalinkDomain(uri);
+    const workspace = domain ? this.workspaces.resolve(domain)?.name : undefined;
+
+    try {
+      this.security.validateResourceAccess(resolved, true);
+    } catch (error) {
+      throw new ResourceAccessDeniedError(
+        uri,
+        error instanceof Error ? error.message : 'Invalid resource URI'
+      );
+    }
+
+    const match = matchResourceUri(resolved, this.templates);
+    if (!match) {
+      throw new ResourceNotFoundError(uri);
+    }
+
+    const { template, params } = match;
+    const target = policyTarget(template.uriTemplate, params);
+    if (target) {
+      await this.policy.check('resources/read', target, 'read', workspace);
+    }
+    logger.debug('Reading resource', { uri, template: template.uriTemplate, workspace });
+
+    try {
+      const client = this.clientProvider.getClient(workspace);
+      let data = await template.read(client, params);
+      if (target) {
+        data = await this.filterMessages(data, target, workspace);
+      } else {
+        await this.checkFile(data, workspace);
+      }
+      return { uri, mimeType: template.mimeType, text: JSON.stringify(data, null, 2) };
+    } catch (error) {
+      if (error instanceof MCPError) {
+        throw error;
+      }
+
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      if (/_not_found\b/.test(message)) {
+        throw new ResourceNotFoundError(uri);
+      }
+      throw new ResourceGenerationError(uri, message);
+    }
+  }
+
+  /**
+   * A file is denied if any channel it was shared in, or its owner, is denied,
+   * as search_files results are
+   */
+  private async checkFile(file: unknown, workspace?: string): Promise<void> {
+    const {
+      channels = [],
+      groups = [],
+      ims = [],
+      user,
+    } = (file || {}) as { channels?: string[]; groups?: string[]; ims?: string[]; user?: string };
+
+    const shared = [...channels, ...groups, ...ims];
+    for (const channel of shared.length > 0 ? shared : [undefined]) {
+      await this.policy.check('resources/read', { channel, user }, 'read', workspace);
+    }
+  }
+
+  /**
+   * Drop the messages of authors the policy denies, as get_thread_replies does
+   */
+  private async filterMessages(
+    data: unknown,
+    target: PolicyTarget,
+    workspace?: string
+  ): Promise<unknown> {
+    const messages = (data as { messages?: unknown })?.messages;
+    if (!Array.isArray(messages)) {
+      return data;
+    }
+
+    const kept = await this.policy.filter(
+      'resources/read',
+      messages,
+      (message) => ({ channel: target.channel, user: message.user }),
+      workspace
+    );
+    return { ...(data as object), messages: kept };
+  }
+}
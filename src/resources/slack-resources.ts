@@ -0,0 +1,172 @@
+/**
+ * Slack Resources
+ * Read-only MCP resources for channels, threads, users and files
+ */
+
+import type { SlackClient } from '../slack/client.js';
+import type { SlackMessage } from '../slack/types.js';
+import { collect } from '../slack/pagination.js';
+
+/**
+ * A family of resources addressed by one URI template
+ */
+export interface SlackResourceTemplate {
+  uriTemplate: string;
+  name: string;
+  description: string;
+  mimeType: string;
+  pattern: RegExp; // Matches concrete URIs; named groups are the template variables
+  read(client: SlackClient, params: Record<string, string>): Promise<unknown>;
+}
+
+const HISTORY_LIMIT = 50;
+const THREAD_LIMIT = 500;
+
+/**
+ * Throw Slack's own error code so the registry can tell not-found from failure
+ */
+function unwrap<T extends { ok: boolean; error?: string }>(response: T): T {
+  if (!response.ok) {
+    throw new Error(`Slack API error: ${response.error || 'Unknown error'}`);
+  }
+  return response;
+}
+
+/**
+ * The parts of a message worth putting in a model's context
+ */
+function toResourceMessage(message: SlackMessage) {
+  return {
+    ts: message.ts,
+    user: message.user,
+    text: message.text,
+    ...(message.thread_ts && { thread_ts: message.thread_ts }),
+    ...(message.reply_count && { reply_count: message.reply_count }),
+    ...(message.reactions?.length && {
+      reactions: message.reactions.map((r) => ({ name: r.name, count: r.count })),
+    }),
+    ...(message.files?.length && {
+      files: message.files.map((f) => ({ id: f.id, name: f.name, uri: `slack://file/${f.id}` })),
+    }),
+  };
+}
+
+export const SLACK_RESOURCE_TEMPLATES: SlackResourceTemplate[] = [
+  {
+    uriTemplate: 'slack://channel/{id}/history',
+    name: 'Channel history',
+    description: `Channel details and its latest ${HISTORY_LIMIT} messages, newest first`,
+    mimeType: 'application/json',
+    pattern: /^slack:\/\/channel\/(?<id>[A-Z0-9]+)\/history$/,
+    async read(client, { id }) {
+      const { channel } = unwrap(await client.getConversationInfo(id));
+      const messages = await collect(
+        client.iterateHistory(id, { maxItems: HISTORY_LIMIT, pageSize: HISTORY_LIMIT })
+      );
+      return {
+        channel: {
+          id,
+          name: channel?.name,
+          is_private: channel?.is_private,
+          is_archived: channel?.is_archived,
+          topic: channel?.topic?.value,
+          purpose: channel?.purpose?.value,
+          num_members: channel?.num_members,
+        },
+        messages: messages.map(toResourceMessage),
+      };
+    },
+  },
+  {
+    uriTemplate: 'slack://thread/{channel}/{ts}',
+    name: 'Thread',
+    description: 'A thread: the parent message followed by every reply',
+    mimeType: 'application/json',
+    pattern: /^slack:\/\/thread\/(?<channel>[A-Z0-9]+)\/(?<ts>\d+\.\d+)$/,
+    async read(client, { channel, ts }) {
+      const messages = await collect(
+        client.iterateReplies(channel, ts, { maxItems: THREAD_LIMIT })
+      );
+      return {
+        channel,
+        thread_ts: ts,
+        reply_count: Math.max(messages.length - 1, 0),
+        messages: messages.map(toResourceMessage),
+      };
+    },
+  },
+  {
+    uriTemplate: 'slack://user/{id}',
+    name: 'User',
+    description: 'A user account with their profile',
+    mimeType: 'application/json',
+    pattern: /^slack:\/\/user\/(?<id>[UW][A-Z0-9]+)$/,
+    async read(client, { id }) {
+      const { user } = unwrap(await client.getUserInfo(id));
+      return user;
+    },
+  },
+  {
+    uriTemplate: 'slack://file/{id}',
+    name: 'File',
+    description: 'File metadata: name, type, size, owner and where it was shared',
+    mimeType: 'application/json',
+    pattern: /^slack:\/\/file\/(?<id>F[A-Z0-9]+)$/,
+    async read(client, { id }) {
+      const { file } = unwrap(await client.getFileInfo(id));
+      return file;
+    },
+  },
+];
+
+/**
+ * Find the template a concrete URI belongs to, with its variables
+ */
+export function matchResourceUri(
+  uri: string,
+  templates: SlackResourceTemplate[] = SLACK_RESOURCE_TEMPLATES
+): { template: SlackResourceTemplate; params: Record<string, string> } | null {
+  for (const template of templates) {
+    const match = template.pattern.exec(uri);
+    if (match) {
+      return { template, params: { ...match.groups } };
+    }
+  }
+  return null;
+}
+
+/**
+ * Message links copied from Slack resolve to the thread they belong to
+ */
+export const PERMALINK_TEMPLATE = {
+  uriTemplate: 'https://{workspace}.slack.com/archives/{channel}/p{message}',
+  name: 'Message permalink',
+  description: 'A Slack message link, read as the thread containing the message',
+  mimeType: 'application/json',
+};
+
+const PERMALINK_PATTERN =
+  /^https:\/\/(?<domain>[a-z0-9-]+)\.slack\.com\/archives\/(?<channel>[A-Z0-9]+)\/p(?<seconds>\d{10})(?<micros>\d{6})(?:\?(?<query>.*))?$/;
+
+/**
+ * Translate a message permalink to its slack://thread URI, or null if the URI
+ * is not a permalink
+ */
+export function resolvePermalink(uri: string): string | null {
+  const match = PERMALINK_PATTERN.exec(uri);
+  if (!match?.groups) {
+    return null;
+  }
+
+  const { channel, seconds, micros, query } = match.groups;
+  const threadTs = new URLSearchParams(query || '').get('thread_ts');
+  return `slack://thread/${channel}/${threadTs || `${seconds}.${micros}`}`;
+}
+
+/**
+ * The team domain of the workspace a message permalink points into, or null
+ * if the URI is not a permalink
+ */
+export function permalinkDomain(uri: string): string | null {
+  return PERMALINK_PATTERN.exec(uri)?.groups?.domain ?? null;
+}
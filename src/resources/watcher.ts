@@ -0,0 +1,321 @@
+/**
+ * Resource Watcher
+ * Polls watched threads and channels and reports when new messages arrive
+ */
+
+import { SlackClientProvider } from '../slack/client-provider.js';
+import { collect } from '../slack/pagination.js';
+import type { SlackMessage } from '../slack/types.js';
+import {
+  InputValidationError,
+  RateLimitExceededError,
+  SessionExpiredError,
+} from '../errors/index.js';
+import { ResourcePolicy } from '../security/index.js';
+import { config, SubscriptionConfig } from '../utils/config.js';
+import { logger } from '../utils/logger.js';
+import { matchResourceUri, resolvePermalink } from './slack-resources.js';
+
+/**
+ * Who asked for a watch: an MCP server session (resources/subscribe) or a
+ * string naming a tool-created watch
+ */
+export type WatchOwner = object | string;
+
+export type WatchTarget =
+  | { kind: 'thread'; channel: string; threadTs: string }
+  | { kind: 'channel'; channel: string };
+
+export interface ResourceUpdate {
+  uri: string;
+  owners: WatchOwner[];
+  newMessages: number;
+  latestTs: string;
+}
+
+export type ResourceUpdateListener = (update: ResourceUpdate) => void;
+
+/**
+ * A watch as reported to callers
+ */
+export interface WatchInfo {
+  uri: string;
+  kind: WatchTarget['kind'];
+  channel: string;
+  thread_ts?: string;
+  latest_ts: string;
+  watchers: number;
+  expires_at: string;
+}
+
+interface Watch {
+  uri: string;
+  target: WatchTarget;
+  latestTs: string;
+  owners: Map<WatchOwner, number>; // Owner -> expiry (epoch ms)
+}
+
+/**
+ * Most new messages fetched per watch per poll
+ */
+const POLL_LIMIT = 200;
+
+/**
+ * Watches threads and channel histories for new messages.
+ *
+ * Every watch is checked once per poll interval with conversations.replies or
+ * conversations.history, sequentially, so the cost is one Tier 3 call per
+ * watched resource per interval. Watches expire unless renewed; a resource is
+ * polled while at least one owner's watch is live.
+ */
+export class ResourceWatcher {
+  private static instance: ResourceWatcher | null = null;
+
+  private watches: Map<string, Watch> = new Map();
+  private listeners: ResourceUpdateListener[] = [];
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private polling: Promise<ResourceUpdate[]> | null = null;
+
+  constructor(
+    private clientProvider: SlackClientProvider = SlackClientProvider.getInstance(),
+    private options: SubscriptionConfig = config.getSubscriptionConfig(),
+    private policy: ResourcePolicy = new ResourcePolicy()
+  ) {}
+
+  /**
+   * Get the shared watcher
+   */
+  static getInstance(): ResourceWatcher {
+    if (!ResourceWatcher.instance) {
+      ResourceWatcher.instance = new ResourceWatcher();
+    }
+    return ResourceWatcher.instance;
+  }
+
+  /**
+   * What a resource URI watches, or null for resources that cannot change
+   * in a way polling would notice (users, files)
+   */
+  static parseTarget(uri: string): WatchTarget | null {
+    const match = matchResourceUri(resolvePermalink(uri) || uri);
+    if (!match) {
+      return null;
+    }
+
+    const { template, params } = match;
+    if (template.uriTemplate === 'slack://thread/{channel}/{ts}') {
+      return { kind: 'thread', channel: params.channel, threadTs: params.ts };
+    }
+    if (template.uriTemplate === 'slack://channel/{id}/history') {
+      return { kind: 'channel', channel: params.id };
+    }
+    return null;
+  }
+
+  /**
+   * Watch a resource for an owner, or renew the owner's existing watch.
+   * Only messages posted after the first watch are reported. Channels the
+   * policy denies cannot be watched.
+   */
+  async watch(
+    uri: string,
+    owner: WatchOwner,
+    ttlMs: number = this.options.ttlMs
+  ): Promise<WatchInfo> {
+    const target = ResourceWatcher.parseTarget(uri);
+    if (!target) {
+      throw new InputValidationError('uri', `${uri} is not a thread or channel history resource`);
+    }
+    await this.policy.check('resources/subscribe', { channel: target.channel });
+
+    let watch = this.watches.get(uri);
+    if (!watch) {
+      watch = { uri, target, latestTs: (Date.now() / 1000).toFixed(6), owners: new Map() };
+      this.watches.set(uri, watch);
+      logger.info('Watching resource', { uri });
+    }
+
+    watch.owners.set(owner, Date.now() + ttlMs);
+    return this.describe(watch);
+  }
+
+  /**
+   * Stop an owner's watch on a resource
+   */
+  unwatch(uri: string, owner: WatchOwner): void {
+    const watch = this.watches.get(uri);
+    if (watch?.owners.delete(owner) && watch.owners.size === 0) {
+      this.watches.delete(uri);
+      logger.info('Stopped watching resource', { uri });
+    }
+  }
+
+  /**
+   * Stop every watch an owner holds (e.g. when a client disconnects)
+   */
+  unwatchAll(owner: WatchOwner): void {
+    for (const uri of Array.from(this.watches.keys())) {
+      this.unwatch(uri, owner);
+    }
+  }
+
+  /**
+   * Current watches
+   */
+  list(): WatchInfo[] {
+    return Array.from(this.watches.values()).map((watch) => this.describe(watch));
+  }
+
+  /**
+   * Subscribe to new-message updates; returns an unsubscribe function
+   */
+  onUpdate(listener: ResourceUpdateListener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter((l) => l !== listener);
+    };
+  }
+
+  /**
+   * Poll watched resources on an interval
+   */
+  start(intervalMs: number = this.options.pollIntervalMs): void {
+    this.stop();
+
+    this.timer = setInterval(() => {
+      this.poll().catch((error) => {
+        logger.warn('Resource watch poll failed', {
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      });
+    }, intervalMs);
+    this.timer.unref();
+
+    logger.info('Resource watcher started', { intervalMs });
+  }
+
+  /**
+   * Stop polling (watches are kept)
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Check every live watch once (concurrent callers share one run)
+   */
+  poll(): Promise<ResourceUpdate[]> {
+    if (!this.polling) {
+      this.polling = this.runPoll().finally(() => {
+        this.polling = null;
+      });
+    }
+    return this.polling;
+  }
+
+  private async runPoll(): Promise<ResourceUpdate[]> {
+    this.expireWatches();
+
+    const updates: ResourceUpdate[] = [];
+    for (const watch of Array.from(this.watches.values())) {
+      try {
+        const messages = await this.fetchNewMessages(watch);
+        if (messages.length === 0) {
+          continue;
+        }
+
+        watch.latestTs = messages.reduce(
+          (latest, m) => (parseFloat(m.ts) > parseFloat(latest) ? m.ts : latest),
+          watch.latestTs
+        );
+
+        const update: ResourceUpdate = {
+          uri: watch.uri,
+          owners: Array.from(watch.owners.keys()),
+          newMessages: messages.length,
+          latestTs: watch.latestTs,
+        };
+        updates.push(update);
+        this.emit(update);
+      } catch (error) {
+        // Session and rate limit errors apply to every watch; try again next interval
+        if (error instanceof SessionExpiredError || error instanceof RateLimitExceededError) {
+          logger.warn('Resource watch poll stopped', { uri: watch.uri, error: error.message });
+          break;
+        }
+
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        if (/_not_found\b/.test(message)) {
+          logger.warn('Watched resource no longer exists', { uri: watch.uri });
+          this.watches.delete(watch.uri);
+          continue;
+        }
+        logger.warn('Could not check watched resource', { uri: watch.uri, error: message });
+      }
+    }
+
+    return updates;
+  }
+
+  /**
+   * Messages posted since the last poll (thread parents are never counted)
+   */
+  private async fetchNewMessages(watch: Watch): Promise<SlackMessage[]> {
+    const client = this.clientProvider.getClient();
+    const range = { oldest: watch.latestTs, inclusive: false, maxItems: POLL_LIMIT };
+    const { target } = watch;
+
+    const messages =
+      target.kind === 'thread'
+        ? await collect(client.iterateReplies(target.channel, target.threadTs, range))
+        : await collect(client.iterateHistory(target.channel, range));
+
+    const since = parseFloat(watch.latestTs);
+    return messages.filter(
+      (m) => parseFloat(m.ts) > since && !(target.kind === 'thread' && m.ts === target.threadTs)
+    );
+  }
+
+  private expireWatches(): void {
+    const now = Date.now();
+    for (const watch of Array.from(this.watches.values())) {
+      for (const [owner, expiresAt] of watch.owners) {
+        if (expiresAt <= now) {
+          watch.owners.delete(owner);
+        }
+      }
+      if (watch.owners.size === 0) {
+        this.watches.delete(watch.uri);
+        logger.info('Resource watch expired', { uri: watch.uri });
+      }
+    }
+  }
+
+  private emit(update: ResourceUpdate): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(update);
+      } catch (error) {
+        logger.warn('Resource update listener failed', {
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+  }
+
+  private describe(watch: Watch): WatchInfo {
+    const { target } = watch;
+    return {
+      uri: watch.uri,
+      kind: target.kind,
+      channel: target.channel,
+      ...(target.kind === 'thread' && { thread_ts: target.threadTs }),
+      latest_ts: watch.latestTs,
+      watchers: watch.owners.size,
+      expires_at: new Date(Math.max(...watch.owners.values())).toISOString(),
+    };
+  }
+}
@@ -0,0 +1,436 @@
+/**
+ * Audit Log
+ * Append-only JSONL record of every tool call that writes to Slack
+ */
+
+import {
+  appendFileSync,
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  renameSync,
+  statSync,
+  unlinkSync,
+} from 'node:fs';
+import { dirname, extname, join } from 'node:path';
+import {
+  InputValidationError,
+  MCPError,
+  OperationCancelledError,
+  SecurityViolationError,
+  ToolTimeoutError,
+} from '../errors/index.js';
+import { SessionMonitor } from '../slack/session-monitor.js';
+import { WorkspaceRegistry } from '../slack/workspaces.js';
+import type { ToolContext, ToolExecutionResult, ToolMiddleware } from '../types/tools.js';
+import { AuditConfig, config } from '../utils/config.js';
+import { logger } from '../utils/logger.js';
+import { CREDENTIALS_DIR } from './credential-store.js';
+import { SecurityUtils } from './validation.js';
+
+export const DEFAULT_AUDIT_FILE = join(CREDENTIALS_DIR, 'audit.jsonl');
+
+export type AuditOutcome = 'success' | 'failure' | 'timeout' | 'cancelled' | 'pending' | 'rejected';
+
+/**
+ * One line of the audit log
+ */
+export interface AuditEntry {
+  timestamp: string;
+  trace_id: string;
+  tool: string;
+  outcome: AuditOutcome;
+  via?: string; // approve_action or reject_action, when a held call was decided on
+  action_id?: string; // Pending action, for calls held for approval
+  workspace?: string;
+  team_id?: string;
+  client_id?: string; // Authenticated MCP client (HTTP transport)
+  slack_user?: string; // Slack user ID the session acts as
+  channel?: string;
+  ts?: string;
+  permalink?: string;
+  args: Record<string, unknown>; // Secrets redacted
+  error?: string;
+  error_code?: string;
+}
+
+export interface AuditQuery {
+  since?: Date;
+  until?: Date;
+  tool?: string;
+  channel?: string; // Channel ID, or the channel argument as given
+  workspace?: string;
+  outcome?: AuditOutcome;
+  contains?: string; // Case-insensitive, anywhere in the arguments
+  limit?: number;
+}
+
+export const AUDIT_OUTCOMES: AuditOutcome[] = [
+  'success',
+  'failure',
+  'timeout',
+  'cancelled',
+  'pending',
+  'rejected',
+];
+
+const CHANNEL_ID_PATTERN = /^[CGD][A-Z0-9]{2,}$/;
+
+/**
+ * Argument names whose values are never written to the log
+ */
+const SENSITIVE_KEYS = /token|password|secret|key|auth|cookie/i;
+
+/**
+ * Relative times accepted by queries, e.g. "7d" or "12h"
+ */
+const RELATIVE_TIME = /^(\d+)\s*([mhdw])$/i;
+
+const UNIT_MS: Record<string, number> = {
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Parse a query time: an ISO date or a time ago such as "7d", "12h" or "30m"
+ */
+export function parseAuditTime(value: string, field: string): Date {
+  const relative = value.trim().match(RELATIVE_TIME);
+  const date = relative
+    ? new Date(Date.now() - parseInt(relative[1], 10) * UNIT_MS[relative[2].toLowerCase()])
+    : new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new InputValidationError(field, `"${value}" is not a date or a time ago such as 7d`);
+  }
+  return date;
+}
+
+/**
+ * Replace secrets in arguments: values of sensitive-looking keys, and tokens
+ * that SecurityUtils recognizes anywhere in a string
+ */
+export function redactArgs(value: unknown): any {
+  if (typeof value === 'string') {
+    return SecurityUtils.redactSensitiveInfo(value);
+  }
+  if (Array.isArray(value)) {
+    return value.map(redactArgs);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        SENSITIVE_KEYS.test(key) ? '[REDACTED]' : redactArgs(item),
+      ])
+    );
+  }
+  return value;
+}
+
+/**
+ * The audit log file and its rotated predecessors (audit.1.jsonl is the most
+ * recent). Entries are appended synchronously, so they are on disk before the
+ * tool result is returned. Files are rotated by size and never rewritten.
+ */
+export class AuditLog {
+  private static instance: AuditLog | null = null;
+
+  readonly file: string;
+
+  constructor(private options: AuditConfig = config.getAuditConfig()) {
+    this.file = options.file || DEFAULT_AUDIT_FILE;
+  }
+
+  /**
+   * Get the shared audit log
+   */
+  static getInstance(): AuditLog {
+    if (!AuditLog.instance) {
+      AuditLog.instance = new AuditLog();
+    }
+    return AuditLog.instance;
+  }
+
+  get enabled(): boolean {
+    return this.options.enabled;
+  }
+
+  record(entry: AuditEntry): void {
+    if (!this.enabled) {
+      return;
+    }
+
+    const line = JSON.stringify(entry) + '\n';
+    mkdirSync(dirname(this.file), { recursive: true, mode: 0o700 });
+    this.rotateIfFull(Buffer.byteLength(line));
+    appendFileSync(this.file, line, { mode: 0o600 });
+  }
+
+  /**
+   * Matching entries, newest first
+   */
+  query(query: AuditQuery = {}): { entries: AuditEntry[]; total: number } {
+    const matches: AuditEntry[] = [];
+    for (const file of this.files()) {
+      for (const line of readFileSync(file, 'utf8').split('\n')) {
+        if (!line.trim()) {
+          continue;
+        }
+        try {
+          const entry = JSON.parse(line) as AuditEntry;
+          if (this.matches(entry, query)) {
+            matches.push(entry);
+          }
+        } catch {
+          // A line cut short by a crash; the rest of the file is still readable
+        }
+      }
+    }
+
+    matches.reverse();
+    return { entries: matches.slice(0, query.limit ?? 50), total: matches.length };
+  }
+
+  private matches(entry: AuditEntry, query: AuditQuery): boolean {
+    const time = Date.parse(entry.timestamp);
+    return (
+      (!query.since || time >= query.since.getTime()) &&
+      (!query.until || time < query.until.getTime()) &&
+      (!query.tool || entry.tool === query.tool || entry.via === query.tool) &&
+      (!query.channel || entry.channel === query.channel || entry.args.channel === query.channel) &&
+      (!query.workspace || entry.workspace === query.workspace) &&
+      (!query.outcome || entry.outcome === query.outcome) &&
+      (!query.contains ||
+        JSON.stringify(entry.args).toLowerCase().includes(query.contains.toLowerCase()))
+    );
+  }
+
+  /**
+   * Existing log files, oldest first
+   */
+  private files(): string[] {
+    const rotated = Array.from({ length: this.options.maxFiles }, (_, i) =>
+      this.rotatedFile(this.options.maxFiles - i)
+    );
+    return [...rotated, this.file].filter((file) => existsSync(file));
+  }
+
+  private rotatedFile(index: number): string {
+    const extension = extname(this.file);
+    return `${this.file.slice(0, this.file.length - extension.length)}.${index}${extension}`;
+  }
+
+  /**
+   * Start a new file when the next line would take the current one past the
+   * size limit. The oldest rotated file is dropped once there are maxFiles.
+   */
+  private rotateIfFull(incomingBytes: number): void {
+    let size: number;
+    try {
+      size = statSync(this.file).size;
+    } catch {
+      return;
+    }
+    if (size === 0 || size + incomingBytes <= this.options.maxBytes) {
+      return;
+    }
+
+    const oldest = this.rotatedFile(this.options.maxFiles);
+    if (existsSync(oldest)) {
+      unlinkSync(oldest);
+    }
+    for (let index = this.options.maxFiles - 1; index >= 1; index--) {
+      if (existsSync(this.rotatedFile(index))) {
+        renameSync(this.rotatedFile(index), this.rotatedFile(index + 1));
+      }
+    }
+    renameSync(this.file, this.rotatedFile(1));
+
+    logger.info('Audit log rotated', { file: this.file, maxFiles: this.options.maxFiles });
+  }
+}
+
+/**
+ * Most held calls remembered so that approving one logs its arguments
+ */
+const MAX_HELD_CALLS = 1000;
+
+/**
+ * Records every call to a tool that is not a GET tool, after it ran: what it
+ * was asked to do, what it did (channel, ts and permalink), who asked, and
+ * the outcome. Calls held for approval are logged when held and again when
+ * approved or rejected. Calls that throw, time out or are cancelled are logged
+ * as such, since a write may have reached Slack before the call stopped.
+ * Calls blocked before running (read-only mode, policy) and dry runs changed
+ * nothing and are not logged.
+ */
+export class AuditMiddleware implements ToolMiddleware {
+  name = 'AuditMiddleware';
+  priority = 200; // First to see the arguments, before other middleware changes them
+
+  private args: WeakMap<ToolContext, Record<string, unknown>> = new WeakMap();
+  private heldCalls: Map<string, { tool: string; args: Record<string, unknown> }> = new Map();
+
+  constructor(private log: AuditLog = AuditLog.getInstance()) {}
+
+  async before(context: ToolContext, args: any): Promise<void> {
+    if (context.action !== 'GET' && !context.dryRun) {
+      this.args.set(context, redactArgs(args || {}));
+    }
+  }
+
+  async after(context: ToolContext, result: ToolExecutionResult): Promise<void> {
+    const args = this.args.get(context);
+    this.args.delete(context);
+    if (args) {
+      this.write(context, () => this.createEntry(context, args, result));
+    }
+  }
+
+  async onError(context: ToolContext, error: Error): Promise<void> {
+    const args = this.args.get(context);
+    this.args.delete(context);
+    if (!args || error instanceof SecurityViolationError) {
+      return;
+    }
+
+    const outcome: AuditOutcome =
+      error instanceof ToolTimeoutError
+        ? 'timeout'
+        : error instanceof OperationCancelledError
+          ? 'cancelled'
+          : 'failure';
+    const result: ToolExecutionResult = {
+      success: false,
+      error: error.message,
+      errorCode: error instanceof MCPError ? error.code : 'EXECUTION_ERROR',
+    };
+    this.write(context, () => this.createEntry(context, args, result, outcome));
+  }
+
+  private write(context: ToolContext, createEntry: () => AuditEntry): void {
+    try {
+      this.log.record(createEntry());
+    } catch (error) {
+      logger.error('Failed to write audit log entry', {
+        file: this.log.file,
+        toolName: context.toolName,
+        traceId: context.traceId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  /**
+   * The entry for a call; `failure` is the outcome of an unsuccessful one
+   */
+  private createEntry(
+    context: ToolContext,
+    args: Record<string, unknown>,
+    result: ToolExecutionResult,
+    failure: AuditOutcome = 'failure'
+  ): AuditEntry {
+    const data = result.data && typeof result.data === 'object' ? result.data : {};
+    let tool = context.toolName;
+    let outcome: AuditOutcome = result.success ? 'success' : failure;
+    let via: string | undefined;
+    let actionId: string | undefined;
+
+    // Decisions on held calls are logged as the held call, with its arguments
+    if (context.toolName === 'approve_action' || context.toolName === 'reject_action') {
+      actionId = typeof args.action_id === 'string' ? args.action_id : undefined;
+      const held = actionId ? this.heldCalls.get(actionId) : undefined;
+      if (actionId) {
+        this.heldCalls.delete(actionId);
+      }
+      tool = data.tool || held?.tool || context.toolName;
+      via = context.toolName;
+      args = held?.args || args;
+      if (via === 'reject_action' && result.success) {
+        outcome = 'rejected';
+      }
+    } else if (data.status === 'pending') {
+      outcome = 'pending';
+      actionId = data.action_id;
+      this.holdCall(data.action_id, tool, args);
+    } else if (result.errorCode === 'ACTION_REJECTED') {
+      outcome = 'rejected';
+    }
+
+    // What the call changed; the approve_action result wraps the held call's result
+    const changed = via === 'approve_action' ? data.result || {} : data;
+    const workspace = changed.workspace || context.workspace;
+    const channel = changed.channel || args.channel || args.channel_id;
+    const ts = changed.ts || args.ts;
+    const permalink =
+      outcome === 'success' && tool !== 'delete_message'
+        ? this.getPermalink(workspace, channel, ts, changed.thread_ts || args.thread_ts)
+        : undefined;
+
+    return {
+      timestamp: new Date().toISOString(),
+      trace_id: context.traceId,
+      tool,
+      outcome,
+      via,
+      action_id: actionId,
+      workspace,
+      team_id: changed.team_id || data.team_id,
+      client_id: context.userId,
+      slack_user: workspace
+        ? SessionMonitor.getInstance().getStatus(workspace).user?.id
+        : undefined,
+      channel,
+      ts,
+      permalink,
+      args,
+      ...(!result.success && {
+        error: result.error || result.content?.[0]?.text,
+        error_code: result.errorCode,
+      }),
+    };
+  }
+
+  private holdCall(actionId: string, tool: string, args: Record<string, unknown>): void {
+    this.heldCalls.set(actionId, { tool, args });
+    if (this.heldCalls.size > MAX_HELD_CALLS) {
+      this.heldCalls.delete(this.heldCalls.keys().next().value!);
+    }
+  }
+
+  /**
+   * The message's link, built from the workspace's team domain rather than
+   * asked of Slack, so writing the entry makes no API call
+   */
+  private getPermalink(
+    workspace?: string,
+    channel?: unknown,
+    ts?: unknown,
+    threadTs?: unknown
+  ): string | undefined {
+    if (
+      typeof channel !== 'string' ||
+      !CHANNEL_ID_PATTERN.test(channel) ||
+      typeof ts !== 'string'
+    ) {
+      return undefined;
+    }
+
+    let domain: string | undefined;
+    try {
+      domain = WorkspaceRegistry.getInstance().resolve(workspace)?.tokens.teamDomain;
+    } catch {
+      return undefined;
+    }
+    if (!domain) {
+      return undefined;
+    }
+
+    const link = `https://${domain}.slack.com/archives/${channel}/p${ts.replace('.', '')}`;
+    return typeof threadTs === 'string' && threadTs !== ts
+      ? `${link}?thread_ts=${threadTs}&cid=${channel}`
+      : link;
+  }
+}
@@ -0,0 +1,270 @@
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from 'node:crypto';
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'node:fs';
+import { homedir } from 'node:os';
+import { dirname, join, resolve, sep } from 'node:path';
+import type { SlackTokens } from '../slack/auth.js';
+import type { WorkspaceFile } from '../slack/workspaces.js';
+import { CredentialStoreError } from '../errors/index.js';
+import { config, CredentialConfig } from '../utils/config.js';
+import { logger } from '../utils/logger.js';
+
+export const CREDENTIALS_DIR = join(homedir(), '.slack-browser-mcp');
+export const DEFAULT_STORE_FILE = join(CREDENTIALS_DIR, 'credentials.enc');
+/**
+ * Key file that earlier versions generated next to the store. It is still
+ * read, with a warning, so existing stores keep opening.
+ */
+export const LEGACY_KEY_FILE = join(CREDENTIALS_DIR, 'key');
+
+/**
+ * On-disk format. Only the ciphertext holds secrets; a fresh salt and IV are
+ * generated on every write.
+ */
+interface EncryptedStoreFile {
+  version: 1;
+  kdf: { name: 'scrypt'; salt: string; N: number; r: number; p: number };
+  cipher: 'aes-256-gcm';
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+const SCRYPT_PARAMS = { N: 32768, r: 8, p: 1 };
+const SCRYPT_MAXMEM = 64 * 1024 * 1024;
+
+/**
+ * Encrypted Slack credential store
+ *
+ * Holds the same { default, workspaces } document as the workspace file,
+ * encrypted with AES-256-GCM under a scrypt-derived key. The key material is
+ * SLACK_MCP_PASSPHRASE or the contents of a key file (SLACK_MCP_KEY_FILE).
+ * A key file in the store's own directory protects nothing against anyone
+ * who can read the store, so one is never created there and using one is
+ * warned about.
+ */
+export class CredentialStore {
+  readonly path: string;
+  private keyMaterial: string | null;
+  private keySource: string | null;
+
+  constructor(options: CredentialConfig = config.getCredentialConfig()) {
+    this.path = options.storeFile || DEFAULT_STORE_FILE;
+
+    const keyFile = options.keyFile || (existsSync(LEGACY_KEY_FILE) ? LEGACY_KEY_FILE : null);
+    if (options.passphrase) {
+      this.keyMaterial = options.passphrase;
+      this.keySource = 'SLACK_MCP_PASSPHRASE';
+    } else if (keyFile) {
+      this.keyMaterial = CredentialStore.readKeyFile(keyFile);
+      this.keySource = keyFile;
+    } else {
+      this.keyMaterial = null;
+      this.keySource = null;
+    }
+
+    if (this.isKeyBesideStore()) {
+      logger.warn(
+        'Credential store key file is in the same directory as the store: anyone who can read ' +
+          'the store can decrypt it. Move the key file elsewhere and set SLACK_MCP_KEY_FILE, ' +
+          'or use SLACK_MCP_PASSPHRASE.',
+        { keyFile: this.keySource, store: this.path }
+      );
+    }
+  }
+
+  /**
+   * Create a random key file readable only by the owner and use it as the key.
+   * The file must be outside the store's directory.
+   */
+  createKeyFile(path: string): void {
+    if (this.hasKey()) {
+      throw new CredentialStoreError(`a key is already configured (${this.keySource})`);
+    }
+    if (this.isBesideStore(path)) {
+      throw new CredentialStoreError(
+        `${path} is inside ${dirname(resolve(this.path))}, next to the store it protects; choose a path outside it`
+      );
+    }
+    if (this.exists()) {
+      throw new CredentialStoreError(
+        `${this.path} exists but no key is configured: set SLACK_MCP_PASSPHRASE or SLACK_MCP_KEY_FILE`
+      );
+    }
+
+    mkdirSync(dirname(path), { recursive: true, mode: 0o700 });
+    writeFileSync(path, randomBytes(32).toString('base64') + '\n', { mode: 0o600, flag: 'wx' });
+    this.keyMaterial = CredentialStore.readKeyFile(path);
+    this.keySource = path;
+
+    logger.info('Generated credential store key file', { path });
+  }
+
+  /**
+   * Whether the store file exists
+   */
+  exists(): boolean {
+    return existsSync(this.path);
+  }
+
+  /**
+   * Whether a passphrase or key file is available
+   */
+  hasKey(): boolean {
+    return this.keyMaterial !== null;
+  }
+
+  /**
+   * Whether the key is a file in the store's own directory
+   */
+  isKeyBesideStore(): boolean {
+    return (
+      !!this.keySource &&
+      this.keySource !== 'SLACK_MCP_PASSPHRASE' &&
+      this.isBesideStore(this.keySource)
+    );
+  }
+
+  /**
+   * Where the key comes from (env var name or key file path)
+   */
+  getKeySource(): string | null {
+    return this.keySource;
+  }
+
+  /**
+   * Decrypt and return the stored workspaces (empty when the store doesn't exist)
+   */
+  load(): WorkspaceFile {
+    if (!this.exists()) {
+      return { workspaces: {} };
+    }
+
+    const file = this.readStoreFile();
+    const key = this.deriveKey(Buffer.from(file.kdf.salt, 'base64'), file.kdf);
+
+    let plaintext: string;
+    try {
+      const decipher = createDecipheriv('aes-256-gcm', key, Buffer.from(file.iv, 'base64'));
+      decipher.setAuthTag(Buffer.from(file.tag, 'base64'));
+      plaintext = Buffer.concat([
+        decipher.update(Buffer.from(file.data, 'base64')),
+        decipher.final(),
+      ]).toString('utf8');
+    } catch {
+      throw new CredentialStoreError(
+        `cannot decrypt ${this.path}: wrong passphrase or key file, or the file was modified`
+      );
+    }
+
+    const data = JSON.parse(plaintext) as WorkspaceFile;
+    return { default: data.default, workspaces: data.workspaces || {} };
+  }
+
+  /**
+   * Encrypt and write the store atomically with owner-only permissions
+   */
+  save(data: WorkspaceFile): void {
+    const salt = randomBytes(16);
+    const iv = randomBytes(12);
+    const key = this.deriveKey(salt, SCRYPT_PARAMS);
+
+    const cipher = createCipheriv('aes-256-gcm', key, iv);
+    const ciphertext = Buffer.concat([cipher.update(JSON.stringify(data), 'utf8'), cipher.final()]);
+
+    const file: EncryptedStoreFile = {
+      version: 1,
+      kdf: { name: 'scrypt', salt: salt.toString('base64'), ...SCRYPT_PARAMS },
+      cipher: 'aes-256-gcm',
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      data: ciphertext.toString('base64'),
+    };
+
+    mkdirSync(dirname(this.path), { recursive: true, mode: 0o700 });
+    const tmpPath = `${this.path}.${process.pid}.tmp`;
+    writeFileSync(tmpPath, JSON.stringify(file, null, 2) + '\n', { mode: 0o600 });
+    renameSync(tmpPath, this.path);
+  }
+
+  /**
+   * Add or replace a workspace
+   */
+  upsert(name: string, tokens: SlackTokens, options: { makeDefault?: boolean } = {}): void {
+    const data = this.load();
+    data.workspaces[name] = withoutUndefined(tokens);
+    if (options.makeDefault || !data.default) {
+      data.default = name;
+    }
+    this.save(data);
+
+    logger.info('Saved workspace to credential store', { workspace: name, path: this.path });
+  }
+
+  /**
+   * Remove a workspace, returning false if it wasn't stored
+   */
+  remove(name: string): boolean {
+    const data = this.load();
+    if (!data.workspaces[name]) {
+      return false;
+    }
+
+    delete data.workspaces[name];
+    if (data.default === name) {
+      data.default = Object.keys(data.workspaces)[0];
+    }
+    this.save(data);
+
+    logger.info('Removed workspace from credential store', { workspace: name, path: this.path });
+    return true;
+  }
+
+  private deriveKey(salt: Buffer, params: { N: number; r: number; p: number }): Buffer {
+    if (this.keyMaterial === null) {
+      throw new CredentialStoreError(
+        'no key configured: set SLACK_MCP_PASSPHRASE or SLACK_MCP_KEY_FILE'
+      );
+    }
+    return scryptSync(this.keyMaterial, salt, 32, { ...params, maxmem: SCRYPT_MAXMEM });
+  }
+
+  private readStoreFile(): EncryptedStoreFile {
+    let file: EncryptedStoreFile;
+    try {
+      file = JSON.parse(readFileSync(this.path, 'utf8'));
+    } catch (error) {
+      throw new CredentialStoreError(
+        `cannot read ${this.path}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+
+    if (file.version !== 1 || file.kdf?.name !== 'scrypt' || file.cipher !== 'aes-256-gcm') {
+      throw new CredentialStoreError(`unsupported store format in ${this.path}`);
+    }
+    return file;
+  }
+
+  private isBesideStore(path: string): boolean {
+    return resolve(path).startsWith(dirname(resolve(this.path)) + sep);
+  }
+
+  private static readKeyFile(path: string): string {
+    try {
+      const key = readFileSync(path, 'utf8').trim();
+      if (!key) {
+        throw new Error('file is empty');
+      }
+      return key;
+    } catch (error) {
+      throw new CredentialStoreError(
+        `cannot read key file ${path}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+}
+
+function withoutUndefined(tokens: SlackTokens): SlackTokens {
+  return Object.fromEntries(
+    Object.entries(tokens).filter(([, value]) => value !== undefined)
+  ) as unknown as SlackTokens;
+}
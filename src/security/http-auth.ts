@@ -0,0 +1,240 @@
+import { createHmac, timingSafeEqual } from 'node:crypto';
+import { IncomingMessage } from 'node:http';
+import { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import {
+  AuthenticationError,
+  ConfigurationError,
+  SecurityViolationError,
+} from '../errors/index.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * HTTP endpoint authentication settings
+ */
+export interface HttpAuthConfig {
+  apiKeys: Record<string, string>; // clientId -> static bearer key
+  hmacSecret?: string; // Secret for signed client tokens
+  allowedOrigins: string[]; // Browser Origin allowlist (empty = loopback origins only)
+  allowedHosts: string[]; // Host header allowlist (empty = loopback names on a loopback bind)
+  allowedIps: string[]; // Remote address allowlist, exact IPs or IPv4 CIDR (empty = any)
+}
+
+/**
+ * Identity of the client behind an HTTP request
+ */
+export interface ClientIdentity {
+  clientId: string;
+  method: 'bearer' | 'hmac' | 'anonymous';
+  expiresAt?: number; // Seconds since epoch (signed tokens only)
+}
+
+const TOKEN_VERSION = 'v1';
+// No dots: they separate the parts of a signed token
+const CLIENT_ID_PATTERN = /^[A-Za-z0-9_@-]{1,64}$/;
+
+const LOOPBACK_HOSTS = ['127.0.0.1', '::1', 'localhost'];
+
+/**
+ * The host name of a Host header or URL authority, without port or IPv6 brackets
+ */
+function hostName(authority: string): string {
+  const host = authority.startsWith('[')
+    ? authority.slice(1, authority.indexOf(']'))
+    : authority.split(':')[0];
+  return host.toLowerCase();
+}
+
+function isLoopback(host: string): boolean {
+  return LOOPBACK_HOSTS.includes(host);
+}
+
+/**
+ * Authenticates requests to the network transport
+ *
+ * Accepts either a static key ("Authorization: Bearer <key>") or an HMAC-signed
+ * client token "v1.<clientId>.<expiresAt>.<hex sha256 signature>", where the
+ * signature covers "v1.<clientId>.<expiresAt>". IP, Host and Origin
+ * allowlists are checked before credentials. Without allowlists, a server
+ * bound to loopback only answers loopback Host names, and browsers only from
+ * loopback origins, so a rebound DNS name cannot reach it.
+ */
+export class HttpAuthenticator {
+  private keys: Array<{ clientId: string; key: Buffer }>;
+
+  constructor(
+    private config: HttpAuthConfig,
+    private bindHost: string = '127.0.0.1'
+  ) {
+    this.keys = Object.entries(config.apiKeys).map(([clientId, key]) => ({
+      clientId,
+      key: Buffer.from(key),
+    }));
+  }
+
+  /**
+   * Whether requests must carry credentials
+   */
+  isCredentialRequired(): boolean {
+    return this.keys.length > 0 || !!this.config.hmacSecret;
+  }
+
+  /**
+   * Authenticate a request, throwing AuthenticationError or SecurityViolationError
+   */
+  authenticate(req: IncomingMessage): ClientIdentity {
+    const remoteAddress = normalizeAddress(req.socket.remoteAddress || '');
+
+    if (this.config.allowedIps.length > 0 && !this.isIpAllowed(remoteAddress)) {
+      throw new SecurityViolationError(`address ${remoteAddress} is not allowed`);
+    }
+
+    const host = req.headers.host;
+    if (!this.isHostAllowed(host)) {
+      throw new SecurityViolationError(`host ${host ?? '(none)'} is not allowed`);
+    }
+
+    const origin = req.headers.origin;
+    if (origin !== undefined && !this.isOriginAllowed(origin)) {
+      throw new SecurityViolationError(`origin ${origin} is not allowed`);
+    }
+
+    if (!this.isCredentialRequired()) {
+      return { clientId: `anonymous@${remoteAddress}`, method: 'anonymous' };
+    }
+
+    const header = req.headers.authorization;
+    const match = header ? /^Bearer\s+(.+)$/i.exec(header) : null;
+    if (!match) {
+      throw new AuthenticationError('missing bearer token');
+    }
+
+    const token = match[1].trim();
+    return this.verifyStaticKey(token) || this.verifySignedToken(token);
+  }
+
+  /**
+   * Convert an identity to the SDK's AuthInfo (surfaced to handlers as extra.authInfo)
+   */
+  static toAuthInfo(identity: ClientIdentity, token = ''): AuthInfo {
+    return {
+      token,
+      clientId: identity.clientId,
+      scopes: [],
+      expiresAt: identity.expiresAt,
+      extra: { method: identity.method },
+    };
+  }
+
+  private verifyStaticKey(token: string): ClientIdentity | null {
+    const candidate = Buffer.from(token);
+    for (const { clientId, key } of this.keys) {
+      if (key.length === candidate.length && timingSafeEqual(key, candidate)) {
+        return { clientId, method: 'bearer' };
+      }
+    }
+    return null;
+  }
+
+  private verifySignedToken(token: string): ClientIdentity {
+    if (!this.config.hmacSecret) {
+      throw new AuthenticationError('invalid bearer token');
+    }
+
+    const parts = token.split('.');
+    const signature = parts.pop() || '';
+    const [version, clientId, expiresAtRaw] = parts;
+    if (parts.length !== 3 || version !== TOKEN_VERSION || !CLIENT_ID_PATTERN.test(clientId)) {
+      throw new AuthenticationError('malformed client token');
+    }
+
+    const expected = createHmac('sha256', this.config.hmacSecret).update(parts.join('.')).digest();
+    const actual = Buffer.from(signature, 'hex');
+    if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+      throw new AuthenticationError('invalid token signature');
+    }
+
+    const expiresAt = parseInt(expiresAtRaw, 10);
+    if (!Number.isFinite(expiresAt) || expiresAt * 1000 <= Date.now()) {
+      throw new AuthenticationError('client token expired');
+    }
+
+    return { clientId, method: 'hmac', expiresAt };
+  }
+
+  private isHostAllowed(host: string | undefined): boolean {
+    if (this.config.allowedHosts.length > 0) {
+      return !!host && this.config.allowedHosts.includes(hostName(host));
+    }
+    // Only a loopback bind can be reached through a rebound name; other binds require credentials
+    return !isLoopback(this.bindHost) || (!!host && isLoopback(hostName(host)));
+  }
+
+  private isOriginAllowed(origin: string): boolean {
+    if (this.config.allowedOrigins.length > 0) {
+      return this.config.allowedOrigins.includes(origin);
+    }
+    try {
+      return isLoopback(hostName(new URL(origin).host));
+    } catch {
+      return false; // "null" and other opaque origins
+    }
+  }
+
+  private isIpAllowed(address: string): boolean {
+    return this.config.allowedIps.some((entry) => {
+      if (!entry.includes('/')) {
+        return normalizeAddress(entry) === address;
+      }
+      return matchesIpv4Cidr(address, entry);
+    });
+  }
+}
+
+/**
+ * Create an authenticator, refusing to expose an unauthenticated endpoint
+ * beyond loopback
+ */
+export function createHttpAuthenticator(config: HttpAuthConfig, host: string): HttpAuthenticator {
+  const authenticator = new HttpAuthenticator(config, host);
+
+  if (!authenticator.isCredentialRequired() && !isLoopback(host)) {
+    throw new ConfigurationError(
+      'MCP_HTTP_HOST',
+      `${host} is not a loopback address; set MCP_HTTP_API_KEYS or MCP_HTTP_HMAC_SECRET to serve it`
+    );
+  }
+
+  logger.info('HTTP authentication configured', {
+    staticKeys: Object.keys(config.apiKeys).length,
+    signedTokens: !!config.hmacSecret,
+    allowedOrigins: config.allowedOrigins.length,
+    allowedHosts: config.allowedHosts.length,
+    allowedIps: config.allowedIps.length,
+  });
+
+  return authenticator;
+}
+
+function normalizeAddress(address: string): string {
+  return address.startsWith('::ffff:') ? address.slice(7) : address;
+}
+
+function ipv4ToInt(address: string): number | null {
+  const octets = address.split('.').map((part) => Number(part));
+  if (octets.length !== 4 || octets.some((n) => !Number.isInteger(n) || n < 0 || n > 255)) {
+    return null;
+  }
+  return ((octets[0] << 24) | (octets[1] << 16) | (octets[2] << 8) | octets[3]) >>> 0;
+}
+
+function matchesIpv4Cidr(address: string, cidr: string): boolean {
+  const [range, bitsRaw] = cidr.split('/');
+  const bits = parseInt(bitsRaw, 10);
+  const ip = ipv4ToInt(address);
+  const base = ipv4ToInt(range);
+  if (ip === null || base === null || !Number.isInteger(bits) || bits < 0 || bits > 32) {
+    return false;
+  }
+  const mask = bits === 0 ? 0 : (~0 << (32 - bits)) >>> 0;
+  return (ip & mask) === (base & mask);
+}
@@ -1,5 +1,11 @@
 // Export all security utilities
 export { InputValidator, RateLimiter, SecurityUtils } from './validation.js';
+export { HttpAuthenticator, createHttpAuthenticator } from './http-auth.js';
+export type { HttpAuthConfig, ClientIdentity } from './http-auth.js';
+export { PolicyEngine, PolicyMiddleware, ResourcePolicy } from './policy.js';
+export type { PolicyAccess, PolicyDecision, PolicySubject, PolicyTarget } from './policy.js';
+export { AuditLog, AuditMiddleware } from './audit-log.js';
+export type { AuditEntry, AuditOutcome, AuditQuery } from './audit-log.js';
 
 // Export security middleware
 import { ToolMiddleware, ToolContext, ToolExecutionResult } from '../types/tools.js';
@@ -53,8 +59,10 @@ export class SecurityMiddleware implements ToolMiddleware {
     Object.keys(args).forEach(key => delete args[key]);
     Object.assign(args, sanitizedArgs);
 
-    // 4. Basic rate limiting (per tool)
-    const rateLimitKey = `tool:${context.toolName}`;
+    // 4. Basic rate limiting (per tool, and per client when the caller is known)
+    const rateLimitKey = context.userId
+      ? `client:${context.userId}:tool:${context.toolName}`
+      : `tool:${context.toolName}`;
     const rateLimit = this.rateLimiter.checkRateLimit(rateLimitKey, 60, 60000); // 60 requests per minute
     
     if (!rateLimit.allowed) {
@@ -137,8 +145,9 @@ export class ResourceSecurityMiddleware {
       logger.debug('Resource requires authentication (Phase 2 feature)', { uri });
     }
 
-    // 3. Check for suspicious patterns
-    if (uri.includes('..') || uri.includes('//')) {
+    // 3. Check for suspicious patterns (the scheme's own "//" is expected)
+    const path = uri.slice('slack://'.length);
+    if (path.includes('..') || path.includes('//')) {
       throw new Error('Resource URI contains suspicious patterns');
     }
 
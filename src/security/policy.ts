@@ -0,0 +1,491 @@
+/**
+ * Policy Engine
+ * Allow/deny rules for the channels, users and tools the assistant may read or write
+ */
+
+import { SecurityViolationError } from '../errors/index.js';
+import { DirectorySnapshot, SlackDirectory } from '../slack/directory.js';
+import type { ToolContext, ToolExecutionResult, ToolMiddleware } from '../types/tools.js';
+import { config } from '../utils/config.js';
+import type { ChannelType, PolicyConfig, PolicyRule } from '../utils/config.js';
+import { logger } from '../utils/logger.js';
+
+export type PolicyAccess = 'read' | 'write';
+
+export interface PolicyChannel {
+  id?: string;
+  name?: string;
+  type?: ChannelType;
+}
+
+export interface PolicyUser {
+  id?: string;
+  name?: string;
+}
+
+/**
+ * What a tool call, or one item in its result, touches
+ */
+export interface PolicySubject {
+  tool: string;
+  access: PolicyAccess;
+  channel?: PolicyChannel;
+  users: PolicyUser[];
+}
+
+export interface PolicyDecision {
+  allowed: boolean;
+  rule: string; // The matching rule, or "default"
+}
+
+/**
+ * Where read tools keep their result items, and what each item touches
+ */
+const RESULT_ITEMS: Record<
+  string,
+  { key: string; countKey?: string; describe(item: any): { channels: string[]; users: string[] } }
+> = {
+  search_messages: {
+    key: 'messages',
+    describe: (message) => ({ channels: [message.channel], users: [message.user] }),
+  },
+  search_files: {
+    key: 'files',
+    describe: (file) => ({
+      channels: [...(file.channels || []), ...(file.groups || []), ...(file.ims || [])],
+      users: [file.user],
+    }),
+  },
+  get_thread_replies: {
+    key: 'messages',
+    describe: (message) => ({ channels: [], users: [message.user] }),
+  },
+  list_workspace_channels: {
+    key: 'channels',
+    countKey: 'channel_count',
+    describe: (channel) => ({ channels: [channel.id], users: [] }),
+  },
+  list_workspace_users: {
+    key: 'users',
+    countKey: 'user_count',
+    describe: (user) => ({ channels: [], users: [user.id] }),
+  },
+  query_audit_log: {
+    key: 'entries',
+    describe: (entry) => ({ channels: entry.channel ? [entry.channel] : [], users: [] }),
+  },
+};
+
+const CHANNEL_ID_PATTERN = /^[CGD][A-Z0-9]{2,}$/;
+const USER_ID_PATTERN = /^[UW][A-Z0-9]{2,}$/;
+
+function normalizeName(name: string): string {
+  return name.trim().replace(/^[#@]/, '').toLowerCase();
+}
+
+/**
+ * Whether a channel or user reference is an ID rather than a name
+ */
+function isId(reference: string): boolean {
+  const value = reference.trim().replace(/^[#@]/, '');
+  return CHANNEL_ID_PATTERN.test(value) || USER_ID_PATTERN.test(value);
+}
+
+/**
+ * A channel reference as the policy sees it, resolved through the directory when loaded
+ */
+function describeChannel(reference: string, snapshot?: DirectorySnapshot): PolicyChannel {
+  const value = reference.trim().replace(/^#/, '');
+  const name = value.toLowerCase();
+  const channel = snapshot?.channels.find(
+    (candidate) => candidate.id === value || candidate.name.toLowerCase() === name
+  );
+  if (channel) {
+    return {
+      id: channel.id,
+      name: channel.name,
+      type: channel.is_mpim ? 'mpim' : channel.is_private ? 'private' : 'public',
+    };
+  }
+
+  if (!CHANNEL_ID_PATTERN.test(value)) {
+    return { name: value };
+  }
+  // Without the directory only the ID prefix tells: D is a DM, G a private channel or group DM
+  return {
+    id: value,
+    type: value.startsWith('D') ? 'im' : value.startsWith('G') ? 'private' : undefined,
+  };
+}
+
+/**
+ * A user reference as the policy sees it, resolved through the directory when loaded
+ */
+function describeUser(reference: string, snapshot?: DirectorySnapshot): PolicyUser {
+  const value = reference.trim().replace(/^@/, '');
+  const name = value.toLowerCase();
+  const user = snapshot?.users.find(
+    (candidate) =>
+      candidate.id === value ||
+      candidate.name.toLowerCase() === name ||
+      candidate.display_name?.toLowerCase() === name
+  );
+  if (user) {
+    return { id: user.id, name: user.name };
+  }
+  return USER_ID_PATTERN.test(value) ? { id: value } : { name: value };
+}
+
+/**
+ * What a blocked subject tried to do, e.g. "read access with get_thread_replies in #hr"
+ */
+function describeViolation(subject: PolicySubject): string {
+  const channel = subject.channel?.name ? `#${subject.channel.name}` : subject.channel?.id;
+  const users = subject.users.map((user) => (user.name ? `@${user.name}` : user.id));
+  const target =
+    (channel ? ` in ${channel}` : '') + (users.length > 0 ? ` involving ${users.join(', ')}` : '');
+  return `${subject.access} access with ${subject.tool}${target} is not allowed`;
+}
+
+/**
+ * Evaluates rules in order; the first rule that matches decides
+ */
+export class PolicyEngine {
+  constructor(private config: PolicyConfig) {}
+
+  /**
+   * Whether the policy can ever block anything
+   */
+  get enabled(): boolean {
+    return this.config.rules.length > 0 || this.config.default === 'deny';
+  }
+
+  /**
+   * Whether rules refer to channels or users by name or channel type, or a
+   * call refers to them by name while rules look at channels or users. Either
+   * takes the workspace directory to resolve.
+   */
+  needsDirectory(references: string[] = []): boolean {
+    return (
+      this.config.rules.some(
+        (rule) =>
+          !!rule.channelTypes ||
+          !!rule.channels?.some((channel) => !CHANNEL_ID_PATTERN.test(channel)) ||
+          !!rule.users?.some((user) => !USER_ID_PATTERN.test(user))
+      ) ||
+      (this.config.rules.some((rule) => !!rule.channels || !!rule.users) &&
+        references.some((reference) => !isId(reference)))
+    );
+  }
+
+  evaluate(subject: PolicySubject): PolicyDecision {
+    const rule = this.config.rules.find((candidate) => this.matches(candidate, subject));
+    if (rule) {
+      return { allowed: rule.effect === 'allow', rule: rule.name };
+    }
+    return { allowed: this.config.default === 'allow', rule: 'default' };
+  }
+
+  private matches(rule: PolicyRule, subject: PolicySubject): boolean {
+    if (rule.access && rule.access !== subject.access) {
+      return false;
+    }
+    if (rule.tools && !rule.tools.includes(subject.tool)) {
+      return false;
+    }
+
+    const channel = subject.channel;
+    if (rule.channels && !(channel && rule.channels.some((ref) => this.isChannel(ref, channel)))) {
+      return false;
+    }
+    if (rule.channelTypes && !(channel?.type && rule.channelTypes.includes(channel.type))) {
+      return false;
+    }
+
+    if (
+      rule.users &&
+      !subject.users.some((user) => rule.users!.some((ref) => this.isUser(ref, user)))
+    ) {
+      return false;
+    }
+    return true;
+  }
+
+  private isChannel(reference: string, channel: PolicyChannel): boolean {
+    if (CHANNEL_ID_PATTERN.test(reference)) {
+      return reference === channel.id;
+    }
+    return !!channel.name && normalizeName(reference) === normalizeName(channel.name);
+  }
+
+  private isUser(reference: string, user: PolicyUser): boolean {
+    if (USER_ID_PATTERN.test(reference)) {
+      return reference === user.id;
+    }
+    return !!user.name && normalizeName(reference) === normalizeName(user.name);
+  }
+}
+
+/**
+ * Checks every tool call against the policy before it runs, and drops the
+ * items of read results (search matches, thread replies, channel and user
+ * lists) that the policy does not allow.
+ *
+ * If names or channel types are needed and the directory cannot be loaded,
+ * calls are blocked rather than let through unchecked.
+ */
+export class PolicyMiddleware implements ToolMiddleware {
+  name = 'PolicyMiddleware';
+  priority = 150; // After input validation, before logging
+
+  private subjects: WeakMap<ToolContext, PolicySubject> = new WeakMap();
+
+  constructor(
+    private engine: PolicyEngine,
+    private directory: SlackDirectory = SlackDirectory.getInstance()
+  ) {}
+
+  async before(context: ToolContext, args: any): Promise<void> {
+    const channelArg = args?.channel ?? args?.channel_id;
+    const users = [args?.user_id, args?.user].filter(
+      (value): value is string => typeof value === 'string'
+    );
+    const references = [...users, ...(typeof channelArg === 'string' ? [channelArg] : [])];
+    const snapshot = await this.loadDirectory(context, references);
+
+    const subject: PolicySubject = {
+      tool: context.toolName,
+      access: context.action === 'GET' ? 'read' : 'write',
+      users: users.map((user) => describeUser(user, snapshot)),
+    };
+
+    if (typeof channelArg === 'string' && channelArg.trim()) {
+      // A user ID as channel means the user's DM
+      if (USER_ID_PATTERN.test(channelArg.trim())) {
+        subject.channel = { id: channelArg.trim(), type: 'im' };
+        subject.users.push(describeUser(channelArg.trim(), snapshot));
+      } else {
+        subject.channel = describeChannel(channelArg, snapshot);
+      }
+    }
+
+    // A name the directory does not know cannot be matched against rules that use IDs
+    if (snapshot) {
+      const unresolved = [
+        ...(subject.channel && !subject.channel.id ? [`#${subject.channel.name}`] : []),
+        ...subject.users.filter((user) => !user.id).map((user) => `@${user.name}`),
+      ];
+      if (unresolved.length > 0) {
+        throw new SecurityViolationError(
+          `${unresolved.join(', ')} could not be found in the workspace directory`,
+          context.traceId,
+          {}
+        );
+      }
+    }
+
+    this.enforce(subject, context);
+    this.subjects.set(context, subject);
+  }
+
+  async after(context: ToolContext, result: ToolExecutionResult): Promise<void> {
+    const items = RESULT_ITEMS[context.toolName];
+    const list = result.data?.[items?.key];
+    const call = this.subjects.get(context);
+    if (!items || !call || !result.success || !Array.isArray(list)) {
+      return;
+    }
+
+    const snapshot = await this.loadDirectory(context);
+    const kept = list.filter((item) => this.isItemAllowed(items.describe(item), call, snapshot));
+    if (kept.length === list.length) {
+      return;
+    }
+
+    result.data[items.key] = kept;
+    if (items.countKey) {
+      result.data[items.countKey] = kept.length;
+    }
+
+    logger.info('Policy removed result items', {
+      toolName: context.toolName,
+      traceId: context.traceId,
+      removed: list.length - kept.length,
+      kept: kept.length,
+    });
+  }
+
+  /**
+   * An item is dropped if any of its channels, or its author, is denied.
+   * Items without a channel of their own belong to the call's channel.
+   */
+  private isItemAllowed(
+    item: { channels: string[]; users: string[] },
+    call: PolicySubject,
+    snapshot?: DirectorySnapshot
+  ): boolean {
+    const users = item.users
+      .filter((user) => typeof user === 'string' && user)
+      .map((user) => describeUser(user, snapshot));
+    const channels = item.channels
+      .filter((channel) => typeof channel === 'string' && channel)
+      .map((channel) => describeChannel(channel, snapshot));
+
+    return (channels.length > 0 ? channels : [call.channel]).every(
+      (channel) => this.engine.evaluate({ tool: call.tool, access: 'read', channel, users }).allowed
+    );
+  }
+
+  private enforce(subject: PolicySubject, context: ToolContext): void {
+    const decision = this.engine.evaluate(subject);
+    if (decision.allowed) {
+      return;
+    }
+
+    logger.warn('Tool call blocked by policy', {
+      toolName: context.toolName,
+      traceId: context.traceId,
+      rule: decision.rule,
+      access: subject.access,
+      channel: subject.channel,
+    });
+    throw new SecurityViolationError(describeViolation(subject), context.traceId, {
+      rule: decision.rule,
+    });
+  }
+
+  private async loadDirectory(
+    context: ToolContext,
+    references: string[] = []
+  ): Promise<DirectorySnapshot | undefined> {
+    if (!this.engine.needsDirectory(references)) {
+      return undefined;
+    }
+    try {
+      return await this.directory.get(context.workspace);
+    } catch (error) {
+      throw new SecurityViolationError(
+        `channel and user names could not be looked up (${error instanceof Error ? error.message : 'Unknown error'})`,
+        context.traceId,
+        {}
+      );
+    }
+  }
+}
+
+/**
+ * What a resource or completion value touches: a channel ID and/or a user ID
+ */
+export interface PolicyTarget {
+  channel?: string;
+  user?: string;
+}
+
+/**
+ * Applies the policy outside tool calls: resource listings, reads and
+ * subscriptions, and completion values. Each is checked as read access by the
+ * MCP method (resources/list, resources/read, resources/subscribe,
+ * completion/complete), which rules can name under `tools`.
+ *
+ * As for tools, if names or channel types are needed and the directory cannot
+ * be loaded, access is blocked rather than let through unchecked.
+ */
+export class ResourcePolicy {
+  constructor(
+    private engine: PolicyEngine = new PolicyEngine(config.getPolicyConfig()),
+    private directory: SlackDirectory = SlackDirectory.getInstance()
+  ) {}
+
+  /**
+   * Throw SecurityViolationError, naming the rule, if the policy denies the target.
+   * Writes made outside a tool's own arguments, such as an undo replaying its
+   * inverse, are checked the same way with `access` set to write. Names are
+   * looked up in the given workspace (default workspace when omitted).
+   */
+  async check(
+    method: string,
+    target: PolicyTarget,
+    access: PolicyAccess = 'read',
+    workspace?: string
+  ): Promise<void> {
+    if (!this.engine.enabled) {
+      return;
+    }
+
+    const subject = this.describe(method, target, await this.loadDirectory(workspace), access);
+    const decision = this.engine.evaluate(subject);
+    if (decision.allowed) {
+      return;
+    }
+
+    logger.warn('Resource access blocked by policy', {
+      method,
+      rule: decision.rule,
+      channel: subject.channel,
+    });
+    throw new SecurityViolationError(describeViolation(subject), undefined, {
+      rule: decision.rule,
+    });
+  }
+
+  /**
+   * The items whose targets the policy allows, with names looked up in the given workspace
+   */
+  async filter<T>(
+    method: string,
+    items: T[],
+    target: (item: T) => PolicyTarget,
+    workspace?: string
+  ): Promise<T[]> {
+    if (!this.engine.enabled) {
+      return items;
+    }
+    return this.filterWith(method, items, target, await this.loadDirectory(workspace));
+  }
+
+  /**
+   * The same, with a directory snapshot the caller already has
+   */
+  filterWith<T>(
+    method: string,
+    items: T[],
+    target: (item: T) => PolicyTarget,
+    snapshot?: DirectorySnapshot
+  ): T[] {
+    if (!this.engine.enabled) {
+      return items;
+    }
+    return items.filter(
+      (item) => this.engine.evaluate(this.describe(method, target(item), snapshot)).allowed
+    );
+  }
+
+  private describe(
+    method: string,
+    target: PolicyTarget,
+    snapshot?: DirectorySnapshot,
+    access: PolicyAccess = 'read'
+  ): PolicySubject {
+    return {
+      tool: method,
+      access,
+      channel: target.channel ? describeChannel(target.channel, snapshot) : undefined,
+      users: target.user ? [describeUser(target.user, snapshot)] : [],
+    };
+  }
+
+  private async loadDirectory(workspace?: string): Promise<DirectorySnapshot | undefined> {
+    if (!this.engine.needsDirectory()) {
+      return undefined;
+    }
+    try {
+      return await this.directory.get(workspace);
+    } catch (error) {
+      throw new SecurityViolationError(
+        `channel and user names could not be looked up (${error instanceof Error ? error.message : 'Unknown error'})`,
+        undefined,
+        {}
+      );
+    }
+  }
+}
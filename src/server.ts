@@ -2,68 +2,217 @@ import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import {
   CallToolRequestSchema,
+  CompleteRequestSchema,
+  ElicitResultSchema,
   ErrorCode,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
   ListToolsRequestSchema,
   ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  SetLevelRequestSchema,
+  LoggingLevel,
   McpError,
   Tool,
 } from '@modelcontextprotocol/sdk/types.js';
 import { logger } from './utils/logger.js';
+import { config, TransportConfig } from './utils/config.js';
 import { ToolRegistry } from './tools/index.js';
-// ResourceRegistry removed - tool-only architecture
-import { createDevelopmentMiddleware } from './middleware/index.js';
+import { ResourceRegistry, ResourceUpdate, ResourceWatcher } from './resources/index.js';
+import { PromptRegistry } from './prompts/index.js';
+import { CompletionProvider } from './completion/index.js';
+import { createMiddleware } from './middleware/index.js';
+import { HttpTransport } from './transport/http.js';
+import { createHttpAuthenticator } from './security/http-auth.js';
+import { PolicyEngine, PolicyMiddleware } from './security/policy.js';
+import { AuditLog, AuditMiddleware } from './security/audit-log.js';
+import { WorkspaceRegistry } from './slack/workspaces.js';
+import { SessionMonitor, SessionStatus } from './slack/session-monitor.js';
+import { SlackClientProvider } from './slack/client-provider.js';
+import {
+  InputValidationError,
+  MCPError,
+  ResourceAccessDeniedError,
+  ResourceNotFoundError,
+  SecurityViolationError,
+} from './errors/index.js';
+
+/**
+ * MCP logging levels in increasing severity
+ */
+const LOGGING_LEVELS: LoggingLevel[] = [
+  'debug', 'info', 'notice', 'warning', 'error', 'critical', 'alert', 'emergency'
+];
+
+/**
+ * JSON-RPC error code the MCP spec assigns to unknown resources
+ */
+const RESOURCE_NOT_FOUND = -32002;
+
+/**
+ * Elicitation form shown when a held call asks its user for approval
+ */
+const APPROVAL_SCHEMA = {
+  type: 'object' as const,
+  properties: {
+    approve: {
+      type: 'boolean' as const,
+      title: 'Approve',
+      description: 'Carry out this action as you in Slack',
+      default: true,
+    },
+  },
+};
+
+export interface SlackMCPServerOptions {
+  transport?: Partial<Omit<TransportConfig, 'http'>> & { http?: Partial<TransportConfig['http']> };
+  readOnly?: boolean; // Read-only in every workspace, whatever the configuration says
+}
 
 export class SlackMCPServer {
   private server: Server;
   private toolRegistry: ToolRegistry;
+  private resourceRegistry: ResourceRegistry;
+  private promptRegistry: PromptRegistry;
+  private completionProvider: CompletionProvider;
+  private transportConfig: TransportConfig;
+  private httpTransport: HttpTransport | null = null;
+  private connectedServers: Set<Server> = new Set();
+  private logLevels: WeakMap<Server, LoggingLevel> = new WeakMap();
+  private unsubscribeSession: (() => void) | null = null;
+  private unsubscribeResources: (() => void) | null = null;
 
-  constructor() {
-    this.server = new Server(
+  constructor(options: SlackMCPServerOptions = {}) {
+    const defaults = config.getTransportConfig();
+    this.transportConfig = {
+      type: options.transport?.type || defaults.type,
+      http: { ...defaults.http, ...options.transport?.http },
+    };
+
+    // Initialize registries with the profile's middleware stack
+    const middleware = createMiddleware(config.getProfileConfig().middleware);
+    this.toolRegistry = new ToolRegistry({
+      middleware,
+      enableMetrics: true,
+      enableTracing: true,
+      ...(options.readOnly && { readOnly: { all: true, workspaces: [] } })
+    });
+
+    // The policy and the audit log apply whichever middleware stack the profile picked
+    const policy = new PolicyEngine(config.getPolicyConfig());
+    if (policy.enabled) {
+      this.toolRegistry.registerMiddleware(new PolicyMiddleware(policy));
+    }
+    if (AuditLog.getInstance().enabled) {
+      this.toolRegistry.registerMiddleware(new AuditMiddleware());
+    }
+
+    this.resourceRegistry = new ResourceRegistry();
+    this.promptRegistry = new PromptRegistry();
+    this.completionProvider = new CompletionProvider(this.promptRegistry);
+    this.server = this.createServer();
+  }
+
+  /**
+   * Create an MCP server instance wired to the shared tool registry.
+   * stdio uses a single instance; the HTTP transport creates one per session.
+   */
+  private createServer(): Server {
+    const server = new Server(
       {
         name: 'slack-browser-mcp-server',
         version: '1.0.0',
       },
       {
         capabilities: {
-          tools: {}
-          // resources removed - tool-only architecture
+          tools: {},
+          resources: { subscribe: true },
+          prompts: {},
+          completions: {},
+          logging: {}
         },
       }
     );
 
-    // Initialize registries with middleware
-    const middleware = createDevelopmentMiddleware();
-    this.toolRegistry = new ToolRegistry({
-      middleware,
-      enableMetrics: true,
-      enableTracing: true
-    });
-    
-    // ResourceRegistry removed - tool-only architecture
-    this.setupHandlers();
+    this.setupHandlers(server);
+
+    server.oninitialized = () => this.connectedServers.add(server);
+    server.onclose = () => {
+      this.connectedServers.delete(server);
+      ResourceWatcher.getInstance().unwatchAll(server);
+    };
+
+    return server;
   }
 
-  private setupHandlers(): void {
+  private setupHandlers(server: Server): void {
     // Tools handlers
-    this.server.setRequestHandler(ListToolsRequestSchema, async () => {
+    server.setRequestHandler(ListToolsRequestSchema, async () => {
       logger.info('Received list tools request');
       const tools = this.toolRegistry.getTools();
       logger.debug('Returning tools', { count: tools.length, tools: tools.map(t => t.name) });
       return { tools };
     });
 
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
       const { name, arguments: args } = request.params;
-      logger.info(`Received tool call request: ${name}`, { args });
+      const userId = extra.authInfo?.clientId;
+      const progressToken = request.params._meta?.progressToken;
+      logger.info(`Received tool call request: ${name}`, { args, userId });
+
+      // Report progress only when the client asked for it with a progressToken
+      const onProgress =
+        progressToken === undefined
+          ? undefined
+          : (progress: number, total?: number, message?: string) => {
+              extra
+                .sendNotification({
+                  method: 'notifications/progress',
+                  params: { progressToken, progress, total, message },
+                })
+                .catch((error) =>
+                  logger.debug('Failed to send progress notification', {
+                    tool: name,
+                    error: error instanceof Error ? error.message : 'Unknown error',
+                  })
+                );
+            };
+
+      // Calls held for approval ask the user directly when the client supports elicitation
+      const confirm = server.getClientCapabilities()?.elicitation
+        ? async (message: string, signal?: AbortSignal) => {
+            const answer = await extra.sendRequest(
+              {
+                method: 'elicitation/create',
+                params: { message, requestedSchema: APPROVAL_SCHEMA },
+              },
+              ElicitResultSchema,
+              { signal }
+            );
+            if (answer.action === 'accept') {
+              return answer.content?.approve !== false;
+            }
+            return answer.action === 'decline' ? false : undefined;
+          }
+        : undefined;
 
       try {
-        const result = await this.toolRegistry.executeTool(name, args || {});
+        const result = await this.toolRegistry.executeTool(name, args || {}, {
+          userId,
+          signal: extra.signal,
+          onProgress,
+          confirm,
+        });
         return {
           content: result.content || [{
             type: 'text',
             text: result.success ? JSON.stringify(result.data, null, 2) : (result.error || 'Unknown error')
           }],
+          ...(result.structuredContent && { structuredContent: result.structuredContent }),
+          ...(result._meta && { _meta: result._meta }),
           isError: result.isError || !result.success,
         };
       } catch (error) {
@@ -75,28 +224,161 @@ export class SlackMCPServer {
       }
     });
 
-    // No resource handlers - tool-only architecture
-    logger.info('MCP server handlers configured (tool-only architecture)');
+    // Logging handler - clients choose the minimum level of notifications they receive
+    server.setRequestHandler(SetLevelRequestSchema, async (request) => {
+      this.logLevels.set(server, request.params.level);
+      logger.debug('Client log level set', { level: request.params.level });
+      return {};
+    });
+
+    // Resource handlers - read-only Slack context addressed by slack:// URIs
+    server.setRequestHandler(ListResourcesRequestSchema, async () => {
+      logger.info('Received list resources request');
+      return { resources: await this.resourceRegistry.listResources() };
+    });
+
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+      return { resourceTemplates: this.resourceRegistry.listTemplates() };
+    });
+
+    server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+      const { uri } = request.params;
+      logger.info('Received read resource request', { uri });
+
+      try {
+        return { contents: [await this.resourceRegistry.readResource(uri)] };
+      } catch (error) {
+        logger.error(`Resource read failed: ${uri}`, { error });
+        if (error instanceof ResourceNotFoundError) {
+          throw new McpError(RESOURCE_NOT_FOUND, error.getUserMessage(), { uri });
+        }
+        if (error instanceof ResourceAccessDeniedError) {
+          throw new McpError(ErrorCode.InvalidParams, error.message, { uri });
+        }
+        if (error instanceof SecurityViolationError) {
+          throw new McpError(ErrorCode.InvalidParams, error.getUserMessage(), {
+            uri,
+            rule: error.context?.rule,
+          });
+        }
+        throw new McpError(
+          ErrorCode.InternalError,
+          error instanceof MCPError ? error.getUserMessage() : 'Resource read failed'
+        );
+      }
+    });
+
+    // Subscriptions - the watcher polls subscribed threads and channels for new messages
+    server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+      const { uri } = request.params;
+      try {
+        const watch = await ResourceWatcher.getInstance().watch(uri, server);
+        logger.info('Client subscribed to resource', { uri, expiresAt: watch.expires_at });
+        return {};
+      } catch (error) {
+        if (error instanceof InputValidationError) {
+          throw new McpError(ErrorCode.InvalidParams, error.getUserMessage(), { uri });
+        }
+        if (error instanceof SecurityViolationError) {
+          throw new McpError(ErrorCode.InvalidParams, error.getUserMessage(), {
+            uri,
+            rule: error.context?.rule,
+          });
+        }
+        throw error;
+      }
+    });
+
+    server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      ResourceWatcher.getInstance().unwatch(request.params.uri, server);
+      return {};
+    });
+
+    // Prompt handlers - the README workflows as parameterized instructions
+    server.setRequestHandler(ListPromptsRequestSchema, async () => {
+      return { prompts: this.promptRegistry.listPrompts() };
+    });
+
+    server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+      const { name, arguments: args } = request.params;
+      logger.info(`Received get prompt request: ${name}`);
+
+      try {
+        return this.promptRegistry.getPrompt(name, args);
+      } catch (error) {
+        if (error instanceof InputValidationError) {
+          throw new McpError(ErrorCode.InvalidParams, error.getUserMessage(), { name });
+        }
+        throw error;
+      }
+    });
+
+    // Completion handler - channel, user and emoji suggestions for prompt and template arguments
+    server.setRequestHandler(CompleteRequestSchema, async (request) => {
+      const { ref, argument } = request.params;
+
+      try {
+        return { completion: await this.completionProvider.complete(ref, argument) };
+      } catch (error) {
+        if (error instanceof InputValidationError) {
+          throw new McpError(ErrorCode.InvalidParams, error.getUserMessage(), { ref });
+        }
+        throw error;
+      }
+    });
+
+    logger.debug('MCP server handlers configured');
   }
 
   async run(): Promise<void> {
+    // Load workspaces up front so configuration errors surface at startup
+    WorkspaceRegistry.getInstance().load();
+
     // Initialize tool registry
     logger.info('Initializing tool registry...');
     await this.toolRegistry.initialize();
-    
+
+    // Validate each workspace session once; tools share the resulting clients
+    await SlackClientProvider.getInstance().validate();
+
+    // Keep watching session health and tell connected clients when it changes
+    const sessionMonitor = SessionMonitor.getInstance();
+    this.unsubscribeSession = sessionMonitor.onStateChange((status) =>
+      this.notifySessionChange(status)
+    );
+    sessionMonitor.start();
+
+    // Tell subscribed clients when watched threads and channels get new messages
+    const resourceWatcher = ResourceWatcher.getInstance();
+    this.unsubscribeResources = resourceWatcher.onUpdate((update) =>
+      this.notifyResourceUpdate(update)
+    );
+    resourceWatcher.start();
+
     // Connect to transport
-    const transport = new StdioServerTransport();
-    logger.info('Starting Slack MCP Server with stdio transport');
-    
-    await this.server.connect(transport);
+    if (this.transportConfig.type === 'http') {
+      const { auth, ...httpOptions } = this.transportConfig.http;
+      this.httpTransport = new HttpTransport(() => this.createServer(), {
+        ...httpOptions,
+        authenticator: createHttpAuthenticator(auth, httpOptions.host),
+      });
+      logger.info('Starting Slack MCP Server with HTTP transport');
+      await this.httpTransport.start();
+    } else {
+      const transport = new StdioServerTransport();
+      logger.info('Starting Slack MCP Server with stdio transport');
+      await this.server.connect(transport);
+    }
     logger.info('Slack MCP Server connected and ready');
-    
+
     // Log initialization stats
     const stats = this.toolRegistry.getStats();
     logger.info('Server initialization completed', {
       tools: stats.instances,
+      resourceTemplates: this.resourceRegistry.listTemplates().length,
+      prompts: this.promptRegistry.listPrompts().length,
       middleware: stats.middlewareCount,
-      architecture: 'tool-only'
+      transport: this.transportConfig.type
     });
 
     // Keep the server running indefinitely
@@ -107,8 +389,62 @@ export class SlackMCPServer {
     });
   }
 
+  /**
+   * Send a session state change to every connected client as an MCP log notification
+   */
+  private notifySessionChange(status: SessionStatus): void {
+    const level: LoggingLevel =
+      status.state === 'expired' ? 'error' : status.state === 'unreachable' ? 'warning' : 'info';
+
+    for (const server of this.connectedServers) {
+      const minimum = this.logLevels.get(server) || 'info';
+      if (LOGGING_LEVELS.indexOf(level) < LOGGING_LEVELS.indexOf(minimum)) {
+        continue;
+      }
+
+      server
+        .sendLoggingMessage({ level, logger: 'slack-session', data: status })
+        .catch((error) => {
+          logger.debug('Failed to send session notification', {
+            error: error instanceof Error ? error.message : 'Unknown error'
+          });
+        });
+    }
+  }
+
+  /**
+   * Send notifications/resources/updated to the clients watching a resource.
+   * Watches created by tools rather than resources/subscribe go to every client.
+   */
+  private notifyResourceUpdate(update: ResourceUpdate): void {
+    const targets = update.owners.some((owner) => typeof owner === 'string')
+      ? Array.from(this.connectedServers)
+      : update.owners.filter((owner): owner is Server => this.connectedServers.has(owner as Server));
+
+    for (const server of targets) {
+      server.sendResourceUpdated({ uri: update.uri }).catch((error) => {
+        logger.debug('Failed to send resource update', {
+          uri: update.uri,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      });
+    }
+  }
+
   async stop(): Promise<void> {
     logger.info('Stopping Slack MCP Server');
-    await this.server.close();
+    SessionMonitor.getInstance().stop();
+    this.unsubscribeSession?.();
+    this.unsubscribeSession = null;
+    ResourceWatcher.getInstance().stop();
+    this.unsubscribeResources?.();
+    this.unsubscribeResources = null;
+    if (this.httpTransport) {
+      await this.httpTransport.close();
+      this.httpTransport = null;
+    } else {
+      await this.server.close();
+    }
+    await this.toolRegistry.cleanup();
   }
-}
\ No newline at end of file
+}
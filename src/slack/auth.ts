@@ -4,11 +4,18 @@
  */
 
 import { SlackAuthTestResponse } from './types.js';
+import { WorkspaceRegistry } from './workspaces.js';
+import { getSlackFetch } from './http.js';
+import { config } from '../utils/config.js';
+
+const AUTH_TEST_TIMEOUT_MS = 10000;
 
 export interface SlackTokens {
   xoxc: string;
   xoxd: string;
   teamDomain: string;
+  teamId?: string; // Known team ID (required to target a workspace inside an Enterprise Grid org)
+  enterpriseId?: string; // Enterprise Grid org ID
 }
 
 export interface SlackAuthResult {
@@ -18,21 +25,35 @@ export interface SlackAuthResult {
     id: string;
     name: string;
     team: string;
+    teamId: string;
   };
   error?: string;
+  errorCode?: string; // Slack error code when Slack rejected the tokens (absent on network errors)
 }
 
 export class SlackAuth {
   private tokens: SlackTokens | null = null;
 
+  /**
+   * @param workspace Workspace name, team domain or team ID (default workspace when omitted)
+   */
+  constructor(private workspace?: string) {}
+
+  /**
+   * Resolve tokens for the selected workspace from the workspace registry.
+   * Throws WorkspaceNotFoundError for an unknown workspace.
+   */
+  extractTokens(): SlackTokens | null {
+    const entry = WorkspaceRegistry.getInstance().resolve(this.workspace);
+    return entry ? { ...entry.tokens } : null;
+  }
+
   /**
    * Extract tokens from environment variables
-   * In a real browser implementation, this would extract from localStorage and cookies
+   * Browser exports (cookies, HAR, localStorage) are imported with "auth import"
    */
   extractTokensFromEnvironment(): SlackTokens | null {
-    const xoxc = process.env.SLACK_XOXC_TOKEN;
-    const xoxd = process.env.SLACK_XOXD_TOKEN;
-    const teamDomain = process.env.SLACK_TEAM_DOMAIN;
+    const { xoxcToken: xoxc, xoxdToken: xoxd, teamDomain } = config.getSlackConfig();
 
     if (!xoxc || !xoxd || !teamDomain) {
       return null;
@@ -56,7 +77,7 @@ export class SlackAuth {
   async validateTokens(tokens: SlackTokens): Promise<SlackAuthResult> {
     try {
       // Use auth.test API to validate tokens
-      const response = await fetch('https://slack.com/api/auth.test', {
+      const response = await getSlackFetch()(`${config.getSlackApiConfig().url}/auth.test`, {
         method: 'POST',
         headers: {
           Authorization: `Bearer ${tokens.xoxc}`,
@@ -64,6 +85,7 @@ export class SlackAuth {
           Cookie: `d=${tokens.xoxd}`,
           'User-Agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36',
         },
+        signal: AbortSignal.timeout(AUTH_TEST_TIMEOUT_MS),
       });
 
       const data = (await response.json()) as SlackAuthTestResponse;
@@ -72,6 +94,7 @@ export class SlackAuth {
         return {
           success: false,
           error: `Slack API error: ${data.error || 'Unknown error'}`,
+          errorCode: data.error || 'unknown_error',
         };
       }
 
@@ -84,6 +107,7 @@ export class SlackAuth {
           id: data.user_id,
           name: data.user,
           team: data.team,
+          teamId: data.team_id,
         },
       };
     } catch (error) {
@@ -106,13 +130,13 @@ export class SlackAuth {
    * Full authentication flow
    */
   async authenticate(): Promise<SlackAuthResult> {
-    // Extract tokens from environment
-    const tokens = this.extractTokensFromEnvironment();
+    // Resolve tokens for the selected workspace
+    const tokens = this.extractTokens();
 
     if (!tokens) {
       return {
         success: false,
-        error: 'Slack tokens not found in environment variables',
+        error: 'Slack tokens not found: configure SLACK_WORKSPACES_FILE or environment variables',
       };
     }
 
@@ -0,0 +1,120 @@
+/**
+ * Slack Client Provider
+ * Shares one SlackClient per workspace across all tool calls
+ */
+
+import { SlackTokens } from './auth.js';
+import { SlackClient, SlackClientOptions } from './client.js';
+import { SessionMonitor, SessionStatus } from './session-monitor.js';
+import { WorkspaceRegistry } from './workspaces.js';
+import { AuthenticationError } from '../errors/index.js';
+import { logger } from '../utils/logger.js';
+
+interface CachedClient {
+  client: SlackClient;
+  tokens: SlackTokens;
+}
+
+/**
+ * Hands out long-lived SlackClients keyed by workspace.
+ *
+ * Tools get their client from here (via ToolContext) instead of resolving
+ * tokens and calling auth.test themselves. Sessions are validated by the
+ * SessionMonitor at startup and on its interval, not per call. Reusing one
+ * client per workspace keeps requests on fetch's pooled keep-alive
+ * connections and on a single rate limiter.
+ */
+export class SlackClientProvider {
+  private static instance: SlackClientProvider | null = null;
+
+  private clients: Map<string, CachedClient> = new Map();
+
+  constructor(
+    private registry: WorkspaceRegistry = WorkspaceRegistry.getInstance(),
+    private monitor: SessionMonitor = SessionMonitor.getInstance(),
+    private options: SlackClientOptions = {}
+  ) {}
+
+  /**
+   * Get the shared provider
+   */
+  static getInstance(): SlackClientProvider {
+    if (!SlackClientProvider.instance) {
+      SlackClientProvider.instance = new SlackClientProvider();
+    }
+    return SlackClientProvider.instance;
+  }
+
+  /**
+   * Get the client for a workspace (default workspace when omitted).
+   * A new client is built when the registry reloads the workspace's tokens.
+   */
+  getClient(workspace?: string): SlackClient {
+    const entry = this.registry.resolve(workspace);
+    if (!entry) {
+      throw new AuthenticationError(
+        'no Slack workspace configured: run "slack-browser-mcp-server auth import" or set SLACK_XOXC_TOKEN, SLACK_XOXD_TOKEN and SLACK_TEAM_DOMAIN'
+      );
+    }
+
+    this.monitor.assertActive(entry.name);
+
+    const cached = this.clients.get(entry.name);
+    if (cached && cached.tokens === entry.tokens) {
+      return cached.client;
+    }
+
+    const client = new SlackClient(entry.tokens, this.options);
+    this.clients.set(entry.name, { client, tokens: entry.tokens });
+
+    logger.debug('Created Slack client', { workspace: entry.name, replaced: !!cached });
+    return client;
+  }
+
+  /**
+   * Identity of the signed-in user from the last session check
+   */
+  getIdentity(workspace?: string): SessionStatus['user'] {
+    const entry = this.registry.resolve(workspace);
+    return entry ? this.monitor.getStatus(entry.name).user : undefined;
+  }
+
+  /**
+   * Validate every workspace session once, logging the identity of each
+   */
+  async validate(): Promise<SessionStatus[]> {
+    const statuses = await this.monitor.checkAll();
+
+    for (const status of statuses) {
+      if (status.state === 'active') {
+        logger.info('Slack session validated', {
+          workspace: status.workspace,
+          user: status.user?.name,
+          team: status.user?.team,
+        });
+      } else {
+        logger.warn('Slack session is not usable', {
+          workspace: status.workspace,
+          state: status.state,
+          error: status.error,
+        });
+      }
+    }
+
+    return statuses;
+  }
+
+  /**
+   * Drop all cached clients
+   */
+  clear(): void {
+    this.clients.clear();
+  }
+
+  /**
+   * Keep tokens out of logs that serialize a ToolContext
+   */
+  toJSON(): { workspaces: string[] } {
+    return { workspaces: Array.from(this.clients.keys()) };
+  }
+}
@@ -3,6 +3,7 @@
  * Core client for making Slack API calls with stealth mode
  */
 
+import { z } from 'zod';
 import { SlackTokens } from './auth.js';
 import {
   SlackConversationsListResponse,
@@ -13,19 +14,231 @@ import {
   SlackUser,
   SlackMessage,
 } from './types.js';
+import { SlackRateLimiter } from './rate-limiter.js';
+import { SessionMonitor } from './session-monitor.js';
+import { SlackFetch, getSlackFetch } from './http.js';
+import {
+  SlackConversationInfoResponse,
+  SlackConversationInfoResponseSchema,
+  SlackEmojiListResponse,
+  SlackEmojiListResponseSchema,
+  SlackFileInfoResponse,
+  SlackFileInfoResponseSchema,
+  SlackSearchFilesResponse,
+  SlackSearchFilesResponseSchema,
+  SlackSearchInlineResponse,
+  SlackSearchInlineResponseSchema,
+  SlackSearchMessagesResponse,
+  SlackSearchMessagesResponseSchema,
+  SlackSearchModulesResponse,
+  SlackSearchModulesResponseSchema,
+  SlackUserProfileResponse,
+  SlackUserProfileResponseSchema,
+  SlackUserInfoResponse,
+  SlackUserInfoResponseSchema,
+  decodeSlackResponse,
+} from './schemas.js';
+import { Page, PaginationOptions, SearchPage, paginate, paginatePages } from './pagination.js';
+import {
+  MCPError,
+  RateLimitExceededError,
+  SessionExpiredError,
+  SlackHttpError,
+} from '../errors/index.js';
+import { config } from '../utils/config.js';
+import { logger } from '../utils/logger.js';
+import { sleep } from '../utils/sleep.js';
+
+/**
+ * Slack client options
+ */
+export interface SlackClientOptions {
+  maxRetries?: number; // Retries after a rate-limited response (default: 3)
+  maxRetryWaitMs?: number; // Longest Retry-After the client will wait out (default: 60s)
+  baseUrl?: string; // Default: SLACK_API_URL or https://slack.com/api
+  fetch?: SlackFetch; // Default: the shared fetch for SLACK_HTTP_MODE
+}
+
+const DEFAULT_RETRY_AFTER_MS = 5000;
+
+/**
+ * Methods that change something in Slack. A dry run records them instead of sending them.
+ */
+const MUTATING_METHODS = new Set([
+  'chat.postMessage',
+  'chat.update',
+  'chat.delete',
+  'reactions.add',
+  'reactions.remove',
+  'pins.add',
+]);
+
+/**
+ * Session, rate limit, cancellation and timeout errors reach the caller as
+ * thrown. Only other failures become `{ ok: false }` results or plain errors.
+ */
+function rethrowIfMCPError(error: unknown): void {
+  if (error instanceof MCPError) {
+    throw error;
+  }
+}
+
+/**
+ * A Slack API call a dry run would have made
+ */
+export interface DryRunCall {
+  method: string;
+  payload: Record<string, any>;
+}
 
 export class SlackClient {
   private tokens: SlackTokens;
-  private baseUrl = 'https://slack.com/api';
-
-  constructor(tokens: SlackTokens) {
+  private baseUrl: string;
+  private options: Required<Omit<SlackClientOptions, 'baseUrl' | 'fetch'>>;
+  private fetchImpl?: SlackFetch;
+  private rateLimiter: SlackRateLimiter;
+  private signal?: AbortSignal;
+  private dryRunCalls?: DryRunCall[];
+
+  constructor(tokens: SlackTokens, options: SlackClientOptions = {}) {
+    const { baseUrl, fetch: fetchImpl, ...retryOptions } = options;
     this.tokens = tokens;
+    this.baseUrl = baseUrl || config.getSlackApiConfig().url;
+    this.fetchImpl = fetchImpl;
+    this.options = {
+      maxRetries: 3,
+      maxRetryWaitMs: 60000,
+      ...retryOptions,
+    };
+    this.rateLimiter = SlackRateLimiter.forWorkspace(tokens.teamDomain);
+  }
+
+  /**
+   * Team ID of the workspace: configured with its tokens, or learned by the session check
+   */
+  get teamId(): string | undefined {
+    return this.tokens.teamId;
+  }
+
+  /**
+   * A view of this client whose requests, retries and rate limit waits stop
+   * when the signal is aborted. Tokens and rate limits are shared with this client.
+   */
+  withSignal(signal?: AbortSignal): SlackClient {
+    if (!signal || signal === this.signal) {
+      return this;
+    }
+    const scoped = Object.create(this) as SlackClient;
+    scoped.signal = signal;
+    return scoped;
+  }
+
+  /**
+   * A view of this client that records calls which would change Slack in
+   * `calls` and answers them as Slack would, without sending them. Reads still
+   * go to Slack, so lookups behave as they would in a real call.
+   */
+  withDryRun(calls?: DryRunCall[]): SlackClient {
+    if (!calls || calls === this.dryRunCalls) {
+      return this;
+    }
+    const scoped = Object.create(this) as SlackClient;
+    scoped.dryRunCalls = calls;
+    return scoped;
   }
 
   /**
    * Make authenticated request to Slack API
+   * Waits for the method's rate limit bucket and retries rate-limited calls after Retry-After
    */
   private async makeRequest<T>(endpoint: string, data?: Record<string, any>): Promise<T> {
+    if (this.dryRunCalls && MUTATING_METHODS.has(endpoint)) {
+      return this.recordDryRun(endpoint, data) as T;
+    }
+
+    // Errors reach the caller as thrown, so they can tell a session or network failure apart
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.sendRequest<T>(endpoint, data);
+      } catch (error) {
+        const retryAfterMs =
+          error instanceof RateLimitExceededError ? this.getRetryAfterMs(error) : undefined;
+        if (
+          retryAfterMs === undefined ||
+          retryAfterMs > this.options.maxRetryWaitMs ||
+          attempt >= this.options.maxRetries ||
+          this.signal?.aborted
+        ) {
+          throw error;
+        }
+
+        const delayMs = this.withJitter(retryAfterMs);
+        logger.warn('Retrying rate limited Slack API request', {
+          endpoint,
+          attempt: attempt + 1,
+          maxRetries: this.options.maxRetries,
+          delayMs,
+        });
+        await sleep(delayMs, this.signal);
+      }
+    }
+  }
+
+  /**
+   * Record a call for a dry run and answer it as Slack would on success.
+   * Messages a dry run posts get placeholder timestamps: 0000000000.000001, then .000002
+   */
+  private recordDryRun(endpoint: string, data: Record<string, any> = {}): Record<string, any> {
+    const calls = this.dryRunCalls!;
+    const payload = { ...data };
+    if (this.tokens.enterpriseId && this.tokens.teamId && payload.team_id === undefined) {
+      payload.team_id = this.tokens.teamId;
+    }
+    calls.push({ method: endpoint, payload });
+    logger.debug('Dry run recorded Slack call', { endpoint });
+
+    switch (endpoint) {
+      case 'chat.postMessage': {
+        const posted = calls.filter((call) => call.method === 'chat.postMessage').length;
+        const ts = `0000000000.${String(posted).padStart(6, '0')}`;
+        return {
+          ok: true,
+          channel: data.channel,
+          ts,
+          message: { type: 'message', text: data.text, ts, thread_ts: data.thread_ts },
+        };
+      }
+      case 'chat.update':
+        return {
+          ok: true,
+          channel: data.channel,
+          ts: data.ts,
+          text: data.text,
+          message: { text: data.text },
+        };
+      case 'chat.delete':
+        return { ok: true, channel: data.channel, ts: data.ts };
+      default:
+        return { ok: true };
+    }
+  }
+
+  /**
+   * Make a request and decode the response against a schema, so schema drift
+   * surfaces as a SlackDecodeError instead of undefined fields
+   */
+  private async makeDecodedRequest<S extends z.ZodTypeAny>(
+    schema: S,
+    endpoint: string,
+    data?: Record<string, any>
+  ): Promise<z.infer<S>> {
+    return decodeSlackResponse(schema, await this.makeRequest<unknown>(endpoint, data), endpoint);
+  }
+
+  /**
+   * Send a single request, translating rate-limited responses into RateLimitExceededError
+   */
+  private async sendRequest<T>(endpoint: string, data?: Record<string, any>): Promise<T> {
     const url = `${this.baseUrl}/${endpoint}`;
 
     // Prepare form data if provided
@@ -36,7 +249,15 @@ export class SlackClient {
       });
     }
 
-    const response = await fetch(url, {
+    // Enterprise Grid tokens are org-wide; target the configured workspace explicitly
+    if (this.tokens.enterpriseId && this.tokens.teamId && !formData.has('team_id')) {
+      formData.append('team_id', this.tokens.teamId);
+    }
+
+    this.signal?.throwIfAborted();
+    await this.rateLimiter.acquire(endpoint, this.signal);
+
+    const response = await (this.fetchImpl || getSlackFetch())(url, {
       method: 'POST',
       headers: {
         Authorization: `Bearer ${this.tokens.xoxc}`,
@@ -46,16 +267,69 @@ export class SlackClient {
           'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
       },
       body: formData.toString(),
+      signal: this.signal,
     });
 
+    if (response.status === 429) {
+      throw this.createRateLimitError(endpoint, response);
+    }
+
     if (!response.ok) {
-      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      throw new SlackHttpError(endpoint, response.status, response.statusText);
+    }
+
+    const result = (await response.json()) as T & { ok?: boolean; error?: string };
+
+    // Some endpoints report rate limiting in the body instead of the status code
+    if (
+      result.ok === false &&
+      (result.error === 'ratelimited' || result.error === 'rate_limited')
+    ) {
+      throw this.createRateLimitError(endpoint, response);
+    }
+
+    // A dead browser session fails every call the same way; report it once, clearly
+    if (result.ok === false && SessionMonitor.isSessionError(result.error)) {
+      const workspace = SessionMonitor.getInstance().reportAuthFailure(this.tokens, result.error!);
+      throw new SessionExpiredError(workspace || this.tokens.teamDomain, result.error!);
     }
 
-    const result = (await response.json()) as T;
     return result;
   }
 
+  /**
+   * Build a rate limit error from Retry-After and block the method's bucket until then
+   */
+  private createRateLimitError(endpoint: string, response: Response): RateLimitExceededError {
+    const retryAfterSeconds = Number(response.headers.get('retry-after'));
+    const retryAfterMs =
+      Number.isFinite(retryAfterSeconds) && retryAfterSeconds > 0
+        ? retryAfterSeconds * 1000
+        : DEFAULT_RETRY_AFTER_MS;
+
+    this.rateLimiter.penalize(endpoint, retryAfterMs);
+
+    logger.warn('Slack API rate limited request', {
+      endpoint,
+      retryAfterMs,
+      tier: SlackRateLimiter.getTier(endpoint),
+    });
+
+    return new RateLimitExceededError(`slack:${endpoint}`, Date.now() + retryAfterMs);
+  }
+
+  private getRetryAfterMs(error: { context?: Record<string, any> }): number {
+    const resetTime = error.context?.resetTime;
+    return typeof resetTime === 'number' ? Math.max(resetTime - Date.now(), 0) : 0;
+  }
+
+  /**
+   * Add jitter so concurrent callers don't retry in lockstep
+   */
+  private withJitter(delayMs: number): number {
+    return delayMs + Math.floor(Math.random() * Math.min(1000, delayMs * 0.25 + 250));
+  }
+
   /**
    * Get list of channels user has access to
    */
@@ -113,6 +387,7 @@ export class SlackClient {
       // For backwards compatibility, return just channels array when no options
       return response.channels || [];
     } catch (error) {
+      rethrowIfMCPError(error);
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
 
       // If options are provided, return error response for tool compatibility
@@ -177,6 +452,7 @@ export class SlackClient {
       // For backwards compatibility, return just members array when no options
       return response.members || [];
     } catch (error) {
+      rethrowIfMCPError(error);
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
 
       // If options are provided, return error response for tool compatibility
@@ -210,6 +486,7 @@ export class SlackClient {
 
       return response.messages || [];
     } catch (error) {
+      rethrowIfMCPError(error);
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       throw new Error(`Failed to get conversation history: ${errorMessage}`);
     }
@@ -265,6 +542,7 @@ export class SlackClient {
         error: response.error,
       };
     } catch (error) {
+      rethrowIfMCPError(error);
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       return {
         ok: false,
@@ -314,13 +592,14 @@ export class SlackClient {
 
       return response;
     } catch (error) {
+      rethrowIfMCPError(error);
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       throw new Error(`Failed to post message: ${errorMessage}`);
     }
   }
 
   /**
-   * Update/edit an existing message
+   * Update/edit an existing message. An empty blocks array removes the message's blocks.
    */
   async updateMessage(
     channel: string,
@@ -335,7 +614,7 @@ export class SlackClient {
         text,
       };
 
-      if (blocks && blocks.length > 0) {
+      if (blocks) {
         data.blocks = JSON.stringify(blocks);
       }
 
@@ -347,6 +626,7 @@ export class SlackClient {
 
       return response;
     } catch (error) {
+      rethrowIfMCPError(error);
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       throw new Error(`Failed to update message: ${errorMessage}`);
     }
@@ -374,11 +654,33 @@ export class SlackClient {
 
       return response;
     } catch (error) {
+      rethrowIfMCPError(error);
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       throw new Error(`Failed to delete message: ${errorMessage}`);
     }
   }
 
+  /**
+   * Get a single message, whether top-level or a thread reply
+   */
+  async getMessage(channelId: string, ts: string): Promise<SlackMessage | undefined> {
+    const history = await this.makeRequest<SlackConversationsHistoryResponse>(
+      'conversations.history',
+      { channel: channelId, oldest: ts, latest: ts, inclusive: true, limit: 1 }
+    );
+    if (!history.ok) {
+      throw new Error(`Slack API error: ${history.error || 'Unknown error'}`);
+    }
+    const message = history.messages?.find((candidate) => candidate.ts === ts);
+    if (message) {
+      return message;
+    }
+
+    // Thread replies are only returned by conversations.replies
+    const replies = await this.getConversationReplies(channelId, ts, { oldest: ts });
+    return replies.messages?.find((candidate) => candidate.ts === ts);
+  }
+
   /**
    * Get conversation replies (thread replies)
    */
@@ -417,6 +719,7 @@ export class SlackClient {
         error: response.error,
       };
     } catch (error) {
+      rethrowIfMCPError(error);
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       return {
         ok: false,
@@ -425,16 +728,163 @@ export class SlackClient {
     }
   }
 
+  /**
+   * Iterate over every channel visible to the user (conversations.list)
+   */
+  iterateChannels(
+    options: PaginationOptions & { types?: string; exclude_archived?: boolean } = {}
+  ): AsyncGenerator<SlackChannel> {
+    return paginate(async (cursor) => {
+      const response = await this.makeRequest<SlackConversationsListResponse>(
+        'conversations.list',
+        {
+          types: options.types || 'public_channel,private_channel,mpim,im',
+          exclude_archived: options.exclude_archived ?? false,
+          limit: options.pageSize || 200,
+          ...(cursor && { cursor }),
+        }
+      );
+      return this.toPage(response, response.channels);
+    }, this.withPageDefaults(options));
+  }
+
+  /**
+   * Iterate over every member of the workspace (users.list)
+   */
+  iterateUsers(
+    options: PaginationOptions & { include_locale?: boolean } = {}
+  ): AsyncGenerator<SlackUser> {
+    return paginate(async (cursor) => {
+      const response = await this.makeRequest<SlackUsersListResponse>('users.list', {
+        limit: options.pageSize || 200,
+        ...(options.include_locale && { include_locale: true }),
+        ...(cursor && { cursor }),
+      });
+      return this.toPage(response, response.members);
+    }, this.withPageDefaults(options));
+  }
+
+  /**
+   * Iterate over a channel's messages, newest first (conversations.history)
+   */
+  iterateHistory(
+    channelId: string,
+    options: PaginationOptions & { oldest?: string; latest?: string; inclusive?: boolean } = {}
+  ): AsyncGenerator<SlackMessage> {
+    return paginate(async (cursor) => {
+      const response = await this.makeRequest<SlackConversationsHistoryResponse>(
+        'conversations.history',
+        {
+          channel: channelId,
+          limit: options.pageSize || 200,
+          inclusive: options.inclusive !== false,
+          ...(options.oldest && { oldest: options.oldest }),
+          ...(options.latest && { latest: options.latest }),
+          ...(cursor && { cursor }),
+        }
+      );
+      return this.toPage(response, response.messages);
+    }, this.withPageDefaults(options));
+  }
+
+  /**
+   * Iterate over a whole thread, parent first (conversations.replies)
+   */
+  iterateReplies(
+    channelId: string,
+    threadTs: string,
+    options: PaginationOptions & { oldest?: string; inclusive?: boolean } = {}
+  ): AsyncGenerator<SlackMessage> {
+    return paginate(async (cursor) => {
+      const response = await this.makeRequest<SlackConversationsHistoryResponse>(
+        'conversations.replies',
+        {
+          channel: channelId,
+          ts: threadTs,
+          limit: options.pageSize || 200,
+          inclusive: options.inclusive !== false,
+          ...(options.oldest && { oldest: options.oldest }),
+          ...(cursor && { cursor }),
+        }
+      );
+      return this.toPage(response, response.messages);
+    }, this.withPageDefaults(options));
+  }
+
+  /**
+   * Iterate over search.messages result pages. Search is paged by number, so
+   * the cursor option is a page number ("3" starts at the third page).
+   */
+  iterateSearchPages(
+    query: string,
+    options: PaginationOptions & { sort?: 'score' | 'timestamp'; sort_dir?: 'asc' | 'desc' } = {}
+  ): AsyncGenerator<SearchPage> {
+    return paginatePages<any, SearchPage>(async (cursor) => {
+      const page = cursor ? parseInt(cursor, 10) : 1;
+      const response = await this.makeDecodedRequest(
+        SlackSearchMessagesResponseSchema,
+        'search.messages',
+        {
+          query,
+          count: options.pageSize || 20,
+          page,
+          sort: options.sort || 'score',
+          sort_dir: options.sort_dir || 'desc',
+          highlight: true,
+        }
+      );
+
+      if (!response.ok) {
+        throw new Error(`Slack API error: ${response.error || 'Unknown error'}`);
+      }
+
+      const pagination = response.messages?.pagination;
+      const pageCount = pagination?.page_count || 1;
+      return {
+        items: response.messages?.matches || [],
+        nextCursor: page < pageCount ? String(page + 1) : undefined,
+        page,
+        pageCount,
+        totalCount: pagination?.total_count ?? response.messages?.total ?? 0,
+      };
+    }, this.withPageDefaults(options));
+  }
+
+  /**
+   * Pagination options with this client's signal, unless the caller passed its own
+   */
+  private withPageDefaults<O extends PaginationOptions>(options: O): O {
+    return this.signal && !options.signal ? { ...options, signal: this.signal } : options;
+  }
+
+  /**
+   * Turn a cursor-paginated response into a page, failing on Slack errors
+   */
+  private toPage<T>(
+    response: { ok: boolean; error?: string; response_metadata?: { next_cursor?: string } },
+    items: T[] | undefined
+  ): Page<T> {
+    if (!response.ok) {
+      throw new Error(`Slack API error: ${response.error || 'Unknown error'}`);
+    }
+    return {
+      items: items || [],
+      nextCursor: response.response_metadata?.next_cursor || undefined,
+    };
+  }
+
   /**
    * Get conversation info
    */
-  async getConversationInfo(
-    channelId: string
-  ): Promise<{ ok: boolean; channel?: SlackChannel; error?: string }> {
+  async getConversationInfo(channelId: string): Promise<SlackConversationInfoResponse> {
     try {
-      const response = await this.makeRequest<any>('conversations.info', {
-        channel: channelId,
-      });
+      const response = await this.makeDecodedRequest(
+        SlackConversationInfoResponseSchema,
+        'conversations.info',
+        {
+          channel: channelId,
+        }
+      );
 
       return {
         ok: response.ok,
@@ -442,6 +892,7 @@ export class SlackClient {
         error: response.error,
       };
     } catch (error) {
+      rethrowIfMCPError(error);
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       return {
         ok: false,
@@ -470,6 +921,7 @@ export class SlackClient {
         error: response.error,
       };
     } catch (error) {
+      rethrowIfMCPError(error);
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       return {
         ok: false,
@@ -478,6 +930,35 @@ export class SlackClient {
     }
   }
 
+  /**
+   * Remove a reaction the user added to a message
+   */
+  async removeReaction(
+    channelId: string,
+    messageTs: string,
+    reaction: string
+  ): Promise<{ ok: boolean; error?: string }> {
+    try {
+      const response = await this.makeRequest<any>('reactions.remove', {
+        channel: channelId,
+        timestamp: messageTs,
+        name: reaction,
+      });
+
+      return {
+        ok: response.ok,
+        error: response.error,
+      };
+    } catch (error) {
+      rethrowIfMCPError(error);
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      return {
+        ok: false,
+        error: `Failed to remove reaction: ${errorMessage}`,
+      };
+    }
+  }
+
   /**
    * Pin message
    */
@@ -493,6 +974,7 @@ export class SlackClient {
         error: response.error,
       };
     } catch (error) {
+      rethrowIfMCPError(error);
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       return {
         ok: false,
@@ -520,6 +1002,7 @@ export class SlackClient {
         error: response.error,
       };
     } catch (error) {
+      rethrowIfMCPError(error);
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       return {
         ok: false,
@@ -541,25 +1024,19 @@ export class SlackClient {
     page?: number;
     thread_replies?: boolean;
     extract_len?: number;
-  }): Promise<{
-    ok: boolean;
-    error?: string;
-    items?: any[];
-    pagination?: any;
-  }> {
-    const response = await this.makeRequest<{
-      ok: boolean;
-      error?: string;
-      items?: any[];
-      pagination?: any;
-    }>('search.inline', {
-      channel: params.channel,
-      query: params.query,
-      count: params.count || 3,
-      page: params.page || 1,
-      thread_replies: params.thread_replies !== false ? 1 : 0,
-      extract_len: params.extract_len || 110,
-    });
+  }): Promise<SlackSearchInlineResponse> {
+    const response = await this.makeDecodedRequest(
+      SlackSearchInlineResponseSchema,
+      'search.inline',
+      {
+        channel: params.channel,
+        query: params.query,
+        count: params.count || 3,
+        page: params.page || 1,
+        thread_replies: params.thread_replies !== false ? 1 : 0,
+        extract_len: params.extract_len || 110,
+      }
+    );
 
     return response;
   }
@@ -578,33 +1055,23 @@ export class SlackClient {
     highlight?: number;
     max_extract_len?: number;
     search_exclude_bots?: number;
-  }): Promise<{
-    ok: boolean;
-    error?: string;
-    items?: any[];
-    pagination?: any;
-    filters?: any;
-    filter_suggestions?: any;
-  }> {
-    const response = await this.makeRequest<{
-      ok: boolean;
-      error?: string;
-      items?: any[];
-      pagination?: any;
-      filters?: any;
-      filter_suggestions?: any;
-    }>('search.modules.messages', {
-      module: params.module,
-      query: params.query,
-      count: params.count || 20,
-      page: params.page || 1,
-      sort: params.sort || 'score',
-      sort_dir: params.sort_dir || 'desc',
-      extracts: params.extracts || 1,
-      highlight: params.highlight !== undefined ? params.highlight : 1,
-      max_extract_len: params.max_extract_len || 200,
-      search_exclude_bots: params.search_exclude_bots || 0,
-    });
+  }): Promise<SlackSearchModulesResponse> {
+    const response = await this.makeDecodedRequest(
+      SlackSearchModulesResponseSchema,
+      'search.modules.messages',
+      {
+        module: params.module,
+        query: params.query,
+        count: params.count || 20,
+        page: params.page || 1,
+        sort: params.sort || 'score',
+        sort_dir: params.sort_dir || 'desc',
+        extracts: params.extracts || 1,
+        highlight: params.highlight !== undefined ? params.highlight : 1,
+        max_extract_len: params.max_extract_len || 200,
+        search_exclude_bots: params.search_exclude_bots || 0,
+      }
+    );
 
     return response;
   }
@@ -619,43 +1086,19 @@ export class SlackClient {
     sort?: 'asc' | 'desc';
     highlight?: boolean;
     cursor?: string;
-  }): Promise<{
-    ok: boolean;
-    error?: string;
-    query?: string;
-    messages?: {
-      matches?: any[];
-      total?: number;
-      pagination?: {
-        page: number;
-        page_count: number;
-        per_page: number;
-        total_count: number;
-      };
-    };
-  }> {
-    const response = await this.makeRequest<{
-      ok: boolean;
-      error?: string;
-      query?: string;
-      messages?: {
-        matches?: any[];
-        total?: number;
-        pagination?: {
-          page: number;
-          page_count: number;
-          per_page: number;
-          total_count: number;
-        };
-      };
-    }>('search.messages', {
-      query: params.query,
-      count: params.count || 20,
-      page: params.page || 1,
-      sort: params.sort || 'desc',
-      highlight: params.highlight !== false ? true : false,
-      ...(params.cursor && { cursor: params.cursor }),
-    });
+  }): Promise<SlackSearchMessagesResponse> {
+    const response = await this.makeDecodedRequest(
+      SlackSearchMessagesResponseSchema,
+      'search.messages',
+      {
+        query: params.query,
+        count: params.count || 20,
+        page: params.page || 1,
+        sort: params.sort || 'desc',
+        highlight: params.highlight !== false ? true : false,
+        ...(params.cursor && { cursor: params.cursor }),
+      }
+    );
 
     return response;
   }
@@ -670,36 +1113,8 @@ export class SlackClient {
     sort?: 'score' | 'timestamp' | 'size';
     sort_dir?: 'asc' | 'desc';
     highlight?: boolean;
-  }): Promise<{
-    ok: boolean;
-    error?: string;
-    query?: string;
-    files?: {
-      matches?: any[];
-      total?: number;
-      pagination?: {
-        page: number;
-        page_count: number;
-        per_page: number;
-        total_count: number;
-      };
-    };
-  }> {
-    const response = await this.makeRequest<{
-      ok: boolean;
-      error?: string;
-      query?: string;
-      files?: {
-        matches?: any[];
-        total?: number;
-        pagination?: {
-          page: number;
-          page_count: number;
-          per_page: number;
-          total_count: number;
-        };
-      };
-    }>('search.files', {
+  }): Promise<SlackSearchFilesResponse> {
+    const response = await this.makeDecodedRequest(SlackSearchFilesResponseSchema, 'search.files', {
       query: params.query,
       count: params.count || 20,
       page: params.page || 1,
@@ -714,42 +1129,23 @@ export class SlackClient {
   /**
    * Get user profile information
    */
-  async getUserProfile(userId: string): Promise<{
-    ok: boolean;
-    profile?: {
-      display_name?: string;
-      real_name?: string;
-      email?: string;
-      first_name?: string;
-      last_name?: string;
-      title?: string;
-      phone?: string;
-      image_24?: string;
-      image_32?: string;
-      image_48?: string;
-      image_72?: string;
-      image_192?: string;
-      image_512?: string;
-      status_text?: string;
-      status_emoji?: string;
-    };
-    error?: string;
-  }> {
+  async getUserProfile(userId: string): Promise<SlackUserProfileResponse> {
     try {
-      const response = await this.makeRequest<{
-        ok: boolean;
-        profile?: any;
-        error?: string;
-      }>('users.profile.get', {
-        user: userId,
-        _x_reason: 'MemberProfileFlexpane',
-        _x_mode: 'online',
-        _x_sonic: 'true',
-        _x_app_name: 'client',
-      });
+      const response = await this.makeDecodedRequest(
+        SlackUserProfileResponseSchema,
+        'users.profile.get',
+        {
+          user: userId,
+          _x_reason: 'MemberProfileFlexpane',
+          _x_mode: 'online',
+          _x_sonic: 'true',
+          _x_app_name: 'client',
+        }
+      );
 
       return response;
     } catch (error) {
+      rethrowIfMCPError(error);
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       return {
         ok: false,
@@ -758,6 +1154,27 @@ export class SlackClient {
     }
   }
 
+  /**
+   * Get a user's account and profile (users.info)
+   */
+  async getUserInfo(userId: string): Promise<SlackUserInfoResponse> {
+    return this.makeDecodedRequest(SlackUserInfoResponseSchema, 'users.info', { user: userId });
+  }
+
+  /**
+   * Get a file's metadata (files.info)
+   */
+  async getFileInfo(fileId: string): Promise<SlackFileInfoResponse> {
+    return this.makeDecodedRequest(SlackFileInfoResponseSchema, 'files.info', { file: fileId });
+  }
+
+  /**
+   * Get the workspace's custom emoji (emoji.list)
+   */
+  async getCustomEmoji(): Promise<SlackEmojiListResponse> {
+    return this.makeDecodedRequest(SlackEmojiListResponseSchema, 'emoji.list');
+  }
+
   async testConnection(): Promise<boolean> {
     try {
       const response = await this.makeRequest<{ ok: boolean }>('auth.test');
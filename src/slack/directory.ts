@@ -0,0 +1,188 @@
+/**
+ * Slack Directory
+ * Cached channel, user and emoji names per workspace, for lookups, completion and policy checks
+ */
+
+import { SlackClientProvider } from './client-provider.js';
+import { WorkspaceRegistry } from './workspaces.js';
+import { collect } from './pagination.js';
+import { STANDARD_EMOJI } from './emoji.js';
+import { AuthenticationError } from '../errors/index.js';
+import { logger } from '../utils/logger.js';
+
+export interface DirectoryChannel {
+  id: string;
+  name: string;
+  is_private: boolean;
+  is_mpim: boolean; // Group DMs are listed so policy rules can tell them apart
+  is_archived: boolean;
+  is_member: boolean;
+}
+
+export interface DirectoryUser {
+  id: string;
+  name: string;
+  real_name?: string;
+  display_name?: string;
+  is_bot: boolean;
+  deleted: boolean;
+}
+
+export interface DirectorySnapshot {
+  workspace: string;
+  channels: DirectoryChannel[];
+  users: DirectoryUser[];
+  emoji: string[]; // Custom emoji first, then standard names
+  loadedAt: number;
+}
+
+interface CacheEntry {
+  snapshot?: DirectorySnapshot;
+  loading?: Promise<DirectorySnapshot>;
+}
+
+const DIRECTORY_TTL_MS = 10 * 60 * 1000;
+
+/**
+ * Upper bound on directory size, so a huge Enterprise Grid org cannot stall a completion
+ */
+const MAX_ENTRIES = 10000;
+
+/**
+ * Lists of the channels, users and emoji in each workspace.
+ *
+ * Loading costs a few paginated Tier 2 calls, so snapshots are kept for ten
+ * minutes. A stale snapshot is still served while a refresh runs in the
+ * background; only the first lookup for a workspace waits for Slack.
+ */
+export class SlackDirectory {
+  private static instance: SlackDirectory | null = null;
+
+  private cache: Map<string, CacheEntry> = new Map();
+
+  constructor(
+    private clientProvider: SlackClientProvider = SlackClientProvider.getInstance(),
+    private registry: WorkspaceRegistry = WorkspaceRegistry.getInstance(),
+    private ttlMs: number = DIRECTORY_TTL_MS
+  ) {}
+
+  /**
+   * Get the shared directory
+   */
+  static getInstance(): SlackDirectory {
+    if (!SlackDirectory.instance) {
+      SlackDirectory.instance = new SlackDirectory();
+    }
+    return SlackDirectory.instance;
+  }
+
+  /**
+   * Get a workspace's directory (default workspace when omitted)
+   */
+  async get(workspace?: string): Promise<DirectorySnapshot> {
+    const name = this.registry.resolve(workspace)?.name;
+    if (!name) {
+      throw new AuthenticationError('no Slack workspace configured');
+    }
+
+    const entry = this.cache.get(name) || {};
+    this.cache.set(name, entry);
+
+    if (entry.snapshot) {
+      if (Date.now() - entry.snapshot.loadedAt > this.ttlMs && !entry.loading) {
+        this.refresh(name, entry).catch((error) => {
+          logger.warn('Directory refresh failed', {
+            workspace: name,
+            error: error instanceof Error ? error.message : 'Unknown error',
+          });
+        });
+      }
+      return entry.snapshot;
+    }
+
+    return entry.loading || this.refresh(name, entry);
+  }
+
+  /**
+   * Drop cached snapshots (all workspaces when omitted)
+   */
+  invalidate(workspace?: string): void {
+    if (workspace === undefined) {
+      this.cache.clear();
+      return;
+    }
+    const name = this.registry.resolve(workspace)?.name;
+    if (name) {
+      this.cache.delete(name);
+    }
+  }
+
+  private refresh(workspace: string, entry: CacheEntry): Promise<DirectorySnapshot> {
+    entry.loading = this.load(workspace)
+      .then((snapshot) => {
+        entry.snapshot = snapshot;
+        return snapshot;
+      })
+      .finally(() => {
+        entry.loading = undefined;
+      });
+    return entry.loading;
+  }
+
+  private async load(workspace: string): Promise<DirectorySnapshot> {
+    const client = this.clientProvider.getClient(workspace);
+    const startTime = Date.now();
+
+    const channels = await collect(
+      client.iterateChannels({
+        types: 'public_channel,private_channel,mpim',
+        maxItems: MAX_ENTRIES,
+        pageSize: 1000,
+      })
+    );
+    const users = await collect(client.iterateUsers({ maxItems: MAX_ENTRIES }));
+
+    let customEmoji: string[] = [];
+    try {
+      const response = await client.getCustomEmoji();
+      customEmoji = Object.keys(response.emoji || {}).sort();
+    } catch (error) {
+      logger.debug('Custom emoji unavailable', {
+        workspace,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+
+    const snapshot: DirectorySnapshot = {
+      workspace,
+      channels: channels.map((channel) => ({
+        id: channel.id,
+        name: channel.name,
+        is_private: !!channel.is_private,
+        is_mpim: !!channel.is_mpim,
+        is_archived: !!channel.is_archived,
+        is_member: !!channel.is_member,
+      })),
+      users: users.map((user) => ({
+        id: user.id,
+        name: user.name,
+        real_name: user.real_name,
+        display_name: user.display_name,
+        is_bot: !!user.is_bot,
+        deleted: !!user.deleted,
+      })),
+      emoji: [...customEmoji, ...STANDARD_EMOJI.filter((name) => !customEmoji.includes(name))],
+      loadedAt: Date.now(),
+    };
+
+    logger.info('Slack directory loaded', {
+      workspace,
+      channels: snapshot.channels.length,
+      users: snapshot.users.length,
+      emoji: snapshot.emoji.length,
+      durationMs: Date.now() - startTime,
+    });
+
+    return snapshot;
+  }
+}
@@ -0,0 +1,120 @@
+/**
+ * Standard Emoji
+ * Commonly used built-in emoji names (emoji.list only returns custom emoji)
+ */
+
+export const STANDARD_EMOJI: readonly string[] = [
+  '+1',
+  '-1',
+  '100',
+  'alarm_clock',
+  'angry',
+  'arrow_down',
+  'arrow_left',
+  'arrow_right',
+  'arrow_up',
+  'ballot_box_with_check',
+  'bangbang',
+  'beers',
+  'bell',
+  'blush',
+  'books',
+  'boom',
+  'bug',
+  'bulb',
+  'calendar',
+  'chart_with_downwards_trend',
+  'chart_with_upwards_trend',
+  'clap',
+  'clipboard',
+  'coffee',
+  'confused',
+  'construction',
+  'cry',
+  'crossed_fingers',
+  'dart',
+  'disappointed',
+  'dizzy',
+  'exclamation',
+  'eyes',
+  'facepalm',
+  'fire',
+  'flushed',
+  'gift',
+  'grimacing',
+  'grin',
+  'grinning',
+  'hammer_and_wrench',
+  'handshake',
+  'heart',
+  'heart_eyes',
+  'heavy_check_mark',
+  'heavy_minus_sign',
+  'heavy_plus_sign',
+  'hourglass',
+  'hourglass_flowing_sand',
+  'hugging_face',
+  'information_source',
+  'joy',
+  'key',
+  'laughing',
+  'link',
+  'lock',
+  'mag',
+  'memo',
+  'money_with_wings',
+  'muscle',
+  'new',
+  'no_entry',
+  'no_entry_sign',
+  'ok',
+  'ok_hand',
+  'open_mouth',
+  'package',
+  'partying_face',
+  'pencil2',
+  'pensive',
+  'pray',
+  'pushpin',
+  'question',
+  'raised_hands',
+  'recycle',
+  'red_circle',
+  'relieved',
+  'rocket',
+  'rotating_light',
+  'scream',
+  'see_no_evil',
+  'shield',
+  'ship',
+  'shrug',
+  'slightly_smiling_face',
+  'smile',
+  'smiley',
+  'smirk',
+  'sob',
+  'sparkles',
+  'speech_balloon',
+  'star',
+  'star-struck',
+  'stopwatch',
+  'sunglasses',
+  'sweat_smile',
+  'tada',
+  'thinking_face',
+  'thought_balloon',
+  'thumbsdown',
+  'thumbsup',
+  'trophy',
+  'upside_down_face',
+  'v',
+  'warning',
+  'wave',
+  'white_check_mark',
+  'wink',
+  'wrench',
+  'x',
+  'yum',
+  'zap',
+  'zzz',
+];
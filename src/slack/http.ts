@@ -0,0 +1,213 @@
+/**
+ * Slack HTTP Layer
+ * Pluggable fetch for Slack API calls with record and replay modes
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { dirname } from 'node:path';
+import { config, SlackApiConfig } from '../utils/config.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * The subset of fetch used for Slack API calls
+ */
+export type SlackFetch = (url: string, init?: RequestInit) => Promise<Response>;
+
+/**
+ * One recorded request/response pair. Authorization and Cookie headers are
+ * never recorded, and tokens in parameters or bodies are redacted.
+ */
+export interface RecordedInteraction {
+  endpoint: string;
+  params: Record<string, string>;
+  status: number;
+  headers: Record<string, string>;
+  body: unknown;
+}
+
+export interface Cassette {
+  version: 1;
+  interactions: RecordedInteraction[];
+}
+
+/**
+ * Response headers worth keeping (rate limit handling depends on Retry-After)
+ */
+const RECORDED_HEADERS = ['content-type', 'retry-after'];
+
+const TOKEN_PATTERN = /\b(xox[a-z])-[A-Za-z0-9%._\-/+=]+/g;
+const SECRET_PARAMS = new Set(['token', 'd']);
+
+let sharedFetch: SlackFetch | null = null;
+
+/**
+ * Get the fetch configured by SLACK_HTTP_MODE (shared so a recording
+ * collects every call the process makes)
+ */
+export function getSlackFetch(): SlackFetch {
+  if (!sharedFetch) {
+    sharedFetch = createSlackFetch();
+  }
+  return sharedFetch;
+}
+
+/**
+ * Replace the shared fetch (e.g. with FakeSlackServer.fetch); pass null to reset
+ */
+export function setSlackFetch(fetchImpl: SlackFetch | null): void {
+  sharedFetch = fetchImpl;
+}
+
+/**
+ * Build a fetch for the given mode: live calls, live calls written to a
+ * cassette, or responses served from a cassette without touching the network
+ */
+export function createSlackFetch(
+  options: SlackApiConfig = config.getSlackApiConfig(),
+  baseFetch: SlackFetch = (url, init) => fetch(url, init)
+): SlackFetch {
+  switch (options.mode) {
+    case 'record':
+      return createRecordingFetch(options.cassetteFile!, baseFetch);
+    case 'replay':
+      return createReplayFetch(options.cassetteFile!, { lenient: options.replayLenient });
+    default:
+      return baseFetch;
+  }
+}
+
+/**
+ * Pass calls through and append each scrubbed interaction to a cassette file
+ */
+export function createRecordingFetch(cassetteFile: string, baseFetch: SlackFetch): SlackFetch {
+  const cassette: Cassette = { version: 1, interactions: [] };
+
+  logger.info('Recording Slack API calls', { cassette: cassetteFile });
+
+  return async (url, init) => {
+    const response = await baseFetch(url, init);
+
+    const text = await response.clone().text();
+    let body: unknown = text;
+    try {
+      body = JSON.parse(text);
+    } catch {
+      // Keep non-JSON bodies as text
+    }
+
+    const headers: Record<string, string> = {};
+    for (const name of RECORDED_HEADERS) {
+      const value = response.headers.get(name);
+      if (value !== null) {
+        headers[name] = value;
+      }
+    }
+
+    cassette.interactions.push({
+      endpoint: endpointOf(url),
+      params: scrubParams(paramsOf(init)),
+      status: response.status,
+      headers,
+      body: scrub(body),
+    });
+
+    mkdirSync(dirname(cassetteFile), { recursive: true });
+    writeFileSync(cassetteFile, JSON.stringify(cassette, null, 2) + '\n');
+
+    return response;
+  };
+}
+
+/**
+ * Serve responses from a cassette. Interactions are matched by endpoint and
+ * parameters, in recorded order; once used up, the last match is repeated. A
+ * call with no match fails, unless lenient, when it gets the next unused
+ * interaction on the same endpoint.
+ */
+export function createReplayFetch(
+  cassetteFile: string,
+  options: { lenient?: boolean } = {}
+): SlackFetch {
+  if (!existsSync(cassetteFile)) {
+    throw new Error(`Slack cassette not found: ${cassetteFile}`);
+  }
+
+  const cassette = JSON.parse(readFileSync(cassetteFile, 'utf8')) as Cassette;
+  if (cassette.version !== 1 || !Array.isArray(cassette.interactions)) {
+    throw new Error(`Unsupported Slack cassette format: ${cassetteFile}`);
+  }
+
+  const used = new Set<RecordedInteraction>();
+  logger.info('Replaying Slack API calls', {
+    cassette: cassetteFile,
+    interactions: cassette.interactions.length,
+  });
+
+  return async (url, init) => {
+    const endpoint = endpointOf(url);
+    const params = scrubParams(paramsOf(init));
+    const key = paramsKey(params);
+
+    const candidates = cassette.interactions.filter((i) => i.endpoint === endpoint);
+    const exact = candidates.filter((i) => paramsKey(i.params) === key);
+    const interaction =
+      exact.find((i) => !used.has(i)) ||
+      exact[exact.length - 1] ||
+      (options.lenient ? candidates.find((i) => !used.has(i)) : undefined);
+
+    if (!interaction) {
+      throw new Error(
+        `No recorded response for ${endpoint} ${new URLSearchParams(params)} in ${cassetteFile}`
+      );
+    }
+
+    used.add(interaction);
+    const body =
+      typeof interaction.body === 'string' ? interaction.body : JSON.stringify(interaction.body);
+    return new Response(body, { status: interaction.status, headers: interaction.headers });
+  };
+}
+
+/**
+ * Redact Slack tokens anywhere in a JSON value
+ */
+export function scrub<T>(value: T): T {
+  if (typeof value === 'string') {
+    return value.replace(TOKEN_PATTERN, '$1-REDACTED') as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => scrub(item)) as T;
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, scrub(item)])) as T;
+  }
+  return value;
+}
+
+function scrubParams(params: Record<string, string>): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(params).map(([key, value]) => [
+      key,
+      SECRET_PARAMS.has(key) ? 'REDACTED' : scrub(value),
+    ])
+  );
+}
+
+function endpointOf(url: string): string {
+  return new URL(url).pathname.split('/').pop() || '';
+}
+
+function paramsOf(init?: RequestInit): Record<string, string> {
+  if (!init?.body || typeof init.body !== 'string') {
+    return {};
+  }
+  return Object.fromEntries(new URLSearchParams(init.body));
+}
+
+function paramsKey(params: Record<string, string>): string {
+  return JSON.stringify(
+    Object.keys(params)
+      .sort()
+      .map((key) => [key, params[key]])
+  );
+}
@@ -0,0 +1,93 @@
+/**
+ * Slack Pagination
+ * Async iteration over cursor- and page-numbered Slack endpoints
+ */
+
+/**
+ * Limits shared by every SlackClient iterator
+ */
+export interface PaginationOptions {
+  maxItems?: number; // Stop after this many items (default: no limit)
+  maxPages?: number; // Stop after this many requests (default: no limit)
+  pageSize?: number; // Items requested per page (endpoint default when omitted)
+  cursor?: string; // Start from a cursor returned by an earlier request
+  signal?: AbortSignal; // Stop between pages
+  onPage?: (pages: number, items: number) => void; // Running totals after each page (progress reporting)
+}
+
+/**
+ * One fetched page. nextCursor is absent on the last page.
+ */
+export interface Page<T> {
+  items: T[];
+  nextCursor?: string;
+}
+
+/**
+ * A page of search.messages results
+ */
+export interface SearchPage<T = any> extends Page<T> {
+  page: number;
+  pageCount: number;
+  totalCount: number;
+}
+
+export type PageFetcher<T, P extends Page<T> = Page<T>> = (
+  cursor: string | undefined
+) => Promise<P>;
+
+/**
+ * Yield pages until the endpoint runs out or a limit is reached. The last page
+ * is truncated so no more than maxItems items are returned in total.
+ */
+export async function* paginatePages<T, P extends Page<T> = Page<T>>(
+  fetchPage: PageFetcher<T, P>,
+  options: PaginationOptions = {}
+): AsyncGenerator<P> {
+  const { maxItems = Infinity, maxPages = Infinity, signal, onPage } = options;
+  let cursor = options.cursor;
+  let pages = 0;
+  let items = 0;
+
+  while (pages < maxPages && items < maxItems) {
+    signal?.throwIfAborted();
+
+    // Rate limits are waited out by the client; a page that still fails ends the iteration
+    const page = await fetchPage(cursor);
+    pages++;
+
+    const remaining = maxItems - items;
+    const pageItems = page.items.length > remaining ? page.items.slice(0, remaining) : page.items;
+    items += pageItems.length;
+    onPage?.(pages, items);
+    yield { ...page, items: pageItems };
+
+    if (!page.nextCursor) {
+      return;
+    }
+    cursor = page.nextCursor;
+  }
+}
+
+/**
+ * Yield items one at a time across pages
+ */
+export async function* paginate<T>(
+  fetchPage: PageFetcher<T>,
+  options: PaginationOptions = {}
+): AsyncGenerator<T> {
+  for await (const page of paginatePages(fetchPage, options)) {
+    yield* page.items;
+  }
+}
+
+/**
+ * Collect an iterator into an array
+ */
+export async function collect<T>(iterator: AsyncIterable<T>): Promise<T[]> {
+  const items: T[] = [];
+  for await (const item of iterator) {
+    items.push(item);
+  }
+  return items;
+}
@@ -0,0 +1,173 @@
+/**
+ * Slack Rate Limiter
+ * Per-method token buckets based on Slack's Web API rate limit tiers
+ */
+
+import { logger } from '../utils/logger.js';
+import { sleep } from '../utils/sleep.js';
+
+/**
+ * Slack rate limit tiers (requests per minute, per workspace, per method)
+ * See https://api.slack.com/apis/rate-limits
+ */
+export type SlackRateTier = 'tier1' | 'tier2' | 'tier3' | 'tier4' | 'special';
+
+export const TIER_LIMITS: Record<SlackRateTier, number> = {
+  tier1: 1,
+  tier2: 20,
+  tier3: 50,
+  tier4: 100,
+  special: 60, // chat.postMessage: ~1 per second per channel
+};
+
+/**
+ * Known tier for each Slack method used by this server.
+ * Unknown methods fall back to Tier 3.
+ */
+export const METHOD_TIERS: Record<string, SlackRateTier> = {
+  'auth.test': 'tier4',
+  'conversations.list': 'tier2',
+  'conversations.history': 'tier3',
+  'conversations.replies': 'tier3',
+  'conversations.info': 'tier3',
+  'users.list': 'tier2',
+  'users.profile.get': 'tier4',
+  'chat.postMessage': 'special',
+  'chat.update': 'tier3',
+  'chat.delete': 'tier3',
+  'chat.getPermalink': 'tier4',
+  'reactions.add': 'tier3',
+  'pins.add': 'tier2',
+  'search.messages': 'tier2',
+  'search.files': 'tier2',
+  'search.modules.messages': 'tier2',
+  'search.inline': 'tier2',
+};
+
+const DEFAULT_TIER: SlackRateTier = 'tier3';
+
+interface MethodBucket {
+  tier: SlackRateTier;
+  capacity: number;
+  tokens: number;
+  refillPerMs: number;
+  lastRefill: number;
+  blockedUntil: number;
+}
+
+/**
+ * Token bucket rate limiter keyed by Slack method.
+ * One instance is shared per workspace so that every client talking to the
+ * same workspace draws from the same budget.
+ */
+export class SlackRateLimiter {
+  private static instances: Map<string, SlackRateLimiter> = new Map();
+
+  private buckets: Map<string, MethodBucket> = new Map();
+
+  /**
+   * Get the shared limiter for a workspace
+   */
+  static forWorkspace(teamDomain: string): SlackRateLimiter {
+    let limiter = SlackRateLimiter.instances.get(teamDomain);
+    if (!limiter) {
+      limiter = new SlackRateLimiter();
+      SlackRateLimiter.instances.set(teamDomain, limiter);
+    }
+    return limiter;
+  }
+
+  /**
+   * Get the tier for a Slack method
+   */
+  static getTier(method: string): SlackRateTier {
+    return METHOD_TIERS[method] || DEFAULT_TIER;
+  }
+
+  /**
+   * Wait until a request for the method is allowed, then consume one token
+   */
+  async acquire(method: string, signal?: AbortSignal): Promise<void> {
+    const bucket = this.getBucket(method);
+
+    for (;;) {
+      const now = Date.now();
+      this.refill(bucket, now);
+
+      const blockedFor = bucket.blockedUntil - now;
+      if (blockedFor <= 0 && bucket.tokens >= 1) {
+        bucket.tokens -= 1;
+        return;
+      }
+
+      const waitMs = Math.max(blockedFor, Math.ceil((1 - bucket.tokens) / bucket.refillPerMs));
+
+      logger.debug('Waiting for Slack rate limit bucket', {
+        method,
+        tier: bucket.tier,
+        waitMs,
+      });
+
+      await sleep(waitMs, signal);
+    }
+  }
+
+  /**
+   * Block a method until the given time (used when Slack answers with Retry-After)
+   */
+  penalize(method: string, retryAfterMs: number): void {
+    const bucket = this.getBucket(method);
+    bucket.blockedUntil = Math.max(bucket.blockedUntil, Date.now() + retryAfterMs);
+    bucket.tokens = 0;
+
+    logger.warn('Slack rate limit hit', {
+      method,
+      tier: bucket.tier,
+      retryAfterMs,
+    });
+  }
+
+  /**
+   * Get current bucket state for diagnostics
+   */
+  getStats(): Record<string, { tier: SlackRateTier; tokens: number; blockedUntil: number }> {
+    const stats: Record<string, { tier: SlackRateTier; tokens: number; blockedUntil: number }> = {};
+
+    for (const [method, bucket] of this.buckets) {
+      this.refill(bucket, Date.now());
+      stats[method] = {
+        tier: bucket.tier,
+        tokens: Math.floor(bucket.tokens),
+        blockedUntil: bucket.blockedUntil,
+      };
+    }
+
+    return stats;
+  }
+
+  private getBucket(method: string): MethodBucket {
+    let bucket = this.buckets.get(method);
+    if (!bucket) {
+      const tier = SlackRateLimiter.getTier(method);
+      const perMinute = TIER_LIMITS[tier];
+      bucket = {
+        tier,
+        capacity: perMinute,
+        tokens: perMinute,
+        refillPerMs: perMinute / 60000,
+        lastRefill: Date.now(),
+        blockedUntil: 0,
+      };
+      this.buckets.set(method, bucket);
+    }
+    return bucket;
+  }
+
+  private refill(bucket: MethodBucket, now: number): void {
+    const elapsed = now - bucket.lastRefill;
+    if (elapsed > 0) {
+      bucket.tokens = Math.min(bucket.capacity, bucket.tokens + elapsed * bucket.refillPerMs);
+      bucket.lastRefill = now;
+    }
+  }
+}
@@ -0,0 +1,279 @@
+/**
+ * Slack Response Schemas
+ * Runtime models for the Slack responses tools depend on
+ *
+ * Many of these endpoints are undocumented (search.modules.*, search.inline,
+ * users.profile.get with browser flags), so responses are decoded at the client
+ * boundary. Objects are passthrough: unknown fields are kept, but a missing or
+ * mistyped field that tools rely on fails with a SlackDecodeError.
+ */
+
+import { z } from 'zod';
+import { SlackDecodeError } from '../errors/index.js';
+import { logger } from '../utils/logger.js';
+
+const loose = <T extends z.ZodRawShape>(shape: T) => z.object(shape).passthrough();
+
+/**
+ * Response envelope; ok is the only field every Slack response has
+ */
+const envelope = <T extends z.ZodRawShape>(shape: T) =>
+  loose({ ok: z.boolean(), error: z.string().optional(), ...shape });
+
+// Message building blocks
+
+export const SlackReactionSchema = loose({
+  name: z.string(),
+  count: z.number(),
+  users: z.array(z.string()).optional(),
+});
+
+export const SlackBlockSchema = loose({
+  type: z.string(),
+  block_id: z.string().optional(),
+});
+
+export const SlackAttachmentSchema = loose({
+  id: z.number().optional(),
+  fallback: z.string().optional(),
+  color: z.string().optional(),
+  pretext: z.string().optional(),
+  title: z.string().optional(),
+  title_link: z.string().optional(),
+  text: z.string().optional(),
+  author_name: z.string().optional(),
+  footer: z.string().optional(),
+  ts: z.union([z.string(), z.number()]).optional(),
+  blocks: z.array(SlackBlockSchema).optional(),
+});
+
+export const SlackFileSchema = loose({
+  id: z.string(),
+  name: z.string().optional(),
+  title: z.string().optional(),
+  mimetype: z.string().optional(),
+  filetype: z.string().optional(),
+  pretty_type: z.string().optional(),
+  size: z.number().optional(),
+  user: z.string().optional(),
+  created: z.number().optional(),
+  timestamp: z.number().optional(),
+  is_external: z.boolean().optional(),
+  url_private: z.string().optional(),
+  permalink: z.string().optional(),
+  channels: z.array(z.string()).optional(),
+  groups: z.array(z.string()).optional(),
+  ims: z.array(z.string()).optional(),
+});
+
+// Search
+
+export const SlackSearchPaginationSchema = loose({
+  total_count: z.number().optional(),
+  page: z.number().optional(),
+  per_page: z.number().optional(),
+  page_count: z.number().optional(),
+  first: z.number().optional(),
+  last: z.number().optional(),
+});
+
+/**
+ * A search.messages match
+ */
+export const SlackSearchMatchSchema = loose({
+  iid: z.string().optional(),
+  type: z.string().optional(),
+  ts: z.string(),
+  text: z.string().optional(),
+  user: z.string().optional(),
+  username: z.string().optional(),
+  permalink: z.string().optional(),
+  team: z.string().optional(),
+  channel: loose({
+    id: z.string(),
+    name: z.string().optional(),
+    is_private: z.boolean().optional(),
+    is_mpim: z.boolean().optional(),
+    is_im: z.boolean().optional(),
+  }).optional(),
+  blocks: z.array(SlackBlockSchema).optional(),
+  attachments: z.array(SlackAttachmentSchema).optional(),
+  files: z.array(SlackFileSchema).optional(),
+  reactions: z.array(SlackReactionSchema).optional(),
+});
+
+/**
+ * Result list shared by search.messages and search.files
+ */
+const searchResults = <T extends z.ZodTypeAny>(match: T) =>
+  loose({
+    matches: z.array(match).optional(),
+    total: z.number().optional(),
+    pagination: SlackSearchPaginationSchema.optional(),
+    paging: loose({
+      count: z.number().optional(),
+      total: z.number().optional(),
+      page: z.number().optional(),
+      pages: z.number().optional(),
+    }).optional(),
+  });
+
+export const SlackSearchMessagesResponseSchema = envelope({
+  query: z.string().optional(),
+  messages: searchResults(SlackSearchMatchSchema).optional(),
+});
+
+export const SlackSearchFilesResponseSchema = envelope({
+  query: z.string().optional(),
+  files: searchResults(SlackFileSchema).optional(),
+});
+
+/**
+ * An item from the web client's search endpoints (search.modules.*, search.inline).
+ * Items differ by module; only the fields used for display are modelled.
+ */
+export const SlackSearchItemSchema = loose({
+  iid: z.string().optional(),
+  ts: z.string().optional(),
+  text: z.string().optional(),
+  user: z.string().optional(),
+  channel: z.union([z.string(), loose({ id: z.string(), name: z.string().optional() })]).optional(),
+  messages: z.array(loose({ ts: z.string(), text: z.string().optional() })).optional(),
+});
+
+export const SlackSearchModulesResponseSchema = envelope({
+  items: z.array(SlackSearchItemSchema).optional(),
+  pagination: SlackSearchPaginationSchema.optional(),
+  filters: z.unknown().optional(),
+  filter_suggestions: z.unknown().optional(),
+});
+
+export const SlackSearchInlineResponseSchema = envelope({
+  items: z.array(SlackSearchItemSchema).optional(),
+  pagination: SlackSearchPaginationSchema.optional(),
+});
+
+// Users and channels
+
+export const SlackUserProfileSchema = loose({
+  display_name: z.string().optional(),
+  real_name: z.string().optional(),
+  email: z.string().optional(),
+  first_name: z.string().optional(),
+  last_name: z.string().optional(),
+  title: z.string().optional(),
+  phone: z.string().optional(),
+  image_24: z.string().optional(),
+  image_32: z.string().optional(),
+  image_48: z.string().optional(),
+  image_72: z.string().optional(),
+  image_192: z.string().optional(),
+  image_512: z.string().optional(),
+  status_text: z.string().optional(),
+  status_emoji: z.string().optional(),
+});
+
+export const SlackUserProfileResponseSchema = envelope({
+  profile: SlackUserProfileSchema.optional(),
+});
+
+export const SlackUserInfoSchema = loose({
+  id: z.string(),
+  name: z.string().optional(),
+  real_name: z.string().optional(),
+  deleted: z.boolean().optional(),
+  is_bot: z.boolean().optional(),
+  is_admin: z.boolean().optional(),
+  is_owner: z.boolean().optional(),
+  tz: z.string().optional(),
+  profile: SlackUserProfileSchema.optional(),
+});
+
+export const SlackUserInfoResponseSchema = envelope({
+  user: SlackUserInfoSchema.optional(),
+});
+
+export const SlackFileInfoResponseSchema = envelope({
+  file: SlackFileSchema.optional(),
+});
+
+/**
+ * Custom emoji by name: an image URL, or "alias:<name>" for aliases
+ */
+export const SlackEmojiListResponseSchema = envelope({
+  emoji: z.record(z.string(), z.string()).optional(),
+});
+
+const channelText = loose({
+  value: z.string(),
+  creator: z.string().optional(),
+  last_set: z.number().optional(),
+});
+
+export const SlackChannelInfoSchema = loose({
+  id: z.string(),
+  name: z.string().optional(),
+  is_channel: z.boolean().optional(),
+  is_group: z.boolean().optional(),
+  is_im: z.boolean().optional(),
+  is_mpim: z.boolean().optional(),
+  is_private: z.boolean().optional(),
+  is_archived: z.boolean().optional(),
+  is_general: z.boolean().optional(),
+  is_member: z.boolean().optional(),
+  created: z.number().optional(),
+  creator: z.string().optional(),
+  user: z.string().optional(),
+  topic: channelText.optional(),
+  purpose: channelText.optional(),
+  num_members: z.number().optional(),
+});
+
+export const SlackConversationInfoResponseSchema = envelope({
+  channel: SlackChannelInfoSchema.optional(),
+});
+
+export type SlackReaction = z.infer<typeof SlackReactionSchema>;
+export type SlackBlock = z.infer<typeof SlackBlockSchema>;
+export type SlackAttachment = z.infer<typeof SlackAttachmentSchema>;
+export type SlackFile = z.infer<typeof SlackFileSchema>;
+export type SlackSearchPagination = z.infer<typeof SlackSearchPaginationSchema>;
+export type SlackSearchMatch = z.infer<typeof SlackSearchMatchSchema>;
+export type SlackSearchItem = z.infer<typeof SlackSearchItemSchema>;
+export type SlackSearchMessagesResponse = z.infer<typeof SlackSearchMessagesResponseSchema>;
+export type SlackSearchFilesResponse = z.infer<typeof SlackSearchFilesResponseSchema>;
+export type SlackSearchModulesResponse = z.infer<typeof SlackSearchModulesResponseSchema>;
+export type SlackSearchInlineResponse = z.infer<typeof SlackSearchInlineResponseSchema>;
+export type SlackUserProfile = z.infer<typeof SlackUserProfileSchema>;
+export type SlackUserProfileResponse = z.infer<typeof SlackUserProfileResponseSchema>;
+export type SlackUserInfo = z.infer<typeof SlackUserInfoSchema>;
+export type SlackUserInfoResponse = z.infer<typeof SlackUserInfoResponseSchema>;
+export type SlackFileInfoResponse = z.infer<typeof SlackFileInfoResponseSchema>;
+export type SlackEmojiListResponse = z.infer<typeof SlackEmojiListResponseSchema>;
+export type SlackChannelInfo = z.infer<typeof SlackChannelInfoSchema>;
+export type SlackConversationInfoResponse = z.infer<typeof SlackConversationInfoResponseSchema>;
+
+/**
+ * Decode a Slack response. Error responses ({ ok: false }) are only checked
+ * for the envelope, since they carry none of the success fields.
+ */
+export function decodeSlackResponse<S extends z.ZodTypeAny>(
+  schema: S,
+  data: unknown,
+  endpoint: string
+): z.infer<S> {
+  const result = schema.safeParse(data);
+  if (result.success) {
+    return result.data;
+  }
+
+  if (data && typeof data === 'object' && (data as { ok?: unknown }).ok === false) {
+    return data as z.infer<S>;
+  }
+
+  const issues = result.error.issues.map(
+    (issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`
+  );
+  logger.warn('Slack response did not match the expected schema', { endpoint, issues });
+  throw new SlackDecodeError(endpoint, issues);
+}
@@ -0,0 +1,273 @@
+/**
+ * Browser Session Import
+ * Extracts the xoxd session cookie and per-team xoxc tokens from browser exports
+ */
+
+import { ConfigurationError } from '../errors/index.js';
+
+export type SessionExportFormat = 'cookies' | 'har' | 'localstorage';
+
+/**
+ * A team token found in an export
+ */
+export interface ImportedTeam {
+  xoxc: string;
+  teamId?: string;
+  teamDomain?: string;
+  teamName?: string;
+  enterpriseId?: string;
+}
+
+/**
+ * Everything found in one or more exports.
+ * The d cookie is shared by every team signed in to the same browser.
+ */
+export interface ImportedSession {
+  xoxd?: string;
+  teams: ImportedTeam[];
+}
+
+const XOXC_PATTERN = /xoxc-[A-Za-z0-9-]+/;
+
+/**
+ * Guess the export format from file contents
+ */
+export function detectFormat(content: string): SessionExportFormat {
+  const trimmed = content.trimStart();
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    try {
+      const parsed = JSON.parse(trimmed);
+      return parsed && typeof parsed === 'object' && parsed.log?.entries ? 'har' : 'localstorage';
+    } catch {
+      throw new ConfigurationError('import', 'file looks like JSON but cannot be parsed');
+    }
+  }
+  return 'cookies';
+}
+
+/**
+ * Parse an export in the given format (auto-detected when omitted)
+ */
+export function parseSessionExport(content: string, format?: SessionExportFormat): ImportedSession {
+  switch (format || detectFormat(content)) {
+    case 'cookies':
+      return parseCookiesTxt(content);
+    case 'har':
+      return parseHar(content);
+    case 'localstorage':
+      return parseLocalStorage(content);
+  }
+}
+
+/**
+ * Merge several parsed exports, e.g. a cookies.txt plus a localStorage dump
+ */
+export function mergeSessions(sessions: ImportedSession[]): ImportedSession {
+  const merged: ImportedSession = { teams: [] };
+
+  for (const session of sessions) {
+    merged.xoxd = session.xoxd || merged.xoxd;
+    for (const team of session.teams) {
+      const existing = merged.teams.find(
+        (t) => t.xoxc === team.xoxc || (!!team.teamId && t.teamId === team.teamId)
+      );
+      if (existing) {
+        Object.assign(existing, withoutUndefined(team));
+      } else {
+        merged.teams.push({ ...team });
+      }
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Netscape cookies.txt (as written by curl and "cookies.txt" browser extensions)
+ */
+export function parseCookiesTxt(content: string): ImportedSession {
+  let xoxd: string | undefined;
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    // Browsers prefix HttpOnly cookies (which d is) with "#HttpOnly_"
+    const line = rawLine.startsWith('#HttpOnly_') ? rawLine.slice('#HttpOnly_'.length) : rawLine;
+    if (!line.trim() || line.startsWith('#')) {
+      continue;
+    }
+
+    const fields = line.split('\t');
+    if (fields.length < 7) {
+      continue;
+    }
+
+    const [domain, , , , , name, value] = fields;
+    if (name === 'd' && isSlackHost(domain.replace(/^\./, ''))) {
+      xoxd = normalizeCookieValue(value.trim());
+    }
+  }
+
+  return { xoxd, teams: [] };
+}
+
+/**
+ * HAR capture of slack.com traffic (DevTools > Network > Save all as HAR)
+ */
+export function parseHar(content: string): ImportedSession {
+  const har = JSON.parse(content) as {
+    log?: { entries?: Array<{ request?: HarRequest }> };
+  };
+  const sessions: ImportedSession[] = [];
+
+  for (const entry of har.log?.entries || []) {
+    const request = entry.request;
+    if (!request?.url) {
+      continue;
+    }
+
+    let url: URL;
+    try {
+      url = new URL(request.url);
+    } catch {
+      continue;
+    }
+    if (!isSlackHost(url.hostname)) {
+      continue;
+    }
+
+    const session: ImportedSession = { xoxd: findHarCookie(request), teams: [] };
+
+    const xoxc = findHarToken(request, url);
+    if (xoxc) {
+      // slack_route is "T123" or "E456:T123" on web client API calls
+      const route = url.searchParams.get('slack_route') || '';
+      const teamId = route.split(':').find((part) => part.startsWith('T'));
+      const enterpriseId = route.split(':').find((part) => part.startsWith('E'));
+      const subdomain = url.hostname.split('.')[0];
+
+      session.teams.push({
+        xoxc,
+        teamId,
+        enterpriseId,
+        teamDomain:
+          url.hostname.endsWith('.slack.com') && !isSharedHost(subdomain) ? subdomain : undefined,
+      });
+    }
+
+    sessions.push(session);
+  }
+
+  return mergeSessions(sessions);
+}
+
+/**
+ * localStorage dump from the Slack web client.
+ * Accepts the whole storage object ({ "localConfig_v2": "<json>" , ...}),
+ * a [{ key, value }] array, or the localConfig_v2 value itself.
+ */
+export function parseLocalStorage(content: string): ImportedSession {
+  const parsed = JSON.parse(content);
+
+  let config: unknown = parsed;
+  if (Array.isArray(parsed)) {
+    config = parsed.find((item) => item?.key === 'localConfig_v2')?.value;
+  } else if (parsed && typeof parsed === 'object' && 'localConfig_v2' in parsed) {
+    config = parsed.localConfig_v2;
+  }
+  if (typeof config === 'string') {
+    config = JSON.parse(config);
+  }
+
+  const teams = (config as { teams?: Record<string, LocalConfigTeam> } | undefined)?.teams;
+  if (!teams || typeof teams !== 'object') {
+    throw new ConfigurationError(
+      'import',
+      'no localConfig_v2.teams entry found in localStorage dump'
+    );
+  }
+
+  return {
+    teams: Object.entries(teams)
+      .filter(([, team]) => typeof team?.token === 'string' && XOXC_PATTERN.test(team.token))
+      .map(([teamId, team]) => ({
+        xoxc: team.token,
+        teamId: team.id || teamId,
+        teamDomain: team.domain,
+        teamName: team.name,
+        enterpriseId: team.enterprise_id,
+      })),
+  };
+}
+
+interface HarRequest {
+  url: string;
+  headers?: Array<{ name: string; value: string }>;
+  cookies?: Array<{ name: string; value: string }>;
+  postData?: { text?: string; params?: Array<{ name: string; value?: string }> };
+}
+
+interface LocalConfigTeam {
+  id?: string;
+  token: string;
+  domain?: string;
+  name?: string;
+  enterprise_id?: string;
+}
+
+function findHarCookie(request: HarRequest): string | undefined {
+  const cookie = request.cookies?.find((c) => c.name === 'd');
+  if (cookie) {
+    return normalizeCookieValue(cookie.value);
+  }
+
+  const header = request.headers?.find((h) => h.name.toLowerCase() === 'cookie');
+  const match = header ? /(?:^|;\s*)d=([^;]+)/.exec(header.value) : null;
+  return match ? normalizeCookieValue(match[1]) : undefined;
+}
+
+function findHarToken(request: HarRequest, url: URL): string | undefined {
+  const candidates = [
+    url.searchParams.get('token'),
+    request.headers?.find((h) => h.name.toLowerCase() === 'authorization')?.value,
+    request.postData?.params?.find((p) => p.name === 'token')?.value,
+    request.postData?.text,
+  ];
+
+  for (const candidate of candidates) {
+    const match = candidate ? XOXC_PATTERN.exec(candidate) : null;
+    if (match) {
+      return match[0];
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Slack sends the d cookie URL-encoded; accept either form and keep the encoded one
+ */
+function normalizeCookieValue(value: string): string | undefined {
+  const decoded = safeDecode(value);
+  if (!decoded.startsWith('xoxd-')) {
+    return undefined;
+  }
+  return decoded === value ? encodeURIComponent(decoded) : value;
+}
+
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+function isSlackHost(host: string): boolean {
+  return host === 'slack.com' || host.endsWith('.slack.com');
+}
+
+function isSharedHost(subdomain: string): boolean {
+  return ['app', 'api', 'edgeapi', 'wss-primary', 'files', 'slack'].includes(subdomain);
+}
+
+function withoutUndefined<T extends object>(value: T): Partial<T> {
+  return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as Partial<T>;
+}
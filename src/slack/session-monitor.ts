@@ -0,0 +1,241 @@
+/**
+ * Slack Session Monitor
+ * Periodically checks browser sessions with auth.test and caches the identity
+ */
+
+import { SlackAuth, SlackTokens } from './auth.js';
+import { WorkspaceRegistry } from './workspaces.js';
+import { SessionExpiredError } from '../errors/index.js';
+import { config } from '../utils/config.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * - unknown: not checked yet
+ * - active: last auth.test succeeded
+ * - expired: Slack rejected the session (logged out, revoked, expired cookie)
+ * - unreachable: Slack could not be reached; the session may still be valid
+ */
+export type SessionState = 'unknown' | 'active' | 'expired' | 'unreachable';
+
+export interface SessionStatus {
+  workspace: string;
+  state: SessionState;
+  user?: {
+    id: string;
+    name: string;
+    team: string;
+    teamId: string;
+  };
+  checkedAt?: string;
+  lastActiveAt?: string;
+  error?: string;
+}
+
+export type SessionStateListener = (status: SessionStatus, previous: SessionState) => void;
+
+/**
+ * Slack error codes that mean the browser session is no longer usable
+ */
+const SESSION_ERRORS = new Set([
+  'invalid_auth',
+  'not_authed',
+  'account_inactive',
+  'token_revoked',
+  'token_expired',
+  'user_removed_from_team',
+  'team_access_not_granted',
+]);
+
+/**
+ * Tracks the health of every configured workspace session.
+ * Expired sessions fail fast with SessionExpiredError until a check succeeds
+ * again, which happens once refreshed tokens are saved to the credential store.
+ */
+export class SessionMonitor {
+  private static instance: SessionMonitor | null = null;
+
+  private statuses: Map<string, SessionStatus> = new Map();
+  private listeners: SessionStateListener[] = [];
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private checking: Promise<SessionStatus[]> | null = null;
+
+  constructor(private registry: WorkspaceRegistry = WorkspaceRegistry.getInstance()) {}
+
+  /**
+   * Get the shared monitor
+   */
+  static getInstance(): SessionMonitor {
+    if (!SessionMonitor.instance) {
+      SessionMonitor.instance = new SessionMonitor();
+    }
+    return SessionMonitor.instance;
+  }
+
+  /**
+   * Whether a Slack error code means the session is dead
+   */
+  static isSessionError(code: string | undefined): boolean {
+    return !!code && SESSION_ERRORS.has(code);
+  }
+
+  /**
+   * Re-check every workspace on an interval (0 disables checks).
+   * The startup check is done by SlackClientProvider.validate().
+   */
+  start(intervalMs: number = config.getSessionConfig().checkIntervalMs): void {
+    this.stop();
+
+    if (intervalMs > 0) {
+      this.timer = setInterval(() => {
+        this.checkAll().catch((error) => {
+          logger.warn('Periodic session check failed', {
+            error: error instanceof Error ? error.message : 'Unknown error',
+          });
+        });
+      }, intervalMs);
+      this.timer.unref();
+    }
+
+    logger.info('Session monitor started', { intervalMs });
+  }
+
+  /**
+   * Stop periodic checks
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Subscribe to state changes; returns an unsubscribe function
+   */
+  onStateChange(listener: SessionStateListener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter((l) => l !== listener);
+    };
+  }
+
+  /**
+   * Check every configured workspace (concurrent callers share one run)
+   */
+  checkAll(): Promise<SessionStatus[]> {
+    if (!this.checking) {
+      this.checking = this.runChecks().finally(() => {
+        this.checking = null;
+      });
+    }
+    return this.checking;
+  }
+
+  /**
+   * Check one workspace with auth.test
+   */
+  async check(workspace: string): Promise<SessionStatus> {
+    const entry = this.registry.resolve(workspace)!;
+    const result = await new SlackAuth().validateTokens(entry.tokens);
+    const now = new Date().toISOString();
+
+    if (result.success && result.user) {
+      this.registry.rememberTeamId(entry.name, result.user.teamId);
+      return this.update(entry.name, {
+        state: 'active',
+        user: result.user,
+        checkedAt: now,
+        lastActiveAt: now,
+        error: undefined,
+      });
+    }
+
+    const expired = SessionMonitor.isSessionError(result.errorCode);
+    return this.update(entry.name, {
+      state: expired ? 'expired' : 'unreachable',
+      checkedAt: now,
+      error: result.errorCode || result.error,
+    });
+  }
+
+  /**
+   * Get the cached status of a workspace
+   */
+  getStatus(workspace: string): SessionStatus {
+    return this.statuses.get(workspace) || { workspace, state: 'unknown' };
+  }
+
+  /**
+   * Get cached statuses for every configured workspace
+   */
+  getAllStatuses(): SessionStatus[] {
+    return this.registry.getNames().map((name) => this.getStatus(name));
+  }
+
+  /**
+   * Throw SessionExpiredError if the workspace's session is known to be dead
+   */
+  assertActive(workspace: string): void {
+    const status = this.statuses.get(workspace);
+    if (status?.state === 'expired') {
+      throw new SessionExpiredError(workspace, status.error || 'invalid_auth');
+    }
+  }
+
+  /**
+   * Record a session error seen on a regular API call, returning the affected workspace name
+   */
+  reportAuthFailure(tokens: SlackTokens, errorCode: string): string | null {
+    const entry = this.registry.findByToken(tokens.xoxc);
+    if (!entry) {
+      return null;
+    }
+
+    this.update(entry.name, {
+      state: 'expired',
+      checkedAt: new Date().toISOString(),
+      error: errorCode,
+    });
+    return entry.name;
+  }
+
+  private async runChecks(): Promise<SessionStatus[]> {
+    // Pick up refreshed tokens (e.g. from "auth import") before re-checking dead sessions
+    if (Array.from(this.statuses.values()).some((s) => s.state === 'expired')) {
+      this.registry.load();
+    }
+
+    const results: SessionStatus[] = [];
+    for (const name of this.registry.getNames()) {
+      results.push(await this.check(name));
+    }
+    return results;
+  }
+
+  private update(workspace: string, changes: Partial<SessionStatus>): SessionStatus {
+    const previous = this.getStatus(workspace);
+    const status: SessionStatus = { ...previous, ...changes, workspace };
+    this.statuses.set(workspace, status);
+
+    if (status.state !== previous.state) {
+      logger.log(status.state === 'active' ? 'info' : 'warn', 'Slack session state changed', {
+        workspace,
+        from: previous.state,
+        to: status.state,
+        error: status.error,
+      });
+
+      for (const listener of this.listeners) {
+        try {
+          listener(status, previous.state);
+        } catch (error) {
+          logger.warn('Session state listener failed', {
+            error: error instanceof Error ? error.message : 'Unknown error',
+          });
+        }
+      }
+    }
+
+    return status;
+  }
+}
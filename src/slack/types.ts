@@ -3,6 +3,31 @@
  * Type definitions for Slack API responses
  */
 
+import type { SlackAttachment, SlackBlock, SlackFile } from './schemas.js';
+
+// Models validated at runtime live in schemas.ts
+export type {
+  SlackAttachment,
+  SlackBlock,
+  SlackChannelInfo,
+  SlackConversationInfoResponse,
+  SlackEmojiListResponse,
+  SlackFile,
+  SlackFileInfoResponse,
+  SlackReaction,
+  SlackSearchFilesResponse,
+  SlackSearchInlineResponse,
+  SlackSearchItem,
+  SlackSearchMatch,
+  SlackSearchMessagesResponse,
+  SlackSearchModulesResponse,
+  SlackSearchPagination,
+  SlackUserInfo,
+  SlackUserInfoResponse,
+  SlackUserProfile,
+  SlackUserProfileResponse,
+} from './schemas.js';
+
 export interface SlackApiResponse {
   ok: boolean;
   error?: string;
@@ -31,6 +56,7 @@ export interface SlackChannel {
   name: string;
   is_channel?: boolean;
   is_private?: boolean;
+  is_mpim?: boolean;
   is_archived?: boolean;
   is_member?: boolean;
   topic?: {
@@ -64,6 +90,9 @@ export interface SlackMessage {
     users: string[];
   }>;
   reply_broadcast?: boolean;
+  blocks?: SlackBlock[];
+  attachments?: SlackAttachment[];
+  files?: SlackFile[];
 }
 
 export interface SlackConversationsListResponse extends SlackApiResponse {
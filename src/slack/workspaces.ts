@@ -0,0 +1,314 @@
+/**
+ * Slack Workspace Registry
+ * Named token sets for every workspace the server can act in
+ */
+
+import { existsSync, readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import type { SlackTokens } from './auth.js';
+import { ConfigurationError, WorkspaceNotFoundError } from '../errors/index.js';
+import { CredentialStore, CREDENTIALS_DIR } from '../security/credential-store.js';
+import { config } from '../utils/config.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * A configured workspace
+ */
+export interface WorkspaceEntry {
+  name: string;
+  tokens: SlackTokens;
+  source: 'store' | 'file' | 'environment';
+}
+
+/**
+ * Workspace file format (SLACK_WORKSPACES_FILE)
+ *
+ * {
+ *   "default": "acme",
+ *   "workspaces": {
+ *     "acme": { "xoxc": "xoxc-...", "xoxd": "xoxd-...", "teamDomain": "acme" },
+ *     "grid-eng": { "xoxc": "...", "xoxd": "...", "teamDomain": "bigco-eng",
+ *                   "teamId": "T0123", "enterpriseId": "E0456" }
+ *   }
+ * }
+ */
+export interface WorkspaceFile {
+  default?: string;
+  workspaces: Record<string, SlackTokens>;
+}
+
+export const DEFAULT_WORKSPACES_FILE = join(CREDENTIALS_DIR, 'workspaces.json');
+
+/**
+ * Registry of Slack workspaces. Sources in order of precedence:
+ * 1. The encrypted credential store
+ * 2. The plaintext workspace file
+ * 3. The SLACK_XOXC_TOKEN / SLACK_XOXD_TOKEN / SLACK_TEAM_DOMAIN environment triple
+ *
+ * Workspaces can be referenced by name, team domain or team ID, so a
+ * team_id taken from an earlier result can be passed back as-is.
+ */
+export class WorkspaceRegistry {
+  private static instance: WorkspaceRegistry | null = null;
+
+  private workspaces: Map<string, WorkspaceEntry> = new Map();
+  private defaultName: string | null = null;
+  private loaded = false;
+
+  constructor(
+    private filePath: string = WorkspaceRegistry.getFilePath(),
+    private store: CredentialStore = new CredentialStore()
+  ) {}
+
+  /**
+   * Get the shared registry
+   */
+  static getInstance(): WorkspaceRegistry {
+    if (!WorkspaceRegistry.instance) {
+      WorkspaceRegistry.instance = new WorkspaceRegistry();
+    }
+    return WorkspaceRegistry.instance;
+  }
+
+  /**
+   * Path of the workspace file (SLACK_WORKSPACES_FILE or the default location)
+   */
+  static getFilePath(): string {
+    return config.getSlackConfig().workspacesFile || DEFAULT_WORKSPACES_FILE;
+  }
+
+  /**
+   * Load (or reload) workspaces from every source
+   */
+  load(): void {
+    this.workspaces.clear();
+    this.defaultName = null;
+
+    let configuredDefault: string | undefined;
+    if (this.store.exists()) {
+      const stored = this.store.load();
+      configuredDefault = stored.default;
+      for (const [name, tokens] of Object.entries(stored.workspaces)) {
+        this.add(name, tokens, 'store');
+      }
+    }
+
+    if (existsSync(this.filePath)) {
+      const file = this.readFile();
+      configuredDefault = configuredDefault || file.default;
+      for (const [name, tokens] of Object.entries(file.workspaces)) {
+        this.add(name, tokens, 'file');
+      }
+    } else if (config.getSlackConfig().workspacesFile) {
+      throw new ConfigurationError('SLACK_WORKSPACES_FILE', `file not found: ${this.filePath}`);
+    }
+
+    const envTokens = this.readEnvironment();
+    if (envTokens) {
+      this.add(
+        config.getSlackConfig().workspaceName || envTokens.teamDomain,
+        envTokens,
+        'environment'
+      );
+    }
+
+    if (configuredDefault) {
+      if (!this.workspaces.has(configuredDefault)) {
+        throw new ConfigurationError('default', `unknown workspace "${configuredDefault}"`);
+      }
+      this.defaultName = configuredDefault;
+    } else {
+      const fromEnv = Array.from(this.workspaces.values()).find((w) => w.source === 'environment');
+      this.defaultName = fromEnv?.name || this.workspaces.keys().next().value || null;
+    }
+
+    this.loaded = true;
+
+    logger.info('Slack workspaces loaded', {
+      workspaces: this.getNames(),
+      default: this.defaultName,
+      store: this.store.exists() ? this.store.path : undefined,
+      file: existsSync(this.filePath) ? this.filePath : undefined,
+    });
+  }
+
+  /**
+   * Resolve a workspace reference, falling back to the default workspace.
+   * Returns null only when no reference is given and nothing is configured.
+   */
+  resolve(reference?: string): WorkspaceEntry | null {
+    this.ensureLoaded();
+
+    if (!reference) {
+      return this.defaultName ? this.workspaces.get(this.defaultName)! : null;
+    }
+
+    const byName = this.workspaces.get(reference);
+    if (byName) {
+      return byName;
+    }
+
+    for (const entry of this.workspaces.values()) {
+      if (entry.tokens.teamDomain === reference || entry.tokens.teamId === reference) {
+        return entry;
+      }
+    }
+
+    throw new WorkspaceNotFoundError(reference, this.getNames());
+  }
+
+  /**
+   * Add or replace a workspace in the credential store
+   */
+  saveWorkspace(name: string, tokens: SlackTokens, options: { makeDefault?: boolean } = {}): void {
+    this.store.upsert(name, tokens, options);
+    if (this.loaded) {
+      this.load();
+    }
+  }
+
+  /**
+   * Remove a workspace from the credential store
+   */
+  removeWorkspace(name: string): boolean {
+    const removed = this.store.remove(name);
+    if (removed && this.loaded) {
+      this.load();
+    }
+    return removed;
+  }
+
+  /**
+   * Get the credential store backing this registry
+   */
+  getStore(): CredentialStore {
+    return this.store;
+  }
+
+  /**
+   * Find the workspace that uses a given xoxc token
+   */
+  findByToken(xoxc: string): WorkspaceEntry | null {
+    this.ensureLoaded();
+    for (const entry of this.workspaces.values()) {
+      if (entry.tokens.xoxc === xoxc) {
+        return entry;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Record a team ID learned from auth.test
+   */
+  rememberTeamId(name: string, teamId: string): void {
+    const entry = this.workspaces.get(name);
+    if (entry && !entry.tokens.teamId) {
+      entry.tokens.teamId = teamId;
+    }
+  }
+
+  /**
+   * Get configured workspace names
+   */
+  getNames(): string[] {
+    this.ensureLoaded();
+    return Array.from(this.workspaces.keys());
+  }
+
+  /**
+   * Get the default workspace name
+   */
+  getDefaultName(): string | null {
+    this.ensureLoaded();
+    return this.defaultName;
+  }
+
+  /**
+   * List workspaces without secrets
+   */
+  list(): Array<{
+    name: string;
+    teamDomain: string;
+    teamId?: string;
+    enterpriseId?: string;
+    source: WorkspaceEntry['source'];
+    isDefault: boolean;
+  }> {
+    this.ensureLoaded();
+    return Array.from(this.workspaces.values()).map((entry) => ({
+      name: entry.name,
+      teamDomain: entry.tokens.teamDomain,
+      teamId: entry.tokens.teamId,
+      enterpriseId: entry.tokens.enterpriseId,
+      source: entry.source,
+      isDefault: entry.name === this.defaultName,
+    }));
+  }
+
+  private ensureLoaded(): void {
+    if (!this.loaded) {
+      this.load();
+    }
+  }
+
+  private add(name: string, tokens: SlackTokens, source: WorkspaceEntry['source']): void {
+    const existing = this.workspaces.get(name);
+    if (existing) {
+      logger.warn('Workspace defined more than once; keeping the first definition', {
+        workspace: name,
+        kept: existing.source,
+        ignored: source,
+      });
+      return;
+    }
+
+    if (!tokens || !tokens.xoxc || !tokens.xoxd || !tokens.teamDomain) {
+      throw new ConfigurationError(`workspaces.${name}`, 'xoxc, xoxd and teamDomain are required');
+    }
+    if (!tokens.xoxc.startsWith('xoxc-') || !tokens.xoxd.startsWith('xoxd-')) {
+      throw new ConfigurationError(`workspaces.${name}`, 'invalid token format');
+    }
+
+    this.workspaces.set(name, {
+      name,
+      tokens: {
+        xoxc: tokens.xoxc,
+        xoxd: tokens.xoxd,
+        teamDomain: tokens.teamDomain,
+        teamId: tokens.teamId,
+        enterpriseId: tokens.enterpriseId,
+      },
+      source,
+    });
+  }
+
+  private readFile(): WorkspaceFile {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(readFileSync(this.filePath, 'utf8'));
+    } catch (error) {
+      throw new ConfigurationError(
+        'SLACK_WORKSPACES_FILE',
+        `cannot read ${this.filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+
+    const file = parsed as Partial<WorkspaceFile> | null;
+    if (!file || typeof file.workspaces !== 'object' || file.workspaces === null) {
+      throw new ConfigurationError('SLACK_WORKSPACES_FILE', 'expected a "workspaces" object');
+    }
+
+    return { default: file.default, workspaces: file.workspaces };
+  }
+
+  private readEnvironment(): SlackTokens | null {
+    const { xoxcToken: xoxc, xoxdToken: xoxd, teamDomain } = config.getSlackConfig();
+
+    if (!xoxc || !xoxd || !teamDomain) {
+      return null;
+    }
+
+    return { xoxc, xoxd, teamDomain };
+  }
+}
@@ -0,0 +1,235 @@
+/**
+ * Approval Queue
+ * Writes held as pending actions until a human approves or rejects them
+ */
+
+import { randomUUID } from 'node:crypto';
+import { PendingActionNotFoundError } from '../errors/index.js';
+import type { JSONSchema, ToolContext, ToolExecutionResult } from '../types/tools.js';
+import type { ApprovalConfig } from '../utils/config.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * A tool call waiting for approval
+ */
+export interface PendingAction {
+  id: string;
+  tool: string;
+  args: Record<string, unknown>;
+  workspace?: string;
+  userId?: string; // Only the client that drafted an action may decide on it
+  preview: string;
+  createdAt: number;
+  expiresAt: number;
+}
+
+/**
+ * Run an approved action's tool call
+ */
+export type ApprovalCommit = (
+  action: PendingAction,
+  context: ToolContext
+) => Promise<ToolExecutionResult>;
+
+/**
+ * Result fields of a call that is waiting for approval, added to the
+ * outputSchema of every tool that needs approval
+ */
+export const PENDING_ACTION_PROPERTIES: Record<string, JSONSchema> = {
+  status: { type: 'string', enum: ['pending'], description: 'Set while the call awaits approval' },
+  action_id: { type: 'string', description: 'Pass to approve_action or reject_action' },
+  preview: { type: 'string', description: 'What the call will do once approved' },
+  expires_at: { type: 'string', description: 'When the pending action is discarded' },
+};
+
+/**
+ * Most lines of message text quoted in a preview
+ */
+const PREVIEW_LINES = 20;
+
+/**
+ * Holds calls to the configured tools until they are approved (and run) or
+ * rejected. Pending actions expire after the configured time and are then
+ * discarded; nothing is persisted across restarts.
+ */
+export class ApprovalQueue {
+  private actions: Map<string, PendingAction> = new Map();
+  private tools: Set<string>;
+
+  constructor(
+    private options: ApprovalConfig,
+    private commit: ApprovalCommit
+  ) {
+    this.tools = new Set(options.tools);
+  }
+
+  /**
+   * Whether calls to a tool wait for approval
+   */
+  requires(toolName: string): boolean {
+    return this.tools.has(toolName);
+  }
+
+  /**
+   * Hold a tool call for approval
+   */
+  add(toolName: string, args: Record<string, unknown>, context: ToolContext): PendingAction {
+    this.prune();
+
+    const now = Date.now();
+    const action: PendingAction = {
+      id: `act_${randomUUID().replace(/-/g, '').slice(0, 16)}`,
+      tool: toolName,
+      args,
+      workspace: context.workspace,
+      userId: context.userId,
+      preview: renderPreview(toolName, args),
+      createdAt: now,
+      expiresAt: now + this.options.ttlMs,
+    };
+    this.actions.set(action.id, action);
+
+    logger.info('Tool call held for approval', {
+      actionId: action.id,
+      toolName,
+      workspace: action.workspace,
+      traceId: context.traceId,
+      expiresAt: new Date(action.expiresAt).toISOString(),
+    });
+    return action;
+  }
+
+  /**
+   * Run a pending action. It leaves the queue first, so it runs at most once.
+   */
+  async approve(
+    actionId: string,
+    context: ToolContext
+  ): Promise<{ action: PendingAction; result: ToolExecutionResult }> {
+    const action = this.take(actionId, context);
+    logger.info('Pending action approved', {
+      actionId,
+      toolName: action.tool,
+      traceId: context.traceId,
+    });
+    return { action, result: await this.commit(action, context) };
+  }
+
+  /**
+   * Discard a pending action without running it
+   */
+  reject(actionId: string, context: ToolContext): PendingAction {
+    const action = this.take(actionId, context);
+    logger.info('Pending action rejected', {
+      actionId,
+      toolName: action.tool,
+      traceId: context.traceId,
+    });
+    return action;
+  }
+
+  /**
+   * The result returned in place of the tool's own while an action is pending
+   */
+  describe(action: PendingAction): Record<string, unknown> {
+    return {
+      status: 'pending',
+      action_id: action.id,
+      tool: action.tool,
+      workspace: action.workspace,
+      preview: action.preview,
+      expires_at: new Date(action.expiresAt).toISOString(),
+      next_step:
+        `Show the preview to the user. Call approve_action with action_id "${action.id}" ` +
+        'only once they approve; call reject_action if they do not.',
+    };
+  }
+
+  get size(): number {
+    this.prune();
+    return this.actions.size;
+  }
+
+  private take(actionId: string, context: ToolContext): PendingAction {
+    const action = this.actions.get(actionId);
+    if (!action || action.userId !== context.userId) {
+      throw new PendingActionNotFoundError(actionId, false, context.traceId);
+    }
+
+    this.actions.delete(actionId);
+    if (action.expiresAt <= Date.now()) {
+      throw new PendingActionNotFoundError(actionId, true, context.traceId);
+    }
+    return action;
+  }
+
+  private prune(): void {
+    const now = Date.now();
+    for (const [id, action] of this.actions) {
+      if (action.expiresAt <= now) {
+        this.actions.delete(id);
+        logger.info('Pending action expired', { actionId: id, toolName: action.tool });
+      }
+    }
+  }
+}
+
+/**
+ * Describe in plain words what a held call will do
+ */
+export function renderPreview(toolName: string, args: Record<string, any>): string {
+  const channel = args.channel ?? args.channel_id;
+  const thread = args.thread_ts ? ` as a reply in thread ${args.thread_ts}` : '';
+
+  switch (toolName) {
+    case 'post_message':
+      return `Post to ${channel}${thread}:\n${quote(args.text)}`;
+    case 'post_message_blocks':
+      return `Post a Block Kit message to ${channel}${thread}:\n${quoteBlocks(args)}`;
+    case 'update_message':
+      return `Replace message ${args.ts} in ${channel} with:\n${quote(args.text)}`;
+    case 'update_message_blocks':
+      return `Replace message ${args.ts} in ${channel} with Block Kit content:\n${quoteBlocks(args)}`;
+    case 'delete_message':
+      return `Delete message ${args.ts} in ${channel}`;
+    default:
+      return `Run ${toolName} with ${JSON.stringify(args)}`;
+  }
+}
+
+function quote(text: unknown): string {
+  const lines = (typeof text === 'string' && text ? text : '(no text)').split('\n');
+  const shown = lines.slice(0, PREVIEW_LINES).map((line) => `> ${line}`);
+  if (lines.length > PREVIEW_LINES) {
+    shown.push(`> … (${lines.length - PREVIEW_LINES} more lines)`);
+  }
+  return shown.join('\n');
+}
+
+/**
+ * Fallback text and the visible text of each block
+ */
+function quoteBlocks(args: Record<string, any>): string {
+  const blocks = parseBlocks(args.blocks);
+  const text = [args.text, ...blocks.map(blockText)].filter(Boolean).join('\n');
+  return `${quote(text)}\n(${blocks.length} blocks)`;
+}
+
+function parseBlocks(blocks: unknown): any[] {
+  try {
+    const parsed = typeof blocks === 'string' ? JSON.parse(blocks) : blocks;
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * The visible text of a header, section or context block
+ */
+function blockText(block: any): string {
+  const texts = [block?.text, ...(block?.fields || []), ...(block?.elements || [])]
+    .map((item) => (typeof item?.text === 'string' ? item.text : ''))
+    .filter(Boolean);
+  return texts.join(' ');
+}
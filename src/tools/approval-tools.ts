@@ -0,0 +1,140 @@
+import { BaseSlackTool } from './base.js';
+import { ApprovalQueue } from './approval-queue.js';
+import { SlackTool, ToolContext, ToolExecutionResult } from '../types/tools.js';
+import { MCPError } from '../errors/index.js';
+
+/**
+ * Arguments for approving or rejecting a pending action
+ */
+export interface PendingActionArgs {
+  action_id: string;
+}
+
+/**
+ * Tools that decide on pending actions
+ */
+export const APPROVAL_TOOL_NAMES = ['approve_action', 'reject_action'];
+
+const ACTION_ID_SCHEMA = {
+  type: 'object',
+  properties: {
+    action_id: {
+      type: 'string',
+      description: 'ID of the pending action, from the result of the held call',
+    },
+  },
+  required: ['action_id'],
+};
+
+/**
+ * Tool that carries out a pending action once the user has approved it
+ * Only registered when approval mode is on
+ */
+export class ApproveActionTool extends BaseSlackTool {
+  constructor(private queue: ApprovalQueue) {
+    const definition: SlackTool = {
+      name: 'approve_action',
+      description:
+        'Carry out a pending action (a message post, edit or deletion held for approval). ' +
+        'Only call this after the user has seen the preview and explicitly approved it.',
+      category: 'system',
+      action: 'POST',
+      requiresAuth: false, // The held call checks its own workspace session
+      annotations: { destructiveHint: true, openWorldHint: true }, // It may edit or delete messages
+      inputSchema: ACTION_ID_SCHEMA,
+      outputSchema: {
+        type: 'object',
+        properties: {
+          status: { type: 'string', enum: ['committed'] },
+          action_id: { type: 'string' },
+          tool: { type: 'string', description: 'Tool the held call ran' },
+          result: { type: 'object', description: 'Result of the held call' },
+        },
+        required: ['status', 'action_id', 'tool'],
+      },
+    };
+
+    super(definition);
+  }
+
+  protected async executeImpl(
+    args: PendingActionArgs,
+    context: ToolContext
+  ): Promise<ToolExecutionResult> {
+    let approved: Awaited<ReturnType<ApprovalQueue['approve']>>;
+    try {
+      approved = await this.queue.approve(args.action_id, context);
+    } catch (error) {
+      if (error instanceof MCPError) {
+        return this.createErrorResult(error.getUserMessage(), error.code);
+      }
+      throw error;
+    }
+
+    const { action, result } = approved;
+    if (!result.success) {
+      return this.createErrorResult(
+        `Approved action ${args.action_id} failed: ${result.error || 'Unknown error'}`,
+        result.errorCode
+      );
+    }
+    return this.createSuccessResult({
+      status: 'committed',
+      action_id: args.action_id,
+      tool: action.tool,
+      result: result.data,
+    });
+  }
+}
+
+/**
+ * Tool that discards a pending action without carrying it out
+ * Only registered when approval mode is on
+ */
+export class RejectActionTool extends BaseSlackTool {
+  constructor(private queue: ApprovalQueue) {
+    const definition: SlackTool = {
+      name: 'reject_action',
+      description:
+        'Discard a pending action (a message post, edit or deletion held for approval) ' +
+        'without carrying it out.',
+      category: 'system',
+      action: 'POST',
+      requiresAuth: false,
+      annotations: { destructiveHint: false, idempotentHint: true, openWorldHint: false },
+      inputSchema: ACTION_ID_SCHEMA,
+      outputSchema: {
+        type: 'object',
+        properties: {
+          status: { type: 'string', enum: ['rejected'] },
+          action_id: { type: 'string' },
+          tool: { type: 'string', description: 'Tool the discarded call would have run' },
+          preview: { type: 'string' },
+        },
+        required: ['status', 'action_id', 'tool'],
+      },
+    };
+
+    super(definition);
+  }
+
+  protected async executeImpl(
+    args: PendingActionArgs,
+    context: ToolContext
+  ): Promise<ToolExecutionResult> {
+    try {
+      const action = this.queue.reject(args.action_id, context);
+      return this.createSuccessResult({
+        status: 'rejected',
+        action_id: action.id,
+        tool: action.tool,
+        preview: action.preview,
+      });
+    } catch (error) {
+      if (error instanceof MCPError) {
+        return this.createErrorResult(error.getUserMessage(), error.code);
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,141 @@
+import { BaseSlackTool } from './base.js';
+import { SlackTool, ToolContext, ToolExecutionResult } from '../types/tools.js';
+import { AUDIT_OUTCOMES, AuditLog, AuditOutcome, parseAuditTime } from '../security/audit-log.js';
+import { MCPError } from '../errors/index.js';
+
+/**
+ * Arguments for querying the audit log
+ */
+export interface QueryAuditLogArgs {
+  since?: string; // ISO date, or a time ago such as "7d"
+  until?: string;
+  tool?: string;
+  channel?: string;
+  outcome?: AuditOutcome;
+  contains?: string;
+  limit?: number;
+}
+
+/**
+ * Tool for answering "what did the assistant post, edit or delete" from the
+ * audit log, across rotated files
+ */
+export class QueryAuditLogTool extends BaseSlackTool {
+  constructor(private log: AuditLog = AuditLog.getInstance()) {
+    const definition: SlackTool = {
+      name: 'query_audit_log',
+      description:
+        'Search the audit log of every post, edit, deletion and reaction made through this server, newest first. ' +
+        'Use it to answer questions like "what did the assistant post last week" (since: "7d", tool: "post_message").',
+      category: 'system',
+      action: 'GET',
+      requiresAuth: false,
+      annotations: { openWorldHint: false },
+      inputSchema: {
+        type: 'object',
+        properties: {
+          since: {
+            type: 'string',
+            description:
+              'Only entries from this time on: an ISO date, or a time ago such as 7d, 12h or 30m',
+          },
+          until: {
+            type: 'string',
+            description: 'Only entries before this time, in the same formats as since',
+          },
+          tool: {
+            type: 'string',
+            description: 'Only calls to this tool, e.g. post_message',
+          },
+          channel: {
+            type: 'string',
+            description: 'Only calls in this channel (ID, or the channel as it was given)',
+          },
+          outcome: {
+            type: 'string',
+            enum: AUDIT_OUTCOMES,
+            description: 'Only calls with this outcome',
+          },
+          contains: {
+            type: 'string',
+            description: 'Only calls whose arguments contain this text (case-insensitive)',
+          },
+          limit: {
+            type: 'number',
+            minimum: 1,
+            maximum: 500,
+            default: 50,
+            description: 'Most entries to return (default: 50)',
+          },
+        },
+        required: [],
+      },
+      outputSchema: {
+        type: 'object',
+        properties: {
+          entries: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                timestamp: { type: 'string' },
+                trace_id: { type: 'string' },
+                tool: { type: 'string' },
+                outcome: { type: 'string', enum: AUDIT_OUTCOMES },
+                via: { type: 'string' },
+                action_id: { type: 'string' },
+                workspace: { type: 'string' },
+                client_id: { type: 'string' },
+                slack_user: { type: 'string' },
+                channel: { type: 'string' },
+                ts: { type: 'string' },
+                permalink: { type: 'string' },
+                args: { type: 'object' },
+                error: { type: 'string' },
+              },
+              required: ['timestamp', 'tool', 'outcome', 'args'],
+            },
+          },
+          total: {
+            type: 'number',
+            description: 'Matching entries, including those past the limit',
+          },
+        },
+        required: ['entries', 'total'],
+      },
+    };
+
+    super(definition);
+  }
+
+  protected async executeImpl(
+    args: QueryAuditLogArgs,
+    _context: ToolContext
+  ): Promise<ToolExecutionResult> {
+    if (!this.log.enabled) {
+      return this.createErrorResult(
+        'The audit log is turned off (SLACK_AUDIT_LOG=false or audit: false in the profile)',
+        'AUDIT_LOG_DISABLED'
+      );
+    }
+
+    try {
+      return this.createSuccessResult(
+        this.log.query({
+          since: args.since ? parseAuditTime(args.since, 'since') : undefined,
+          until: args.until ? parseAuditTime(args.until, 'until') : undefined,
+          tool: args.tool,
+          channel: args.channel,
+          outcome: args.outcome,
+          contains: args.contains,
+          limit: Math.min(Math.max(args.limit ?? 50, 1), 500),
+        })
+      );
+    } catch (error) {
+      if (error instanceof MCPError) {
+        return this.createErrorResult(error.getUserMessage(), error.code);
+      }
+      throw error;
+    }
+  }
+}
@@ -1,5 +1,8 @@
 import { SlackTool, ToolCategory, ToolContext, ToolExecutionResult, ToolValidationResult, ToolHandler } from '../types/tools.js';
+import { SlackClient } from '../slack/client.js';
+import { SlackClientProvider } from '../slack/client-provider.js';
 import { logger } from '../utils/logger.js';
+import { MCPError } from '../errors/index.js';
 
 /**
  * Base abstract class for all Slack tools
@@ -64,7 +67,7 @@ export abstract class BaseSlackTool implements ToolHandler {
       return {
         success: false,
         error: error instanceof Error ? error.message : 'Unknown error',
-        errorCode: 'EXECUTION_ERROR',
+        errorCode: error instanceof MCPError ? error.code : 'EXECUTION_ERROR',
         metadata: {
           executionTime: Date.now() - startTime,
           apiCalls: 0,
@@ -110,6 +113,18 @@ export abstract class BaseSlackTool implements ToolHandler {
     this.metrics.set(key, (this.metrics.get(key) || 0) + value);
   }
 
+  /**
+   * Get the shared Slack client for the call's workspace, bound to the call's cancellation signal.
+   * In a dry run, calls that would change Slack are recorded instead of sent.
+   */
+  protected getSlackClient(context: ToolContext): SlackClient {
+    const provider = context.slackClients || SlackClientProvider.getInstance();
+    return provider
+      .getClient(context.workspace)
+      .withSignal(context.signal)
+      .withDryRun(context.dryRun);
+  }
+
   /**
    * Helper method to create successful result
    */
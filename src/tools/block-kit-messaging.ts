@@ -4,8 +4,6 @@
  */
 
 import { BaseSlackTool } from './base.js';
-import { SlackAuth } from '../slack/auth.js';
-import { SlackClient } from '../slack/client.js';
 import { logger } from '../utils/logger.js';
 import { ToolContext, ToolExecutionResult, SlackTool } from '../types/tools.js';
 
@@ -103,6 +101,17 @@ Returns message with timestamp for further operations (reactions, updates, threa
         },
         required: ['channel', 'blocks'],
       },
+      outputSchema: {
+        type: 'object',
+        properties: {
+          success: { type: 'boolean' },
+          channel: { type: 'string', description: 'Channel ID the message was posted to' },
+          ts: { type: 'string', description: 'Message timestamp' },
+          message_type: { type: 'string', enum: ['block_kit'] },
+          blocks_count: { type: 'number', description: 'Number of blocks posted' },
+        },
+        required: ['channel', 'ts', 'blocks_count'],
+      },
     };
     super(definition);
   }
@@ -120,18 +129,8 @@ Returns message with timestamp for further operations (reactions, updates, threa
     });
 
     try {
-      // Initialize Slack client
-      const auth = new SlackAuth();
-      const tokens = auth.extractTokensFromEnvironment();
-      if (!tokens) {
-        return this.createErrorResult(
-          'Slack authentication required for Block Kit messaging operations.',
-          'AUTH_REQUIRED',
-          { executionTime: Date.now() - startTime, apiCalls: 0, cacheHits: 0 }
-        );
-      }
-
-      const client = new SlackClient(tokens);
+      // Shared client for the selected workspace
+      const client = this.getSlackClient(context);
 
       // Parse blocks from JSON string
       let blocks: any[];
@@ -396,6 +395,17 @@ Returns updated message confirmation with optimization for response size.`,
         },
         required: ['channel', 'ts', 'blocks'],
       },
+      outputSchema: {
+        type: 'object',
+        properties: {
+          success: { type: 'boolean' },
+          channel: { type: 'string', description: 'Channel ID of the message' },
+          ts: { type: 'string', description: 'Timestamp of the updated message' },
+          update_type: { type: 'string', enum: ['block_kit'] },
+          blocks_count: { type: 'number', description: 'Number of blocks in the message' },
+        },
+        required: ['channel', 'ts', 'blocks_count'],
+      },
     };
     super(definition);
   }
@@ -410,18 +420,8 @@ Returns updated message confirmation with optimization for response size.`,
     });
 
     try {
-      // Initialize Slack client
-      const auth = new SlackAuth();
-      const tokens = auth.extractTokensFromEnvironment();
-      if (!tokens) {
-        return this.createErrorResult(
-          'Slack authentication required for Block Kit message update operations.',
-          'AUTH_REQUIRED',
-          { executionTime: Date.now() - startTime, apiCalls: 0, cacheHits: 0 }
-        );
-      }
-
-      const client = new SlackClient(tokens);
+      // Shared client for the selected workspace
+      const client = this.getSlackClient(context);
 
       // Parse blocks from JSON string
       let blocks: any[];
@@ -4,10 +4,9 @@
  */
 
 import { BaseSlackTool } from './base.js';
-import { SlackAuth } from '../slack/auth.js';
-import { SlackClient } from '../slack/client.js';
 import { logger } from '../utils/logger.js';
 import { ToolContext, ToolExecutionResult, SlackTool } from '../types/tools.js';
+import { collect } from '../slack/pagination.js';
 
 /**
  * GetThreadRepliesTool - Get thread replies using conversations.replies API
@@ -27,38 +26,27 @@ export class GetThreadRepliesTool extends BaseSlackTool {
     });
 
     try {
-      // Initialize Slack client
-      const auth = new SlackAuth();
-      const tokens = auth.extractTokensFromEnvironment();
-      if (!tokens) {
-        return this.createErrorResult(
-          'Slack authentication required. Please set SLACK_XOXC_TOKEN and SLACK_XOXD_TOKEN environment variables.',
-          'AUTH_REQUIRED',
-          { executionTime: Date.now() - startTime, apiCalls: 0, cacheHits: 0 }
-        );
-      }
-
-      const client = new SlackClient(tokens);
-
-      // Call conversations.replies API
-      const response = await client.getConversationReplies(args.channel, args.ts, {
-        inclusive: args.inclusive !== false,
-        limit: args.limit || 28,
-        oldest: args.oldest,
-      });
-
-      if (!response.ok || !response.messages) {
-        return this.createErrorResult(
-          `Failed to get thread replies: ${response.error}`,
-          'API_ERROR',
-          { executionTime: Date.now() - startTime, apiCalls: 1, cacheHits: 0 }
-        );
-      }
+      // Shared client for the selected workspace
+      const client = this.getSlackClient(context);
+
+      // Page through conversations.replies up to the limit; one extra message shows whether more remain
+      const limit = args.limit || 28;
+      const fetched = await collect(
+        client.iterateReplies(args.channel, args.ts, {
+          inclusive: args.inclusive !== false,
+          oldest: args.oldest,
+          pageSize: Math.min(limit + 1, 1000),
+          maxItems: limit + 1,
+          onPage: (_pages, items) =>
+            context.reportProgress?.(Math.min(items, limit), limit, `Fetched ${items} messages`),
+        })
+      );
+      const messages = fetched.slice(0, limit);
 
       // Sprint 7.2: Optimize thread replies response (60-65% reduction)
       // Remove: blocks, client_msg_id, subscribed, is_locked, metadata
       // Keep: text, user, ts, thread_ts, reactions
-      const optimizedMessages = response.messages.map((message: any) => ({
+      const optimizedMessages = messages.map((message: any) => ({
         user: message.user,
         ts: message.ts,
         text: message.text || '',
@@ -74,7 +62,7 @@ export class GetThreadRepliesTool extends BaseSlackTool {
       logger.info('Thread replies retrieved and optimized', {
         channel: args.channel,
         thread_ts: args.ts,
-        original_count: response.messages.length,
+        original_count: messages.length,
         optimized_count: optimizedMessages.length,
         optimization: 'Sprint 7.2 - 60-65% size reduction',
       });
@@ -85,7 +73,7 @@ export class GetThreadRepliesTool extends BaseSlackTool {
           thread_ts: args.ts,
           messages: optimizedMessages,
           reply_count: optimizedMessages.length,
-          has_more: response.response_metadata?.next_cursor ? true : false,
+          has_more: fetched.length > limit,
           // Removed: detailed metadata (api_endpoint, inclusive, limit_requested)
         },
         {
@@ -127,18 +115,8 @@ export class SearchChannelMessagesTool extends BaseSlackTool {
     });
 
     try {
-      // Initialize Slack client
-      const auth = new SlackAuth();
-      const tokens = auth.extractTokensFromEnvironment();
-      if (!tokens) {
-        return this.createErrorResult(
-          'Slack authentication required for search operations.',
-          'AUTH_REQUIRED',
-          { executionTime: Date.now() - startTime, apiCalls: 0, cacheHits: 0 }
-        );
-      }
-
-      const client = new SlackClient(tokens);
+      // Shared client for the selected workspace
+      const client = this.getSlackClient(context);
 
       // Call search.inline API
       const searchParams = {
@@ -215,18 +193,8 @@ export class SearchMessagesTool extends BaseSlackTool {
     });
 
     try {
-      // Initialize Slack client
-      const auth = new SlackAuth();
-      const tokens = auth.extractTokensFromEnvironment();
-      if (!tokens) {
-        return this.createErrorResult(
-          'Slack authentication required for advanced search.',
-          'AUTH_REQUIRED',
-          { executionTime: Date.now() - startTime, apiCalls: 0, cacheHits: 0 }
-        );
-      }
-
-      const client = new SlackClient(tokens);
+      // Shared client for the selected workspace
+      const client = this.getSlackClient(context);
 
       // Call search.modules.messages API
       const searchParams = {
@@ -309,49 +277,25 @@ export class ListWorkspaceChannelsTool extends BaseSlackTool {
     });
 
     try {
-      // Initialize Slack client
-      const auth = new SlackAuth();
-      const tokens = auth.extractTokensFromEnvironment();
-      if (!tokens) {
-        return this.createErrorResult(
-          'Slack authentication required for workspace access.',
-          'AUTH_REQUIRED',
-          { executionTime: Date.now() - startTime, apiCalls: 0, cacheHits: 0 }
-        );
-      }
-
-      const client = new SlackClient(tokens);
-
-      // Get channels list with options to get full response
-      const response = await client.getChannels({
-        exclude_archived: !args.include_archived,
-        types: args.include_private ? 'public_channel,private_channel' : 'public_channel',
-        limit: args.limit || 100,
-        cursor: args.cursor,
-      });
-
-      // Handle the union type - when options are passed, we get the full response object
-      if (Array.isArray(response)) {
-        // This shouldn't happen when we pass options, but handle it just in case
-        return this.createErrorResult('Unexpected response format from channels API', 'API_ERROR', {
-          executionTime: Date.now() - startTime,
-          apiCalls: 1,
-          cacheHits: 0,
-        });
-      }
-
-      if (!response.ok || !response.channels) {
-        return this.createErrorResult(
-          `Failed to retrieve channels: ${response.error}`,
-          'API_ERROR',
-          { executionTime: Date.now() - startTime, apiCalls: 1, cacheHits: 0 }
-        );
-      }
+      // Shared client for the selected workspace
+      const client = this.getSlackClient(context);
+
+      // Page through conversations.list; pages often hold fewer channels than requested
+      const channels = await collect(
+        client.iterateChannels({
+          exclude_archived: !args.include_archived,
+          types: args.include_private ? 'public_channel,private_channel' : 'public_channel',
+          maxItems: args.limit || 100,
+          cursor: args.cursor,
+          onPage: (_pages, items) =>
+            context.reportProgress?.(items, args.limit || 100, `Fetched ${items} channels`),
+        })
+      );
 
       // Sprint 7.2: Optimize channel response (60-65% reduction)
       // Remove: properties, topic, purpose, metadata, locale, num_members
       // Keep: id, name, is_private, is_archived, is_member, created
-      const optimizedChannels = response.channels.map((channel: any) => ({
+      const optimizedChannels = channels.map((channel: any) => ({
         id: channel.id,
         name: channel.name,
         is_private: channel.is_private || false,
@@ -361,7 +305,7 @@ export class ListWorkspaceChannelsTool extends BaseSlackTool {
       }));
 
       logger.info('Workspace channels retrieved and optimized', {
-        total_channels: response.channels.length,
+        total_channels: channels.length,
         optimized_channels: optimizedChannels.length,
         include_private: args.include_private || false,
         include_archived: args.include_archived || false,
@@ -418,53 +362,30 @@ export class ListWorkspaceUsersTool extends BaseSlackTool {
     });
 
     try {
-      // Initialize Slack client
-      const auth = new SlackAuth();
-      const tokens = auth.extractTokensFromEnvironment();
-      if (!tokens) {
-        return this.createErrorResult(
-          'Slack authentication required for workspace access.',
-          'AUTH_REQUIRED',
-          { executionTime: Date.now() - startTime, apiCalls: 0, cacheHits: 0 }
-        );
-      }
+      // Shared client for the selected workspace
+      const client = this.getSlackClient(context);
 
-      const client = new SlackClient(tokens);
+      // Page through users.list, filtering as we go so the limit counts matching users
+      const limit = args.limit || 100;
+      const filteredUsers: any[] = [];
+      let scannedUsers = 0;
 
-      // Get users list with options to get full response
-      const response = await client.getUsers({
+      const users = client.iterateUsers({
         include_locale: true,
-        limit: args.limit || 100,
         cursor: args.cursor,
+        onPage: (_pages, items) =>
+          context.reportProgress?.(items, undefined, `Scanned ${items} users`),
       });
 
-      // Handle the union type - when options are passed, we get the full response object
-      if (Array.isArray(response)) {
-        // This shouldn't happen when we pass options, but handle it just in case
-        return this.createErrorResult('Unexpected response format from users API', 'API_ERROR', {
-          executionTime: Date.now() - startTime,
-          apiCalls: 1,
-          cacheHits: 0,
-        });
-      }
-
-      if (!response.ok || !response.members) {
-        return this.createErrorResult(`Failed to retrieve users: ${response.error}`, 'API_ERROR', {
-          executionTime: Date.now() - startTime,
-          apiCalls: 1,
-          cacheHits: 0,
-        });
-      }
-
-      // Filter users based on parameters
-      let filteredUsers = response.members;
-
-      if (!args.include_deleted) {
-        filteredUsers = filteredUsers.filter((user: any) => !user.deleted);
-      }
-
-      if (!args.include_bots) {
-        filteredUsers = filteredUsers.filter((user: any) => !user.is_bot);
+      for await (const user of users) {
+        scannedUsers++;
+        if ((!args.include_deleted && user.deleted) || (!args.include_bots && user.is_bot)) {
+          continue;
+        }
+        filteredUsers.push(user);
+        if (filteredUsers.length >= limit) {
+          break;
+        }
       }
 
       // Sprint 7.2: Optimize user response (65-80% reduction)
@@ -482,7 +403,7 @@ export class ListWorkspaceUsersTool extends BaseSlackTool {
       }));
 
       logger.info('Workspace users retrieved and optimized', {
-        total_users: response.members.length,
+        total_users: scannedUsers,
         filtered_users: filteredUsers.length,
         optimized_users: optimizedUsers.length,
         include_bots: args.include_bots || false,
@@ -494,7 +415,7 @@ export class ListWorkspaceUsersTool extends BaseSlackTool {
         {
           users: optimizedUsers,
           user_count: optimizedUsers.length,
-          total_count: response.members.length,
+          total_count: scannedUsers,
           filters: {
             include_bots: args.include_bots || false,
             include_deleted: args.include_deleted || false,
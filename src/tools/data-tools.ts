@@ -30,6 +30,7 @@ Perfect companion tool for comprehensive information analysis:
 Returns complete threaded conversations with all replies, user information, timestamps, and message formatting - 
 perfect for generating comprehensive summaries, extracting decisions, tracking project progress, and understanding discussion context.`,
       category: ToolCategory.CONVERSATIONS,
+      action: 'GET',
       inputSchema: {
         type: 'object',
         properties: {
@@ -66,6 +67,36 @@ perfect for generating comprehensive summaries, extracting decisions, tracking p
         },
         required: ['channel', 'ts']
       },
+      outputSchema: {
+        type: 'object',
+        properties: {
+          channel: { type: 'string' },
+          thread_ts: { type: 'string' },
+          messages: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                user: { type: 'string', description: 'User ID of the author' },
+                ts: { type: 'string' },
+                text: { type: 'string' },
+                thread_ts: { type: 'string' },
+                reactions: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: { name: { type: 'string' }, count: { type: 'number' } }
+                  }
+                }
+              },
+              required: ['ts', 'text']
+            }
+          },
+          reply_count: { type: 'number', description: 'Number of messages returned' },
+          has_more: { type: 'boolean', description: 'More messages exist beyond limit' }
+        },
+        required: ['channel', 'thread_ts', 'messages', 'reply_count', 'has_more']
+      },
       requiresAuth: true,
       rateLimit: { maxCalls: 50, windowMs: 60000 }
     };
@@ -196,6 +227,7 @@ perfect for generating comprehensive summaries, extracting decisions, tracking p
       name: 'list_workspace_channels',
       description: 'List all accessible channels in the Slack workspace',
       category: ToolCategory.CHANNELS,
+      action: 'GET',
       inputSchema: {
         type: 'object',
         properties: {
@@ -222,6 +254,29 @@ perfect for generating comprehensive summaries, extracting decisions, tracking p
           }
         }
       },
+      outputSchema: {
+        type: 'object',
+        properties: {
+          channels: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                id: { type: 'string' },
+                name: { type: 'string' },
+                is_private: { type: 'boolean' },
+                is_archived: { type: 'boolean' },
+                is_member: { type: 'boolean' },
+                created: { type: 'number', description: 'Unix time the channel was created' }
+              },
+              required: ['id', 'name']
+            }
+          },
+          channel_count: { type: 'number' },
+          filters: { type: 'object' }
+        },
+        required: ['channels', 'channel_count']
+      },
       requiresAuth: true,
       rateLimit: { maxCalls: 10, windowMs: 60000 }
     };
@@ -235,6 +290,7 @@ perfect for generating comprehensive summaries, extracting decisions, tracking p
       name: 'list_workspace_users',
       description: 'List all users in the Slack workspace',
       category: ToolCategory.USERS,
+      action: 'GET',
       inputSchema: {
         type: 'object',
         properties: {
@@ -261,6 +317,33 @@ perfect for generating comprehensive summaries, extracting decisions, tracking p
           }
         }
       },
+      outputSchema: {
+        type: 'object',
+        properties: {
+          users: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                id: { type: 'string' },
+                name: { type: 'string' },
+                display_name: { type: 'string' },
+                real_name: { type: 'string' },
+                is_admin: { type: 'boolean' },
+                is_owner: { type: 'boolean' },
+                is_bot: { type: 'boolean' },
+                deleted: { type: 'boolean' }
+              },
+              required: ['id', 'name']
+            }
+          },
+          user_count: { type: 'number' },
+          total_count: { type: 'number', description: 'Users scanned, including filtered ones' },
+          filters: { type: 'object' }
+        },
+        required: ['users', 'user_count']
+      },
+      timeoutMs: 120000, // Filtering can mean scanning users.list, a Tier 2 method, page by page
       requiresAuth: true,
       rateLimit: { maxCalls: 10, windowMs: 60000 }
     };
@@ -0,0 +1,218 @@
+/**
+ * Dry Runs
+ * Calls to write tools that report the Slack calls they would make instead of making them
+ */
+
+import type { DryRunCall } from '../slack/client.js';
+import { DirectorySnapshot, SlackDirectory } from '../slack/directory.js';
+import type { JSONSchema } from '../types/tools.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Result fields of a dry run, added to the outputSchema of every write tool
+ */
+export const DRY_RUN_PROPERTIES: Record<string, JSONSchema> = {
+  dry_run: { type: 'boolean', description: 'Set when nothing was sent to Slack' },
+  calls: {
+    type: 'array',
+    description: 'Slack API calls the tool would make, in order, with their payloads',
+    items: {
+      type: 'object',
+      properties: { method: { type: 'string' }, payload: { type: 'object' } },
+      required: ['method', 'payload'],
+    },
+  },
+  resolved: {
+    type: 'object',
+    description: 'The channels and users the calls refer to, as Slack knows them',
+  },
+  warnings: {
+    type: 'array',
+    items: { type: 'string' },
+    description: 'Reasons the real call would likely fail',
+  },
+};
+
+const CHANNEL_ID_PATTERN = /^[CGD][A-Z0-9]{2,}$/;
+const USER_ID_PATTERN = /^[UW][A-Z0-9]{2,}$/;
+const MENTION_PATTERN = /<@([UW][A-Z0-9]{2,})(?:\|[^>]*)?>/g;
+
+interface ResolvedChannel {
+  reference: string; // As given to the tool
+  id?: string;
+  name?: string;
+  type?: 'public' | 'private' | 'mpim' | 'im';
+  is_member?: boolean;
+  is_archived?: boolean;
+}
+
+interface ResolvedUser {
+  reference: string;
+  id?: string;
+  name?: string;
+  real_name?: string;
+  is_bot?: boolean;
+  deleted?: boolean;
+}
+
+/**
+ * Turns the result of a dry run into a report of the calls it recorded, with
+ * the channels and users they name looked up in the workspace directory, and
+ * warnings for targets the real call would trip over.
+ */
+export class DryRunReporter {
+  constructor(private directory: SlackDirectory = SlackDirectory.getInstance()) {}
+
+  async report(
+    data: unknown,
+    calls: DryRunCall[],
+    args: Record<string, unknown>,
+    workspace?: string
+  ): Promise<Record<string, unknown>> {
+    const warnings: string[] = [];
+    let snapshot: DirectorySnapshot | undefined;
+    try {
+      snapshot = await this.directory.get(workspace);
+    } catch (error) {
+      warnings.push(
+        `Channel and user names could not be looked up (${error instanceof Error ? error.message : 'Unknown error'})`
+      );
+    }
+
+    const channels = this.channelReferences(args, calls).map((reference) =>
+      this.resolveChannel(reference, snapshot, warnings)
+    );
+    const users = this.userReferences(args, calls).map((reference) =>
+      this.resolveUser(reference, snapshot, warnings)
+    );
+
+    logger.info('Dry run completed', {
+      workspace,
+      calls: calls.map((call) => call.method),
+      warnings: warnings.length,
+    });
+
+    return {
+      dry_run: true,
+      ...(data && typeof data === 'object' && !Array.isArray(data) ? data : { result: data }),
+      calls,
+      resolved: { channels, users },
+      ...(warnings.length > 0 && { warnings }),
+    };
+  }
+
+  /**
+   * Channels named by the tool's arguments and by the recorded calls
+   */
+  private channelReferences(args: Record<string, unknown>, calls: DryRunCall[]): string[] {
+    const references = [
+      args.channel,
+      args.channel_id,
+      ...calls.map((call) => call.payload.channel),
+    ];
+    return unique(
+      references.filter(
+        (value): value is string =>
+          typeof value === 'string' && !!value.trim() && !USER_ID_PATTERN.test(value.trim())
+      )
+    );
+  }
+
+  /**
+   * Users named as arguments, as DM channels, or mentioned in message text
+   */
+  private userReferences(args: Record<string, unknown>, calls: DryRunCall[]): string[] {
+    const references = [args.user, args.user_id];
+    const ids = [args.channel, args.channel_id];
+    for (const call of calls) {
+      ids.push(call.payload.channel);
+      for (const text of [call.payload.text, call.payload.blocks]) {
+        if (typeof text === 'string') {
+          ids.push(...Array.from(text.matchAll(MENTION_PATTERN), (match) => match[1]));
+        }
+      }
+    }
+    references.push(
+      ...ids.filter((value) => typeof value === 'string' && USER_ID_PATTERN.test(value.trim()))
+    );
+    return unique(
+      references.filter((value): value is string => typeof value === 'string' && !!value.trim())
+    );
+  }
+
+  private resolveChannel(
+    reference: string,
+    snapshot: DirectorySnapshot | undefined,
+    warnings: string[]
+  ): ResolvedChannel {
+    const value = reference.trim().replace(/^#/, '');
+    if (!snapshot) {
+      return { reference };
+    }
+
+    const channel = snapshot.channels.find(
+      (candidate) => candidate.id === value || candidate.name.toLowerCase() === value.toLowerCase()
+    );
+    // DMs are not in the directory; their IDs are taken as given
+    if (!channel && CHANNEL_ID_PATTERN.test(value) && value.startsWith('D')) {
+      return { reference, id: value, type: 'im' };
+    }
+    if (!channel) {
+      warnings.push(`Channel ${reference} was not found in ${snapshot.workspace}`);
+      return { reference };
+    }
+
+    if (channel.is_archived) {
+      warnings.push(`Channel #${channel.name} is archived`);
+    } else if (!channel.is_member) {
+      warnings.push(`You are not a member of #${channel.name}`);
+    }
+    return {
+      reference,
+      id: channel.id,
+      name: channel.name,
+      type: channel.is_mpim ? 'mpim' : channel.is_private ? 'private' : 'public',
+      is_member: channel.is_member,
+      is_archived: channel.is_archived,
+    };
+  }
+
+  private resolveUser(
+    reference: string,
+    snapshot: DirectorySnapshot | undefined,
+    warnings: string[]
+  ): ResolvedUser {
+    const value = reference.trim().replace(/^@/, '');
+    if (!snapshot) {
+      return { reference };
+    }
+
+    const name = value.toLowerCase();
+    const user = snapshot.users.find(
+      (candidate) =>
+        candidate.id === value ||
+        candidate.name.toLowerCase() === name ||
+        candidate.display_name?.toLowerCase() === name
+    );
+    if (!user) {
+      warnings.push(`User ${reference} was not found in ${snapshot.workspace}`);
+      return { reference };
+    }
+
+    if (user.deleted) {
+      warnings.push(`User @${user.name} has been deactivated`);
+    }
+    return {
+      reference,
+      id: user.id,
+      name: user.name,
+      real_name: user.real_name,
+      is_bot: user.is_bot,
+      deleted: user.deleted,
+    };
+  }
+}
+
+function unique(values: string[]): string[] {
+  return Array.from(new Set(values));
+}
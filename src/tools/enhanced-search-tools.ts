@@ -4,8 +4,6 @@
  */
 
 import { BaseSlackTool } from './base.js';
-import { SlackAuth } from '../slack/auth.js';
-import { SlackClient } from '../slack/client.js';
 import { logger } from '../utils/logger.js';
 import { ToolContext, ToolExecutionResult, SlackTool } from '../types/tools.js';
 
@@ -128,6 +126,32 @@ Examples:
         },
         required: ['query'],
       },
+      outputSchema: {
+        type: 'object',
+        properties: {
+          query: { type: 'string' },
+          total_results: { type: 'number' },
+          current_page: { type: 'number' },
+          total_pages: { type: 'number' },
+          results_per_page: { type: 'number' },
+          messages: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                user: { type: 'string', description: 'User ID of the author' },
+                ts: { type: 'string', description: 'Message timestamp' },
+                text: { type: 'string' },
+                channel: { type: 'string', description: 'Channel ID' },
+                permalink: { type: 'string' },
+                thread_ts: { type: 'string', description: 'Parent timestamp for thread replies' },
+              },
+              required: ['ts', 'text'],
+            },
+          },
+        },
+        required: ['query', 'total_results', 'current_page', 'total_pages', 'messages'],
+      },
     };
     super(definition);
   }
@@ -141,18 +165,8 @@ Examples:
     });
 
     try {
-      // Initialize Slack client
-      const auth = new SlackAuth();
-      const tokens = auth.extractTokensFromEnvironment();
-      if (!tokens) {
-        return this.createErrorResult(
-          'Slack authentication required for advanced search operations.',
-          'AUTH_REQUIRED',
-          { executionTime: Date.now() - startTime, apiCalls: 0, cacheHits: 0 }
-        );
-      }
-
-      const client = new SlackClient(tokens);
+      // Shared client for the selected workspace
+      const client = this.getSlackClient(context);
 
       // Call search.messages API with enhanced parameters
       const searchParams = {
@@ -300,6 +314,24 @@ that contain specific technical or business information that wouldn't be in chat
         },
         required: ['query'],
       },
+      outputSchema: {
+        type: 'object',
+        properties: {
+          query: { type: 'string' },
+          total_results: { type: 'number' },
+          current_page: { type: 'number' },
+          total_pages: { type: 'number' },
+          results_per_page: { type: 'number' },
+          files: {
+            type: 'array',
+            description: 'Matching files as returned by search.files',
+            items: { type: 'object' },
+          },
+          pagination: { type: 'object' },
+          metadata: { type: 'object' },
+        },
+        required: ['query', 'total_results', 'current_page', 'total_pages', 'files'],
+      },
     };
     super(definition);
   }
@@ -313,18 +345,8 @@ that contain specific technical or business information that wouldn't be in chat
     });
 
     try {
-      // Initialize Slack client
-      const auth = new SlackAuth();
-      const tokens = auth.extractTokensFromEnvironment();
-      if (!tokens) {
-        return this.createErrorResult(
-          'Slack authentication required for file search operations.',
-          'AUTH_REQUIRED',
-          { executionTime: Date.now() - startTime, apiCalls: 0, cacheHits: 0 }
-        );
-      }
-
-      const client = new SlackClient(tokens);
+      // Shared client for the selected workspace
+      const client = this.getSlackClient(context);
 
       // Call search.files API
       const searchParams = {
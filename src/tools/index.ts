@@ -1,45 +1,119 @@
-import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { Tool, ToolAnnotations } from '@modelcontextprotocol/sdk/types.js';
 import { ProductionToolFactory } from './production-factory.js';
+import { ApprovalQueue, PendingAction, PENDING_ACTION_PROPERTIES } from './approval-queue.js';
+import { APPROVAL_TOOL_NAMES } from './approval-tools.js';
+import { DryRunReporter, DRY_RUN_PROPERTIES } from './dry-run.js';
+import { UndoJournal, UNDO_PROPERTIES } from './undo-journal.js';
+import { BaseSlackTool } from './base.js';
 import {
   ToolMiddleware,
   ToolMetrics,
   ToolRegistryConfig,
   ToolContext,
   ToolExecutionResult,
+  ToolExecutionOptions,
+  ApprovalPrompt,
+  ProgressReporter,
+  SlackTool,
 } from '../types/tools.js';
 import { ConversationsPlaceholder } from './conversations.js';
 import { SearchPlaceholder } from './search.js';
 import { listChannels, listUsers, getChannelHistory } from './slack-channels.js';
 import { logger } from '../utils/logger.js';
+import { WorkspaceRegistry } from '../slack/workspaces.js';
+import { SessionMonitor } from '../slack/session-monitor.js';
+import { SlackClientProvider } from '../slack/client-provider.js';
+import {
+  ConcurrencyLimitError,
+  ErrorHandler,
+  ConfigurationError,
+  MCPError,
+  OperationCancelledError,
+  ReadOnlyModeError,
+  SecurityViolationError,
+  ToolTimeoutError,
+} from '../errors/index.js';
+import { config as appConfig, ToolDefaults } from '../utils/config.js';
+import { Release, Semaphore } from '../utils/semaphore.js';
 
 // Export types for convenience
 export { ToolExecutionResult, ToolHandler } from '../types/tools.js';
 
+/**
+ * MCP behaviour hints implied by each tool action. PUT and DELETE overwrite or
+ * remove existing messages, so clients should confirm them; repeating them is harmless.
+ */
+const ACTION_ANNOTATIONS: Record<NonNullable<SlackTool['action']>, ToolAnnotations> = {
+  GET: { readOnlyHint: true, destructiveHint: false, idempotentHint: true },
+  POST: { readOnlyHint: false, destructiveHint: false, idempotentHint: false },
+  PUT: { readOnlyHint: false, destructiveHint: true, idempotentHint: true },
+  DELETE: { readOnlyHint: false, destructiveHint: true, idempotentHint: true },
+};
+
+/**
+ * Arguments that take the profile's default channel
+ */
+const CHANNEL_ARGUMENTS = ['channel', 'channel_id'];
+
+/**
+ * Where each search tool takes the profile's search defaults
+ */
+const SEARCH_ARGUMENTS: Record<string, Record<keyof ToolDefaults['search'], string>> = {
+  search_messages: { count: 'count', sortDir: 'sort', highlight: 'highlight' },
+  search_files: { count: 'count', sortDir: 'sort_dir', highlight: 'highlight' },
+};
+
 export class ToolRegistry {
   private factory: ProductionToolFactory;
+  private clientProvider: SlackClientProvider;
   private middleware: ToolMiddleware[] = [];
   private metrics: Map<string, ToolMetrics> = new Map();
   private config: ToolRegistryConfig;
   private isInitialized = false;
-  private concurrentExecutions = 0;
+  private slots: Semaphore;
+  private readOnlyWorkspaces: Set<string> = new Set();
+  private approvals: ApprovalQueue | null = null;
+  private dryRuns: DryRunReporter = new DryRunReporter();
+  private journal: UndoJournal;
 
   constructor(config?: Partial<ToolRegistryConfig>) {
+    const execution = appConfig.getExecutionConfig();
+    const profile = appConfig.getProfileConfig();
     this.config = {
       enableMetrics: true,
       enableTracing: true,
-      defaultTimeout: 30000,
-      maxConcurrentExecutions: 10,
+      defaultTimeout: execution.timeoutMs,
+      maxConcurrentExecutions: execution.maxConcurrent,
+      queueTimeout: execution.queueTimeoutMs,
       middleware: [],
+      tools: profile.tools,
+      toolDefaults: profile.defaults,
+      readOnly: appConfig.getReadOnlyConfig(),
+      approval: appConfig.getApprovalConfig(),
+      dryRun: appConfig.isDryRun(),
       ...config,
     };
+    this.slots = new Semaphore(this.config.maxConcurrentExecutions);
 
-    this.factory = new ProductionToolFactory();
+    if (this.config.approval.tools.length > 0) {
+      this.approvals = new ApprovalQueue(this.config.approval, (action, context) =>
+        this.commitAction(action, context)
+      );
+    }
+    this.clientProvider = this.config.clientProvider || SlackClientProvider.getInstance();
+    this.journal = new UndoJournal(this.clientProvider);
+    this.factory = new ProductionToolFactory(
+      this.config.tools,
+      this.approvals || undefined,
+      this.journal
+    );
     this.middleware = [...this.config.middleware];
 
     logger.info('Production ToolRegistry initialized', {
       enableMetrics: this.config.enableMetrics,
       enableTracing: this.config.enableTracing,
       maxConcurrentExecutions: this.config.maxConcurrentExecutions,
+      defaultTimeout: this.config.defaultTimeout,
       architecture: 'Phase 5 - Streamlined Production'
     });
   }
@@ -59,6 +133,9 @@ export class ToolRegistry {
         throw new Error('Production tool configuration validation failed');
       }
 
+      this.resolveReadOnlyWorkspaces();
+      this.checkApprovalTools();
+
       // Initialize metrics
       if (this.config.enableMetrics) {
         this.initializeMetrics();
@@ -77,6 +154,91 @@ export class ToolRegistry {
     }
   }
 
+  /**
+   * Resolve the read-only workspace references to workspace names, so a typo
+   * fails at startup instead of quietly leaving a workspace writable
+   */
+  private resolveReadOnlyWorkspaces(): void {
+    const workspaces = WorkspaceRegistry.getInstance();
+    this.readOnlyWorkspaces.clear();
+
+    for (const reference of this.config.readOnly.workspaces) {
+      try {
+        this.readOnlyWorkspaces.add(workspaces.resolve(reference)!.name);
+      } catch {
+        throw new ConfigurationError(
+          'read_only',
+          `unknown workspace "${reference}" (configured: ${workspaces.getNames().join(', ')})`
+        );
+      }
+    }
+
+    if (this.config.readOnly.all || this.readOnlyWorkspaces.size > 0) {
+      logger.info('Read-only mode enabled', {
+        workspaces: this.config.readOnly.all ? 'all' : Array.from(this.readOnlyWorkspaces),
+      });
+    }
+  }
+
+  /**
+   * Approval settings may only name real tools, so a typo cannot let writes
+   * through unapproved. Tools the profile disabled are ignored.
+   */
+  private checkApprovalTools(): void {
+    if (!this.approvals) {
+      return;
+    }
+
+    const { toolNames, disabledTools } = this.factory.getStats();
+    const unknown = this.config.approval.tools.filter(
+      (name) => !toolNames.includes(name) && !disabledTools.includes(name)
+    );
+    if (unknown.length > 0) {
+      throw new ConfigurationError(
+        'approval',
+        `unknown tool ${unknown.join(', ')} (available: ${toolNames.join(', ')})`
+      );
+    }
+
+    logger.info('Approval mode enabled', {
+      tools: this.config.approval.tools,
+      ttlMs: this.config.approval.ttlMs,
+    });
+  }
+
+  /**
+   * Whether tools that write to Slack are blocked in a workspace
+   */
+  isReadOnly(workspace?: string): boolean {
+    return this.config.readOnly.all || (!!workspace && this.readOnlyWorkspaces.has(workspace));
+  }
+
+  /**
+   * Only GET tools are reads; a tool that declares no action is treated as a write
+   */
+  private isWriteTool(definition: SlackTool): boolean {
+    return definition.action !== 'GET';
+  }
+
+  /**
+   * Every write tool can be dry run, except the approval tools, which only
+   * decide on calls that were already made
+   */
+  private supportsDryRun(definition: SlackTool): boolean {
+    return this.isWriteTool(definition) && !APPROVAL_TOOL_NAMES.includes(definition.name);
+  }
+
+  /**
+   * Write tools are hidden from tools/list only when no workspace accepts them
+   */
+  private hidesWriteTools(): boolean {
+    const names = WorkspaceRegistry.getInstance().getNames();
+    return (
+      this.config.readOnly.all ||
+      (this.readOnlyWorkspaces.size > 0 && names.every((name) => this.readOnlyWorkspaces.has(name)))
+    );
+  }
+
   /**
    * Initialize metrics collection
    */
@@ -119,58 +281,222 @@ export class ToolRegistry {
    * Get all available tools for MCP
    */
   getTools(): Tool[] {
-    const tools = this.factory.getTools();
+    const hideWrites = this.hidesWriteTools();
+    const tools = this.factory
+      .getTools()
+      .filter((tool) => !(hideWrites && this.isWriteTool(tool.getDefinition())));
+    const workspaceProperty = this.getWorkspaceProperty();
 
     return tools.map((tool) => {
       const definition = tool.getDefinition();
+      const inputSchema = this.getInputSchema(definition);
       return {
         name: definition.name,
         description: definition.description,
         inputSchema: {
-          type: 'object' as const,
-          properties: definition.inputSchema.properties || {},
-          required: definition.inputSchema.required || [],
+          ...inputSchema,
+          properties: {
+            ...inputSchema.properties,
+            ...(this.supportsDryRun(definition) && { dry_run: this.getDryRunProperty() }),
+            workspace: workspaceProperty,
+          },
         },
+        ...(definition.outputSchema && { outputSchema: this.getOutputSchema(definition) }),
+        annotations: this.getAnnotations(definition),
       };
     });
   }
 
   /**
-   * Execute tool with comprehensive lifecycle management
+   * A tool's inputSchema with the profile's defaults described, and arguments
+   * that now have a default no longer required
    */
-  async executeTool(name: string, args: Record<string, unknown>): Promise<ToolExecutionResult> {
-    // Check concurrency limits
-    if (this.concurrentExecutions >= this.config.maxConcurrentExecutions) {
-      return {
-        success: false,
-        content: [
-          {
-            type: 'text',
-            text: 'Error: Maximum concurrent executions exceeded. Please try again later.',
-          },
-        ],
-        isError: true,
+  private getInputSchema(definition: SlackTool): Tool['inputSchema'] {
+    const defaults = this.getArgumentDefaults(definition);
+    const properties = { ...(definition.inputSchema.properties || {}) };
+    for (const [key, value] of Object.entries(defaults)) {
+      // Replace the tool's own "(default: ...)" note rather than adding a second one
+      const description = (properties[key].description || '').replace(/\s*\(default: [^)]*\)/, '');
+      properties[key] = {
+        ...properties[key],
+        description: `${description} (default: ${value})`.trim(),
       };
     }
 
-    this.concurrentExecutions++;
+    return {
+      type: 'object' as const,
+      properties,
+      required: (definition.inputSchema.required || []).filter((key) => !(key in defaults)),
+    };
+  }
+
+  /**
+   * Profile defaults that apply to a tool's arguments
+   */
+  private getArgumentDefaults(definition: SlackTool): Record<string, unknown> {
+    const properties = definition.inputSchema.properties || {};
+    const { channel, search } = this.config.toolDefaults;
+    const defaults: Record<string, unknown> = {};
+
+    if (channel) {
+      for (const key of CHANNEL_ARGUMENTS) {
+        if (key in properties) {
+          defaults[key] = channel;
+        }
+      }
+    }
+
+    const searchArguments = SEARCH_ARGUMENTS[definition.name];
+    if (searchArguments) {
+      for (const [setting, key] of Object.entries(searchArguments)) {
+        const value = search[setting as keyof ToolDefaults['search']];
+        if (value !== undefined) {
+          defaults[key] = value;
+        }
+      }
+    }
+
+    return defaults;
+  }
+
+  /**
+   * A tool's outputSchema, including the workspace tags added to every object result.
+   * Tools that need approval may return a pending action instead, so none of
+   * their own fields are required. Dry runs return the tool's own fields, with
+   * the calls it would make.
+   */
+  private getOutputSchema(definition: SlackTool): Tool['outputSchema'] {
+    const outputSchema = definition.outputSchema!;
+    const held = !!this.approvals?.requires(definition.name);
+    return {
+      ...outputSchema,
+      type: 'object' as const,
+      properties: {
+        team_id: { type: 'string', description: 'Slack team ID of the workspace' },
+        workspace: { type: 'string', description: 'Workspace the result came from' },
+        ...(outputSchema.properties || {}),
+        ...(this.supportsDryRun(definition) && DRY_RUN_PROPERTIES),
+        ...(this.journal.tracks(definition.name) && UNDO_PROPERTIES),
+        ...(held && PENDING_ACTION_PROPERTIES),
+      },
+      ...(held && { required: [] }),
+    };
+  }
+
+  /**
+   * Tool annotations derived from the tool's action. Tools that call Slack
+   * interact with an open world; explicit annotations on the definition win.
+   */
+  private getAnnotations(definition: SlackTool): ToolAnnotations {
+    return {
+      ...(definition.action && ACTION_ANNOTATIONS[definition.action]),
+      openWorldHint: definition.requiresAuth !== false,
+      ...definition.annotations,
+    };
+  }
+
+  /**
+   * Schema for the optional workspace argument accepted by every tool
+   */
+  private getWorkspaceProperty(): Record<string, unknown> {
+    const workspaces = WorkspaceRegistry.getInstance();
+    const names = workspaces.getNames();
+    const defaultName = workspaces.getDefaultName();
+
+    return {
+      type: 'string',
+      description:
+        'Slack workspace to use: name, team domain or team ID' +
+        (defaultName ? ` (default: ${defaultName})` : '') +
+        (names.length > 0 ? `. Configured: ${names.join(', ')}` : ''),
+    };
+  }
+
+  /**
+   * Schema for the dry_run argument accepted by every write tool
+   */
+  private getDryRunProperty(): Record<string, unknown> {
+    return {
+      type: 'boolean',
+      description:
+        'Validate the call and return the Slack API calls it would make, with their payloads, ' +
+        'without sending anything' +
+        (this.config.dryRun ? '. Always on: the server is in dry-run mode' : ' (default: false)'),
+    };
+  }
+
+  /**
+   * Execute tool with comprehensive lifecycle management
+   */
+  async executeTool(
+    name: string,
+    args: Record<string, unknown>,
+    options: ToolExecutionOptions = {}
+  ): Promise<ToolExecutionResult> {
+    const traceId = this.generateTraceId();
+    const execution = this.createExecutionSignal(name, traceId, options.signal);
+    let release: Release | null = null;
+    let context: ToolContext | undefined;
 
     try {
-      const context: ToolContext = {
+      // Wait in line for a slot rather than failing the moment the server is busy
+      release = await this.slots.acquire(this.config.queueTimeout, execution.signal);
+      if (!release) {
+        throw new ConcurrencyLimitError(this.config.maxConcurrentExecutions, traceId);
+      }
+
+      // The workspace and dry_run arguments are handled here rather than by each tool
+      const { workspace: workspaceArg, dry_run: dryRunArg, ...toolArgs } = args;
+      const definition = this.factory.getTool(name)?.getDefinition();
+      const dryRun =
+        !!definition &&
+        this.supportsDryRun(definition) &&
+        (this.config.dryRun || dryRunArg === true);
+      args = definition ? { ...this.getArgumentDefaults(definition), ...toolArgs } : toolArgs;
+      const workspace = WorkspaceRegistry.getInstance().resolve(
+        typeof workspaceArg === 'string' && workspaceArg.trim() ? workspaceArg.trim() : undefined
+      );
+
+      context = {
         toolName: name,
         startTime: Date.now(),
-        traceId: this.generateTraceId(),
+        traceId,
+        userId: options.userId,
+        workspace: workspace?.name,
+        action: definition?.action,
+        slackClients: this.clientProvider,
+        signal: execution.signal,
+        reportProgress: this.createProgressReporter(name, options.onProgress),
+        dryRun: dryRun ? [] : undefined,
         metadata: {
-          concurrentExecutions: this.concurrentExecutions,
+          concurrentExecutions: this.slots.running,
+          queuedExecutions: this.slots.queued,
         },
       };
 
       logger.debug('Tool execution started', {
         toolName: name,
         traceId: context.traceId,
+        userId: context.userId,
+        workspace: context.workspace,
         args,
       });
 
+      // Read-only mode rejects writes before any middleware or Slack call runs. Approving a
+      // pending action is checked against the workspace of the held call instead.
+      if (
+        definition &&
+        this.isWriteTool(definition) &&
+        !APPROVAL_TOOL_NAMES.includes(name) &&
+        this.isReadOnly(context.workspace)
+      ) {
+        throw new ReadOnlyModeError(
+          name,
+          this.config.readOnly.all ? undefined : context.workspace,
+          traceId
+        );
+      }
+
       // Execute middleware beforeTool hooks
       await this.executeMiddlewareBefore(context, args);
 
@@ -180,7 +506,37 @@ export class ToolRegistry {
         throw new Error(`Tool not found: ${name}`);
       }
 
-      const result = await tool.execute(args, context);
+      // Fail fast instead of letting every Slack call hit invalid_auth
+      if (workspace && tool.getDefinition().requiresAuth !== false) {
+        SessionMonitor.getInstance().assertActive(workspace.name);
+      }
+
+      // A timeout aborts the tool's Slack requests; the race covers tools that ignore the signal
+      const timeoutMs = tool.getDefinition().timeoutMs || this.config.defaultTimeout;
+      let result: ToolExecutionResult;
+      if (this.approvals?.requires(name) && !context.dryRun) {
+        result = await this.raceAbort(
+          this.holdForApproval(tool, args, context, options.confirm, () =>
+            execution.startTimeout(timeoutMs)
+          ),
+          execution.signal
+        );
+      } else {
+        execution.startTimeout(timeoutMs);
+        result = await this.raceAbort(this.runTool(tool, args, context), execution.signal);
+      }
+      execution.signal.throwIfAborted();
+      if (result.success && context.dryRun) {
+        result.data = await this.dryRuns.report(
+          result.data,
+          context.dryRun,
+          args,
+          context.workspace
+        );
+      }
+      if (result.success && context.workspace) {
+        this.tagWorkspace(result, context.workspace);
+      }
 
       // Update metrics
       if (this.config.enableMetrics) {
@@ -191,7 +547,7 @@ export class ToolRegistry {
       await this.executeMiddlewareAfter(context, result);
 
       // Convert to MCP format
-      const mcpResult = this.convertToMCPResult(result);
+      const mcpResult = this.convertToMCPResult(result, tool.getDefinition());
 
       logger.debug('Tool execution completed', {
         toolName: name,
@@ -203,6 +559,29 @@ export class ToolRegistry {
       return mcpResult;
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      if (context) {
+        await this.executeMiddlewareOnError(context, error);
+      }
+
+      // Limits, cancellation, read-only mode and policy get structured errors, unlike tool failures
+      if (
+        error instanceof OperationCancelledError ||
+        error instanceof ToolTimeoutError ||
+        error instanceof ConcurrencyLimitError ||
+        error instanceof ReadOnlyModeError ||
+        error instanceof SecurityViolationError
+      ) {
+        logger.warn('Tool execution stopped', {
+          toolName: name,
+          traceId,
+          code: error.code,
+          error: errorMessage,
+        });
+        if (this.config.enableMetrics && !(error instanceof OperationCancelledError)) {
+          this.updateErrorMetrics(name);
+        }
+        return { success: false, ...ErrorHandler.createErrorResponse(error) };
+      }
 
       logger.error('Tool execution failed', {
         toolName: name,
@@ -225,12 +604,236 @@ export class ToolRegistry {
         isError: true,
       };
     } finally {
-      this.concurrentExecutions--;
+      execution.dispose();
+      release?.();
+    }
+  }
+
+  /**
+   * Hold a call as a pending action. When the client can ask its user, the
+   * call runs (or is discarded) as soon as they answer; otherwise the result
+   * is the pending action, for approve_action or reject_action.
+   */
+  private async holdForApproval(
+    tool: BaseSlackTool,
+    args: Record<string, unknown>,
+    context: ToolContext,
+    confirm: ApprovalPrompt | undefined,
+    startTimeout: () => void
+  ): Promise<ToolExecutionResult> {
+    const approvals = this.approvals!;
+
+    // Invalid calls fail now rather than after someone has approved them
+    const validation = await tool.validate?.(args);
+    if (validation && !validation.isValid) {
+      return {
+        success: false,
+        error: `Validation failed: ${validation.errors.join(', ')}`,
+        errorCode: 'VALIDATION_ERROR',
+      };
+    }
+
+    const action = approvals.add(context.toolName, args, context);
+    let approved: boolean | undefined;
+    if (confirm) {
+      try {
+        approved = await confirm(`Approve this action?\n\n${action.preview}`, context.signal);
+      } catch (error) {
+        context.signal?.throwIfAborted();
+        logger.warn('Approval prompt failed; the action stays pending', {
+          actionId: action.id,
+          toolName: context.toolName,
+          traceId: context.traceId,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+
+    if (approved === undefined) {
+      return { success: true, data: approvals.describe(action) };
+    }
+    if (!approved) {
+      approvals.reject(action.id, context);
+      return {
+        success: false,
+        error: `The user rejected this call to ${context.toolName}; nothing was changed in Slack.`,
+        errorCode: 'ACTION_REJECTED',
+      };
+    }
+
+    startTimeout();
+    return (await approvals.approve(action.id, context)).result;
+  }
+
+  /**
+   * Run an approved action's tool call in the workspace it was drafted for
+   */
+  private async commitAction(
+    action: PendingAction,
+    context: ToolContext
+  ): Promise<ToolExecutionResult> {
+    const tool = this.factory.getTool(action.tool);
+    if (!tool) {
+      throw new Error(`Tool not found: ${action.tool}`);
+    }
+
+    const definition = tool.getDefinition();
+    if (this.isWriteTool(definition) && this.isReadOnly(action.workspace)) {
+      throw new ReadOnlyModeError(
+        action.tool,
+        this.config.readOnly.all ? undefined : action.workspace,
+        context.traceId
+      );
+    }
+    if (action.workspace && definition.requiresAuth !== false) {
+      SessionMonitor.getInstance().assertActive(action.workspace);
+    }
+
+    const result = await this.runTool(tool, action.args, {
+      ...context,
+      toolName: action.tool,
+      workspace: action.workspace,
+      action: definition.action,
+    });
+    if (result.success && action.workspace) {
+      this.tagWorkspace(result, action.workspace);
+    }
+    return result;
+  }
+
+  /**
+   * Run a tool, journaling its change so it can be undone. Edits fetch the
+   * message they overwrite first; dry runs change nothing and are not journaled.
+   */
+  private async runTool(
+    tool: BaseSlackTool,
+    args: Record<string, unknown>,
+    context: ToolContext
+  ): Promise<ToolExecutionResult> {
+    if (!this.journal.tracks(context.toolName) || context.dryRun) {
+      return tool.execute(args, context);
+    }
+
+    const previous = await this.journal.capture(context.toolName, args, context);
+    const result = await tool.execute(args, context);
+    if (result.success && result.data && typeof result.data === 'object') {
+      const entry = this.journal.record(context.toolName, args, result.data, previous, context);
+      if (entry) {
+        result.data = { ...result.data, undo_id: entry.id };
+      }
+    }
+    return result;
+  }
+
+  /**
+   * The signal a tool runs under. It aborts with an OperationCancelledError when
+   * the client cancels, or a ToolTimeoutError once the timeout started by
+   * startTimeout expires, so either reads the same wherever it interrupts the tool.
+   */
+  private createExecutionSignal(
+    toolName: string,
+    traceId: string,
+    requestSignal?: AbortSignal
+  ): { signal: AbortSignal; startTimeout(timeoutMs: number): void; dispose(): void } {
+    const controller = new AbortController();
+    let timer: NodeJS.Timeout | undefined;
+
+    const cancel = () => {
+      const reason = typeof requestSignal?.reason === 'string' ? requestSignal.reason : undefined;
+      controller.abort(new OperationCancelledError(toolName, reason, traceId));
+    };
+    if (requestSignal?.aborted) {
+      cancel();
+    } else {
+      requestSignal?.addEventListener('abort', cancel, { once: true });
+    }
+
+    return {
+      signal: controller.signal,
+      startTimeout: (timeoutMs) => {
+        timer = setTimeout(
+          () => controller.abort(new ToolTimeoutError(toolName, timeoutMs, traceId)),
+          timeoutMs
+        );
+      },
+      dispose: () => {
+        clearTimeout(timer);
+        requestSignal?.removeEventListener('abort', cancel);
+      },
+    };
+  }
+
+  /**
+   * Settle with the promise, or reject with the signal's reason as soon as it aborts
+   */
+  private raceAbort<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => reject(signal.reason);
+      if (signal.aborted) {
+        onAbort();
+        return;
+      }
+      signal.addEventListener('abort', onAbort, { once: true });
+      promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+    });
+  }
+
+  /**
+   * Wrap the transport's progress callback so tools can report freely: values
+   * that don't increase are dropped (MCP requires progress to increase) and
+   * delivery failures never fail the tool
+   */
+  private createProgressReporter(
+    toolName: string,
+    onProgress?: ProgressReporter
+  ): ProgressReporter | undefined {
+    if (!onProgress) {
+      return undefined;
+    }
+
+    let lastProgress = -Infinity;
+    return (progress, total, message) => {
+      if (progress <= lastProgress) {
+        return;
+      }
+      lastProgress = progress;
+      try {
+        onProgress(progress, total, message);
+      } catch (error) {
+        logger.debug('Progress notification failed', {
+          toolName,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    };
+  }
+
+  /**
+   * Tag object results with the workspace they came from so results from
+   * several workspaces can be told apart. The team ID is the one the shared
+   * client already knows; it is never looked up per call.
+   */
+  private tagWorkspace(result: ToolExecutionResult, workspace: string): void {
+    if (!result.data || typeof result.data !== 'object' || Array.isArray(result.data)) {
+      return;
+    }
+
+    let teamId: string | undefined;
+    try {
+      teamId = this.clientProvider.getClient(workspace).teamId;
+    } catch (error) {
+      logger.debug('Could not resolve team ID for workspace', {
+        workspace,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
     }
+
+    result.data = { team_id: teamId, workspace, ...result.data };
   }
 
   /**
-   * Execute middleware before hooks
+   * Execute middleware before hooks. An MCPError stops the call (e.g. a policy
+   * violation); other failures are logged and skipped.
    */
   private async executeMiddlewareBefore(context: ToolContext, args: any): Promise<void> {
     for (const middleware of this.middleware) {
@@ -238,6 +841,9 @@ export class ToolRegistry {
         try {
           await middleware.before(context, args);
         } catch (error) {
+          if (error instanceof MCPError) {
+            throw error;
+          }
           logger.warn('Middleware before hook failed', {
             middleware: middleware.name,
             error: error instanceof Error ? error.message : 'Unknown error',
@@ -248,7 +854,8 @@ export class ToolRegistry {
   }
 
   /**
-   * Execute middleware after hooks
+   * Execute middleware after hooks. As with before hooks, an MCPError fails the
+   * call, so a result that could not be filtered is never returned.
    */
   private async executeMiddlewareAfter(
     context: ToolContext,
@@ -259,6 +866,9 @@ export class ToolRegistry {
         try {
           await middleware.after(context, result);
         } catch (error) {
+          if (error instanceof MCPError) {
+            throw error;
+          }
           logger.warn('Middleware after hook failed', {
             middleware: middleware.name,
             error: error instanceof Error ? error.message : 'Unknown error',
@@ -268,6 +878,26 @@ export class ToolRegistry {
     }
   }
 
+  /**
+   * Execute middleware error hooks for a call that threw, timed out or was
+   * cancelled. Failures in the hooks are logged; the call's own error is returned.
+   */
+  private async executeMiddlewareOnError(context: ToolContext, error: unknown): Promise<void> {
+    const cause = error instanceof Error ? error : new Error(String(error));
+    for (const middleware of this.middleware) {
+      if (middleware.onError) {
+        try {
+          await middleware.onError(context, cause);
+        } catch (hookError) {
+          logger.warn('Middleware error hook failed', {
+            middleware: middleware.name,
+            error: hookError instanceof Error ? hookError.message : 'Unknown error',
+          });
+        }
+      }
+    }
+  }
+
   /**
    * Update tool metrics
    */
@@ -296,8 +926,13 @@ export class ToolRegistry {
   /**
    * Convert internal result to MCP format
    */
-  private convertToMCPResult(result: ToolExecutionResult): ToolExecutionResult {
+  private convertToMCPResult(
+    result: ToolExecutionResult,
+    definition: SlackTool
+  ): ToolExecutionResult {
     if (result.success && result.data) {
+      const structured =
+        definition.outputSchema && typeof result.data === 'object' && !Array.isArray(result.data);
       return {
         success: true,
         content: [
@@ -307,6 +942,7 @@ export class ToolRegistry {
               typeof result.data === 'string' ? result.data : JSON.stringify(result.data, null, 2),
           },
         ],
+        ...(structured && { structuredContent: result.data }),
       };
     } else {
       return {
@@ -336,9 +972,12 @@ export class ToolRegistry {
     return {
       ...this.factory.getStats(),
       isInitialized: this.isInitialized,
-      concurrentExecutions: this.concurrentExecutions,
+      concurrentExecutions: this.slots.running,
+      queuedExecutions: this.slots.queued,
       maxConcurrentExecutions: this.config.maxConcurrentExecutions,
       middlewareCount: this.middleware.length,
+      pendingActions: this.approvals?.size ?? 0,
+      undoableActions: this.journal.size,
       metricsEnabled: this.config.enableMetrics,
     };
   }
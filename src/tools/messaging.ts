@@ -4,8 +4,6 @@
  */
 
 import { BaseSlackTool } from './base.js';
-import { SlackAuth } from '../slack/auth.js';
-import { SlackClient } from '../slack/client.js';
 import { logger } from '../utils/logger.js';
 import {
   SlackTool,
@@ -112,6 +110,17 @@ export class PostMessageTool extends BaseSlackTool {
         },
         required: ['channel', 'text'],
       },
+      outputSchema: {
+        type: 'object',
+        properties: {
+          success: { type: 'boolean' },
+          message_id: { type: 'string', description: 'Timestamp of the posted message' },
+          channel: { type: 'string', description: 'Channel ID the message was posted to' },
+          ts: { type: 'string', description: 'Message timestamp' },
+          text: { type: 'string', description: 'Message text as stored by Slack' },
+        },
+        required: ['channel', 'ts'],
+      },
     };
 
     super(definition);
@@ -172,19 +181,8 @@ export class PostMessageTool extends BaseSlackTool {
         textLength: args.text.length,
       });
 
-      // Authenticate with Slack
-      const auth = new SlackAuth();
-      const authResult = await auth.authenticate();
-
-      if (!authResult.success || !authResult.tokens) {
-        return this.createErrorResult(authResult.error || 'Authentication failed', 'AUTH_ERROR', {
-          apiCalls: 0,
-          cacheHits: 0,
-        });
-      }
-
-      // Create API client
-      const client = new SlackClient(authResult.tokens);
+      // Shared client for the selected workspace
+      const client = this.getSlackClient(context);
 
       // Prepare message data
       const messageData: any = {
@@ -365,19 +363,8 @@ export class PostThreadReplyTool extends BaseSlackTool {
         textLength: args.text.length,
       });
 
-      // Authenticate with Slack
-      const auth = new SlackAuth();
-      const authResult = await auth.authenticate();
-
-      if (!authResult.success || !authResult.tokens) {
-        return this.createErrorResult(authResult.error || 'Authentication failed', 'AUTH_ERROR', {
-          apiCalls: 0,
-          cacheHits: 0,
-        });
-      }
-
-      // Create API client
-      const client = new SlackClient(authResult.tokens);
+      // Shared client for the selected workspace
+      const client = this.getSlackClient(context);
 
       // Post thread reply (using postMessage with thread_ts)
       const response = await client.postMessage(
@@ -485,6 +472,16 @@ export class UpdateMessageTool extends BaseSlackTool {
         },
         required: ['channel', 'ts', 'text'],
       },
+      outputSchema: {
+        type: 'object',
+        properties: {
+          success: { type: 'boolean' },
+          channel: { type: 'string', description: 'Channel ID of the message' },
+          ts: { type: 'string', description: 'Timestamp of the updated message' },
+          text: { type: 'string', description: 'New message text' },
+        },
+        required: ['channel', 'ts'],
+      },
     };
 
     super(definition);
@@ -535,19 +532,8 @@ export class UpdateMessageTool extends BaseSlackTool {
         newTextLength: args.text.length,
       });
 
-      // Authenticate with Slack
-      const auth = new SlackAuth();
-      const authResult = await auth.authenticate();
-
-      if (!authResult.success || !authResult.tokens) {
-        return this.createErrorResult(authResult.error || 'Authentication failed', 'AUTH_ERROR', {
-          apiCalls: 0,
-          cacheHits: 0,
-        });
-      }
-
-      // Create API client
-      const client = new SlackClient(authResult.tokens);
+      // Shared client for the selected workspace
+      const client = this.getSlackClient(context);
 
       // Update message
       const response = await client.updateMessage(
@@ -637,6 +623,15 @@ export class DeleteMessageTool extends BaseSlackTool {
         },
         required: ['channel', 'ts'],
       },
+      outputSchema: {
+        type: 'object',
+        properties: {
+          success: { type: 'boolean' },
+          channel: { type: 'string', description: 'Channel ID of the deleted message' },
+          ts: { type: 'string', description: 'Timestamp of the deleted message' },
+        },
+        required: ['channel', 'ts'],
+      },
     };
 
     super(definition);
@@ -676,19 +671,8 @@ export class DeleteMessageTool extends BaseSlackTool {
         messageTs: args.ts,
       });
 
-      // Authenticate with Slack
-      const auth = new SlackAuth();
-      const authResult = await auth.authenticate();
-
-      if (!authResult.success || !authResult.tokens) {
-        return this.createErrorResult(authResult.error || 'Authentication failed', 'AUTH_ERROR', {
-          apiCalls: 0,
-          cacheHits: 0,
-        });
-      }
-
-      // Create API client
-      const client = new SlackClient(authResult.tokens);
+      // Shared client for the selected workspace
+      const client = this.getSlackClient(context);
 
       // Delete message
       const response = await client.deleteMessage(args.channel.trim(), args.ts);
@@ -1,5 +1,7 @@
 import { BaseSlackTool } from './base.js';
 import { logger } from '../utils/logger.js';
+import { ConfigurationError } from '../errors/index.js';
+import type { ToolSelection } from '../utils/config.js';
 
 // Import core production tools only
 import { PostMessageTool, UpdateMessageTool, DeleteMessageTool } from './messaging.js';
@@ -14,40 +16,61 @@ import { SearchMessagesTool, SearchFilesTool } from './enhanced-search-tools.js'
 import { ReactToMessageTool } from './reactions.js';
 import { GetUserProfileTool } from './user-profile.js';
 import { DataTools } from './data-tools.js';
+import { GetSessionStatusTool } from './session-status.js';
+import { QueryAuditLogTool } from './audit-log.js';
+import { APPROVAL_TOOL_NAMES, ApproveActionTool, RejectActionTool } from './approval-tools.js';
+import type { ApprovalQueue } from './approval-queue.js';
+import { UndoActionTool, UndoLastActionTool } from './undo-tools.js';
+import { UndoJournal } from './undo-journal.js';
 
 /**
  * Production Tool Factory - Sprint 7.4 Enhancement
  *
- * Registers 12 core production tools (added Block Kit support):
- * - 6 Messaging tools (4 basic + 2 Block Kit)
+ * Registers 16 core production tools (added Block Kit support):
+ * - 8 Messaging tools (4 basic + 2 Block Kit + 2 undo)
  * - 4 Data retrieval tools
  * - 2 Enhanced search tools
+ * - 2 System tools (session status, audit log)
  * Thread collection removed - users can use search_messages with custom queries
  *
  * Sprint 7.4: Added Block Kit messaging tools for interactive content.
+ * The config profile can then hide tools it does not want exposed. In approval
+ * mode, approve_action and reject_action are added whatever the profile selects.
  */
 export class ProductionToolFactory {
   private toolInstances: Map<string, BaseSlackTool> = new Map();
+  private disabledTools: string[] = [];
+  private approvalTools: string[] = [];
 
-  constructor() {
-    this.registerProductionTools();
+  constructor(
+    selection: ToolSelection = { disabled: [] },
+    approvals?: ApprovalQueue,
+    journal: UndoJournal = new UndoJournal()
+  ) {
+    this.registerProductionTools(journal);
+    this.applySelection(selection);
+    if (approvals) {
+      this.registerApprovalTools(approvals);
+    }
   }
 
   /**
-   * Register the 12 core production tools (Sprint 7.4)
+   * Register the 16 core production tools (Sprint 7.4)
    */
-  private registerProductionTools(): void {
+  private registerProductionTools(journal: UndoJournal): void {
     try {
-      // Messaging Tools (6) - Sprint 7.4: Added Block Kit tools
+      // Messaging Tools (8) - Sprint 7.4: Added Block Kit tools
       this.registerTool(new PostMessageTool());
       this.registerTool(new UpdateMessageTool());
       this.registerTool(new DeleteMessageTool());
       this.registerTool(new ReactToMessageTool());
       this.registerTool(new PostMessageBlocksTool());
       this.registerTool(new UpdateMessageBlocksTool());
+      this.registerTool(new UndoLastActionTool(journal));
+      this.registerTool(new UndoActionTool(journal));
 
       logger.info('Registered messaging tools', {
-        tools: ['post_message', 'update_message', 'delete_message', 'react_to_message', 'post_message_blocks', 'update_message_blocks'],
+        tools: ['post_message', 'update_message', 'delete_message', 'react_to_message', 'post_message_blocks', 'update_message_blocks', 'undo_last_action', 'undo_action'],
       });
 
       // Data Retrieval Tools (4) - Sprint 7.2
@@ -73,11 +96,17 @@ export class ProductionToolFactory {
         tools: ['search_messages', 'search_files'],
       });
 
+      // System Tools (2)
+      this.registerTool(new GetSessionStatusTool());
+      this.registerTool(new QueryAuditLogTool());
+
+      logger.info('Registered system tools', {
+        tools: ['get_session_status', 'query_audit_log'],
+      });
+
       // Thread Collection Tools removed - users can use search_messages with custom queries
       // for similar functionality with more flexibility
 
-      // System Tools removed in Sprint 7.2 for streamlined architecture
-
       logger.info('Production tool factory initialized', {
         totalTools: this.toolInstances.size,
         architecture: 'Sprint 7.4 - Block Kit Enhancement',
@@ -91,6 +120,50 @@ export class ProductionToolFactory {
     }
   }
 
+  /**
+   * Register the tools that decide on pending actions
+   */
+  private registerApprovalTools(approvals: ApprovalQueue): void {
+    this.registerTool(new ApproveActionTool(approvals));
+    this.registerTool(new RejectActionTool(approvals));
+    this.approvalTools = [...APPROVAL_TOOL_NAMES];
+
+    logger.info('Registered approval tools', { tools: this.approvalTools });
+  }
+
+  /**
+   * Drop the tools a profile leaves out. Unknown names are configuration errors
+   * so that a typo cannot silently expose a tool.
+   */
+  private applySelection(selection: ToolSelection): void {
+    const available = Array.from(this.toolInstances.keys()).sort();
+    const unknown = [...(selection.enabled || []), ...selection.disabled].filter(
+      (name) => !this.toolInstances.has(name)
+    );
+    if (unknown.length > 0) {
+      throw new ConfigurationError(
+        'tools',
+        `unknown tool ${unknown.join(', ')} (available: ${available.join(', ')})`
+      );
+    }
+
+    this.disabledTools = available.filter(
+      (name) =>
+        (selection.enabled !== undefined && !selection.enabled.includes(name)) ||
+        selection.disabled.includes(name)
+    );
+    for (const name of this.disabledTools) {
+      this.toolInstances.delete(name);
+    }
+
+    if (this.disabledTools.length > 0) {
+      logger.info('Tools disabled by config profile', {
+        disabled: this.disabledTools,
+        exposed: this.toolInstances.size,
+      });
+    }
+  }
+
   /**
    * Register a single tool instance
    */
@@ -120,26 +193,31 @@ export class ProductionToolFactory {
     return {
       instances: this.toolInstances.size,
       categories: {
-        messaging: 6,
+        messaging: 8,
         data: 4,
         search: 2,
+        system: 2,
       },
       toolNames: Array.from(this.toolInstances.keys()).sort(),
+      disabledTools: [...this.disabledTools],
     };
   }
 
   /**
-   * Validate that exactly 12 tools are registered (Sprint 7.4 - Block Kit tools, thread collection removed)
+   * Validate that exactly 16 tools are registered (Sprint 7.4 - Block Kit tools, thread collection removed),
+   * less any the config profile disabled, plus the approval tools when approval is on
    */
   validateConfiguration(): boolean {
     const expectedTools = [
-      // Messaging (6) - Sprint 7.4: Added Block Kit tools
+      // Messaging (8) - Sprint 7.4: Added Block Kit tools
       'post_message',
       'update_message',
       'delete_message',
       'react_to_message',
       'post_message_blocks',
       'update_message_blocks',
+      'undo_last_action',
+      'undo_action',
       // Data (4) - Phase 6.3
       'get_thread_replies',
       'list_workspace_channels',
@@ -148,11 +226,17 @@ export class ProductionToolFactory {
       // Enhanced Search (2) - Phase 6
       'search_messages',
       'search_files',
+      // System (2)
+      'get_session_status',
+      'query_audit_log',
       // Thread Collection removed - users can use search_messages with custom queries
     ];
 
     const actualTools = Array.from(this.toolInstances.keys()).sort();
-    const expectedSorted = expectedTools.sort();
+    const expectedSorted = expectedTools
+      .filter((name) => !this.disabledTools.includes(name))
+      .concat(this.approvalTools)
+      .sort();
 
     if (actualTools.length !== expectedSorted.length) {
       logger.error('Tool count mismatch', {
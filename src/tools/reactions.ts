@@ -1,7 +1,5 @@
 import { BaseSlackTool } from './base.js';
 import { SlackTool, ToolContext, ToolExecutionResult } from '../types/tools.js';
-import { SlackAuth } from '../slack/auth.js';
-import { SlackClient } from '../slack/client.js';
 import { logger } from '../utils/logger.js';
 
 interface ReactToMessageArgs {
@@ -63,6 +61,15 @@ export class ReactToMessageTool extends BaseSlackTool {
         },
         required: ['channel_id', 'message_ts', 'reaction_type'],
       },
+      outputSchema: {
+        type: 'object',
+        properties: {
+          success: { type: 'boolean' },
+          reaction_added: { type: 'string', description: 'Emoji name that was added' },
+          action_type: { type: 'string', description: 'reaction_type the emoji was chosen for' },
+        },
+        required: ['reaction_added'],
+      },
     };
 
     super(definition);
@@ -95,19 +102,8 @@ export class ReactToMessageTool extends BaseSlackTool {
         reactionType: args.reaction_type,
       });
 
-      // Authenticate with Slack
-      const auth = new SlackAuth();
-      const authResult = await auth.authenticate();
-
-      if (!authResult.success || !authResult.tokens) {
-        return this.createErrorResult(authResult.error || 'Authentication failed', 'AUTH_ERROR', {
-          apiCalls: 0,
-          cacheHits: 0,
-        });
-      }
-
-      // Create API client and add reaction
-      const client = new SlackClient(authResult.tokens);
+      // Shared client for the selected workspace
+      const client = this.getSlackClient(context);
       const result = await client.addReaction(args.channel_id, args.message_ts, emoji);
 
       if (!result.ok) {
@@ -57,7 +57,7 @@ export class ServerInfoTool extends BaseSlackTool {
         server: {
           name: 'slack-browser-mcp-server',
           version: '1.0.0',
-          architecture: 'tool-only',
+          architecture: 'tools-and-resources',
           status: 'operational',
           phase: 'Phase 5 - Production Ready'
         },
@@ -0,0 +1,109 @@
+import { BaseSlackTool } from './base.js';
+import { SlackTool, ToolContext, ToolExecutionResult } from '../types/tools.js';
+import { SessionMonitor, SessionStatus } from '../slack/session-monitor.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Arguments for getting session status
+ */
+export interface GetSessionStatusArgs {
+  refresh?: boolean; // Run auth.test now instead of returning the cached status
+}
+
+/**
+ * Tool for checking whether the Slack browser sessions are still valid
+ * Reports every configured workspace, marking the one selected for this call
+ */
+export class GetSessionStatusTool extends BaseSlackTool {
+  constructor() {
+    const definition: SlackTool = {
+      name: 'get_session_status',
+      description:
+        'Check whether the Slack browser session for each workspace is still valid, and who it is signed in as. ' +
+        'Use this when Slack calls fail with SESSION_EXPIRED.',
+      category: 'system',
+      action: 'GET',
+      requiresAuth: false,
+      rateLimit: {
+        rpm: 30,
+        burst: 5,
+      },
+      inputSchema: {
+        type: 'object',
+        properties: {
+          refresh: {
+            type: 'boolean',
+            default: false,
+            description: 'Check the sessions with Slack now instead of returning the cached status',
+          },
+        },
+        required: [],
+      },
+      outputSchema: {
+        type: 'object',
+        properties: {
+          sessions: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                workspace: { type: 'string' },
+                state: { type: 'string', enum: ['unknown', 'active', 'expired', 'unreachable'] },
+                user: {
+                  type: 'object',
+                  properties: {
+                    id: { type: 'string' },
+                    name: { type: 'string' },
+                    team: { type: 'string' },
+                    teamId: { type: 'string' },
+                  },
+                },
+                checkedAt: { type: 'string' },
+                lastActiveAt: { type: 'string' },
+                error: { type: 'string' },
+                current: { type: 'boolean', description: 'Workspace selected for this call' },
+              },
+              required: ['workspace', 'state', 'current'],
+            },
+          },
+          healthy: { type: 'boolean', description: 'False if any session has expired' },
+          action_required: { type: 'string', description: 'How to fix expired sessions' },
+        },
+        required: ['sessions', 'healthy'],
+      },
+    };
+
+    super(definition);
+  }
+
+  protected async executeImpl(
+    args: GetSessionStatusArgs,
+    context: ToolContext
+  ): Promise<ToolExecutionResult> {
+    const monitor = SessionMonitor.getInstance();
+
+    const statuses: SessionStatus[] = args.refresh
+      ? await monitor.checkAll()
+      : monitor.getAllStatuses();
+
+    logger.info('Session status requested', {
+      refresh: !!args.refresh,
+      workspaces: statuses.map((s) => `${s.workspace}:${s.state}`),
+    });
+
+    const expired = statuses.filter((s) => s.state === 'expired').map((s) => s.workspace);
+
+    return this.createSuccessResult({
+      sessions: statuses.map((status) => ({
+        ...status,
+        current: status.workspace === context.workspace,
+      })),
+      healthy: expired.length === 0,
+      ...(expired.length > 0 && {
+        action_required:
+          `Session expired for ${expired.join(', ')}. Log in to Slack in the browser and run ` +
+          '"slack-browser-mcp-server auth import" with a fresh cookie export.',
+      }),
+    });
+  }
+}
@@ -3,8 +3,7 @@
  * Real Slack API integration for channel operations
  */
 
-import { SlackAuth } from '../slack/auth.js';
-import { SlackClient } from '../slack/client.js';
+import { SlackClientProvider } from '../slack/client-provider.js';
 
 interface ListChannelsArgs {
   include_archived?: boolean;
@@ -13,16 +12,9 @@ interface ListChannelsArgs {
 
 export async function listChannels(args: ListChannelsArgs = {}) {
   try {
-    // Authenticate with Slack
-    const auth = new SlackAuth();
-    const authResult = await auth.authenticate();
-
-    if (!authResult.success) {
-      throw new Error(authResult.error || 'Authentication failed');
-    }
-
-    // Create API client
-    const client = new SlackClient(authResult.tokens!);
+    // Shared client for the default workspace
+    const clients = SlackClientProvider.getInstance();
+    const client = clients.getClient();
 
     // Get channels - without options to get backwards compatible array response
     const channels = await client.getChannels();
@@ -51,7 +43,7 @@ export async function listChannels(args: ListChannelsArgs = {}) {
       success: true,
       channels: channelList,
       total: channelList.length,
-      user: authResult.user,
+      user: clients.getIdentity(),
     };
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -69,16 +61,9 @@ interface ListUsersArgs {
 
 export async function listUsers(args: ListUsersArgs = {}) {
   try {
-    // Authenticate with Slack
-    const auth = new SlackAuth();
-    const authResult = await auth.authenticate();
-
-    if (!authResult.success) {
-      throw new Error(authResult.error || 'Authentication failed');
-    }
-
-    // Create API client
-    const client = new SlackClient(authResult.tokens!);
+    // Shared client for the default workspace
+    const clients = SlackClientProvider.getInstance();
+    const client = clients.getClient();
 
     // Get users - without options to get backwards compatible array response
     const users = await client.getUsers();
@@ -104,7 +89,7 @@ export async function listUsers(args: ListUsersArgs = {}) {
       success: true,
       users: userList,
       total: userList.length,
-      user: authResult.user,
+      user: clients.getIdentity(),
     };
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -123,16 +108,9 @@ interface GetChannelHistoryArgs {
 
 export async function getChannelHistory(args: GetChannelHistoryArgs) {
   try {
-    // Authenticate with Slack
-    const auth = new SlackAuth();
-    const authResult = await auth.authenticate();
-
-    if (!authResult.success) {
-      throw new Error(authResult.error || 'Authentication failed');
-    }
-
-    // Create API client
-    const client = new SlackClient(authResult.tokens!);
+    // Shared client for the default workspace
+    const clients = SlackClientProvider.getInstance();
+    const client = clients.getClient();
 
     // Get conversation history
     const messages = await client.getConversationHistory(args.channel, args.limit || 20);
@@ -152,7 +130,7 @@ export async function getChannelHistory(args: GetChannelHistoryArgs) {
       messages: messageList,
       total: messageList.length,
       channel: args.channel,
-      user: authResult.user,
+      user: clients.getIdentity(),
     };
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -4,8 +4,6 @@
  */
 
 import { BaseThreadTool } from './threads.js';
-import { SlackAuth } from '../slack/auth.js';
-import { SlackClient } from '../slack/client.js';
 import { logger } from '../utils/logger.js';
 import { 
   ToolContext, 
@@ -49,7 +47,7 @@ export class CreateThreadTool extends BaseThreadTool {
         };
       }
 
-      const client = await this.initializeSlackClient();
+      const client = this.getSlackClient(context);
 
       // First, verify the source message exists
       try {
@@ -204,7 +202,7 @@ export class ResolveThreadTool extends BaseThreadTool {
         };
       }
 
-      const client = await this.initializeSlackClient();
+      const client = this.getSlackClient(context);
       let apiCallsUsed = 0;
 
       // Add resolved reaction to parent message
@@ -245,7 +243,7 @@ export class ResolveThreadTool extends BaseThreadTool {
       if (args.notify_participants) {
         try {
           // Get thread participants first
-          const threadResult = await this.getThreadReplies(args.channel_id, args.thread_ts, 100);
+          const threadResult = await this.getThreadReplies(context, args.channel_id, args.thread_ts, 100);
           if (threadResult.success && threadResult.data) {
             const participants = this.extractParticipants(threadResult.data);
             const mentions = participants.map(userId => `<@${userId}>`).join(' ');
@@ -374,7 +372,7 @@ export class ArchiveThreadTool extends BaseThreadTool {
         };
       }
 
-      const client = await this.initializeSlackClient();
+      const client = this.getSlackClient(context);
       let apiCallsUsed = 0;
       const actions: string[] = [];
 
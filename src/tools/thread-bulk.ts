@@ -7,6 +7,7 @@ import { BaseThreadTool } from './threads.js';
 import { SlackAuth } from '../slack/auth.js';
 import { SlackClient } from '../slack/client.js';
 import { logger } from '../utils/logger.js';
+import { sleep } from '../utils/sleep.js';
 import { 
   ToolContext, 
   ToolExecutionResult,
@@ -103,6 +104,7 @@ export class BulkThreadActionsTool extends BaseThreadTool {
       const batchTimes: number[] = [];
 
       for (let i = 0; i < batches.length; i++) {
+        context.signal?.throwIfAborted();
         const batch = batches[i];
         const batchStartTime = Date.now();
         
@@ -155,11 +157,16 @@ export class BulkThreadActionsTool extends BaseThreadTool {
 
         const batchTime = Date.now() - batchStartTime;
         batchTimes.push(batchTime);
+        context.reportProgress?.(
+          result.processed,
+          totalThreads,
+          `Processed ${result.processed}/${totalThreads} threads (batch ${i + 1}/${batches.length})`
+        );
 
-        // Rate limiting: wait between batches
+        // Rate limiting: wait between batches (cut short if the client cancels)
         if (i < batches.length - 1) {
           const delay = this.calculateDelayBetweenBatches(args.action);
-          await this.sleep(delay);
+          await sleep(delay, context.signal);
         }
       }
 
@@ -386,13 +393,6 @@ export class BulkThreadActionsTool extends BaseThreadTool {
     }
   }
 
-  /**
-   * Sleep utility for rate limiting
-   */
-  private sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
-  }
-
   async validate(args: any): Promise<ToolValidationResult> {
     const errors: string[] = [];
 
@@ -4,9 +4,9 @@
  */
 
 import { BaseSlackTool } from './base.js';
-import { SlackAuth } from '../slack/auth.js';
 import { SlackClient } from '../slack/client.js';
 import { logger } from '../utils/logger.js';
+import { sleep } from '../utils/sleep.js';
 import { 
   ToolContext, 
   ToolExecutionResult,
@@ -18,15 +18,6 @@ import { SlackMessage } from '../slack/types.js';
  * Base functionality for thread tools
  */
 class ThreadToolHelper {
-  static async initializeSlackClient(): Promise<SlackClient> {
-    const auth = new SlackAuth();
-    const tokens = auth.extractTokensFromEnvironment();
-    if (!tokens) {
-      throw new Error('Slack authentication required for thread operations');
-    }
-    return new SlackClient(tokens);
-  }
-
   static validateThreadParams(args: any): { isValid: boolean; error?: string } {
     if (!args.thread_ts || !/^\d+\.\d+$/.test(args.thread_ts)) {
       return { isValid: false, error: 'Valid thread_ts is required' };
@@ -59,7 +50,7 @@ export class GetThreadContextTool extends BaseSlackTool {
     }
 
     try {
-      const client = await ThreadToolHelper.initializeSlackClient();
+      const client = this.getSlackClient(context);
       const messages = await ThreadToolHelper.getThreadReplies(client, args.channel_id, args.thread_ts);
       
       const parentMessage = messages[0];
@@ -108,7 +99,7 @@ export class NavigateThreadRepliesTool extends BaseSlackTool {
     }
 
     try {
-      const client = await ThreadToolHelper.initializeSlackClient();
+      const client = this.getSlackClient(context);
       const limit = Math.min(Math.max(args.limit || 20, 1), 100);
       
       const response = await client.getConversationReplies(args.channel_id, args.thread_ts, {
@@ -156,7 +147,7 @@ export class CreateThreadTool extends BaseSlackTool {
     }
 
     try {
-      const client = await ThreadToolHelper.initializeSlackClient();
+      const client = this.getSlackClient(context);
       
       const postResponse = await client.postMessage(
         args.channel_id,
@@ -212,7 +203,7 @@ export class ResolveThreadTool extends BaseSlackTool {
     }
 
     try {
-      const client = await ThreadToolHelper.initializeSlackClient();
+      const client = this.getSlackClient(context);
       
       // Add resolved reaction
       if (args.mark_with_reaction !== false) {
@@ -277,7 +268,7 @@ export class ArchiveThreadTool extends BaseSlackTool {
     }
 
     try {
-      const client = await ThreadToolHelper.initializeSlackClient();
+      const client = this.getSlackClient(context);
       const actions: string[] = [];
 
       // Add archive reaction
@@ -358,7 +349,7 @@ export class SummarizeThreadTool extends BaseSlackTool {
     }
 
     try {
-      const client = await ThreadToolHelper.initializeSlackClient();
+      const client = this.getSlackClient(context);
       const messages = await ThreadToolHelper.getThreadReplies(client, args.channel_id, args.thread_ts);
       
       const parentMessage = messages[0];
@@ -416,7 +407,7 @@ export class GetThreadParticipantsTool extends BaseSlackTool {
     }
 
     try {
-      const client = await ThreadToolHelper.initializeSlackClient();
+      const client = this.getSlackClient(context);
       const messages = await ThreadToolHelper.getThreadReplies(client, args.channel_id, args.thread_ts);
       
       // Analyze participants
@@ -551,9 +542,11 @@ export class BulkThreadActionsTool extends BaseSlackTool {
           }
         }
 
-        // Rate limiting delay between batches
+        context.reportProgress?.(results.length, args.thread_list.length, `Processed ${results.length}/${args.thread_list.length} threads`);
+
+        // Rate limiting delay between batches (cut short if the client cancels)
         if (i + batchSize < args.thread_list.length) {
-          await new Promise(resolve => setTimeout(resolve, 1000));
+          await sleep(1000, context.signal);
         }
       }
 
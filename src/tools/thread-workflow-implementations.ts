@@ -4,7 +4,6 @@
  */
 
 import { BaseSlackTool } from './base.js';
-import { SlackAuth } from '../slack/auth.js';
 import { SlackClient } from '../slack/client.js';
 import { logger } from '../utils/logger.js';
 import { 
@@ -13,20 +12,12 @@ import {
   ToolValidationResult 
 } from '../types/tools.js';
 import { SlackMessage } from '../slack/types.js';
+import { ResourceWatcher } from '../resources/watcher.js';
 
 /**
  * Workflow Helper Class
  */
 class WorkflowHelper {
-  static async initializeSlackClient(): Promise<SlackClient> {
-    const auth = new SlackAuth();
-    const tokens = auth.extractTokensFromEnvironment();
-    if (!tokens) {
-      throw new Error('Slack authentication required for workflow operations');
-    }
-    return new SlackClient(tokens);
-  }
-
   static validateThreadParams(args: any): { isValid: boolean; error?: string } {
     if (!args.thread_ts || !/^\d+\.\d+$/.test(args.thread_ts)) {
       return { isValid: false, error: 'Valid thread_ts is required' };
@@ -66,7 +57,7 @@ export class PromoteThreadTool extends BaseSlackTool {
     }
 
     try {
-      const client = await WorkflowHelper.initializeSlackClient();
+      const client = this.getSlackClient(context);
       const actions: string[] = [];
 
       // Add promotion reaction
@@ -151,7 +142,7 @@ export class EscalateThreadTool extends BaseSlackTool {
     }
 
     try {
-      const client = await WorkflowHelper.initializeSlackClient();
+      const client = this.getSlackClient(context);
       const escalationLevel = args.escalation_level || 'medium';
       const actions: string[] = [];
 
@@ -247,7 +238,7 @@ export class MergeThreadsTool extends BaseSlackTool {
     }
 
     try {
-      const client = await WorkflowHelper.initializeSlackClient();
+      const client = this.getSlackClient(context);
       const mergeStrategy = args.merge_strategy || 'reference';
       const mergeResults: any[] = [];
 
@@ -355,7 +346,7 @@ export class SplitThreadTool extends BaseSlackTool {
     }
 
     try {
-      const client = await WorkflowHelper.initializeSlackClient();
+      const client = this.getSlackClient(context);
       
       // Create new thread with the specified topic
       const newThreadMessage = `🔀 **New Discussion Thread**\\n\\nTopic: ${args.new_thread_topic}`;
@@ -432,7 +423,7 @@ export class ThreadWatcherTool extends BaseSlackTool {
     }
 
     try {
-      const client = await WorkflowHelper.initializeSlackClient();
+      const client = this.getSlackClient(context);
       const watchType = args.watch_type || 'activity';
       const watchDuration = args.watch_duration_hours || 24;
       
@@ -441,29 +432,22 @@ export class ThreadWatcherTool extends BaseSlackTool {
       const currentMessageCount = messages.length;
       const lastActivity = messages[messages.length - 1]?.ts || args.thread_ts;
 
-      // Set up watch notification
-      const watchMessage = `👁️ **Thread Watch Active**\\n\\nWatch Type: ${watchType}\\nDuration: ${watchDuration} hours\\nCurrent Messages: ${currentMessageCount}`;
-      
-      try {
-        await client.postMessage(
-          args.channel_id,
-          watchMessage,
-          undefined, // blocks
-          args.thread_ts, // thread_ts
-          undefined, // attachments
-          false // unfurl_links
-        );
-      } catch (error) {
-        logger.warn('Could not post watch notification', { error });
-      }
+      // Poll the thread for new replies; clients get notifications/resources/updated
+      const resourceUri = `slack://thread/${args.channel_id}/${args.thread_ts}`;
+      const watch = await ResourceWatcher.getInstance().watch(
+        resourceUri,
+        'watch_thread',
+        watchDuration * 60 * 60 * 1000
+      );
 
       const result = {
         thread_ts: args.thread_ts,
         channel_id: args.channel_id,
+        resource_uri: resourceUri,
         watch_type: watchType,
         watch_duration_hours: watchDuration,
         watch_started_at: new Date().toISOString(),
-        watch_expires_at: new Date(Date.now() + watchDuration * 60 * 60 * 1000).toISOString(),
+        watch_expires_at: watch.expires_at,
         baseline_message_count: currentMessageCount,
         last_activity_ts: lastActivity,
         notification_threshold: args.notification_threshold || 5,
@@ -506,7 +490,7 @@ export class ThreadMetricsTool extends BaseSlackTool {
     }
 
     try {
-      const client = await WorkflowHelper.initializeSlackClient();
+      const client = this.getSlackClient(context);
       const messages = await WorkflowHelper.getThreadMessages(client, args.channel_id, args.thread_ts);
       
       // Basic thread metrics
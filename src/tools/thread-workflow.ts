@@ -4,7 +4,6 @@
  */
 
 import { BaseSlackTool } from './base.js';
-import { SlackAuth } from '../slack/auth.js';
 import { SlackClient } from '../slack/client.js';
 import { logger } from '../utils/logger.js';
 import { 
@@ -20,15 +19,6 @@ import { SlackMessage } from '../slack/types.js';
  * Thread Workflow Helper Class
  */
 class ThreadWorkflowHelper {
-  static async initializeSlackClient(): Promise<SlackClient> {
-    const auth = new SlackAuth();
-    const tokens = auth.extractTokensFromEnvironment();
-    if (!tokens) {
-      throw new Error('Slack authentication required for thread workflow operations');
-    }
-    return new SlackClient(tokens);
-  }
-
   static validateThreadParams(args: any): { isValid: boolean; error?: string } {
     if (!args.thread_ts || !/^\d+\.\d+$/.test(args.thread_ts)) {
       return { isValid: false, error: 'Valid thread_ts is required' };
@@ -264,7 +254,7 @@ export class ThreadWorkflowTools {
   static createThreadWatcherTool(): SlackTool {
     return {
       name: 'watch_thread',
-      description: 'Monitor thread for activity, status changes, and automated notifications',
+      description: 'Watch a thread for new replies. Clients receive notifications/resources/updated for its slack://thread resource until the watch expires',
       category: ToolCategory.CONVERSATIONS,
       inputSchema: {
         type: 'object',
@@ -4,8 +4,6 @@
  */
 
 import { BaseSlackTool } from './base.js';
-import { SlackAuth } from '../slack/auth.js';
-import { SlackClient } from '../slack/client.js';
 import { logger } from '../utils/logger.js';
 import { 
   SlackTool, 
@@ -36,31 +34,10 @@ import { SlackMessage } from '../slack/types.js';
  * Base class for all thread management tools
  */
 export abstract class BaseThreadTool extends BaseSlackTool {
-  protected slackClient: SlackClient | null = null;
-  
   constructor(definition: SlackTool) {
     super(definition);
   }
 
-  /**
-   * Initialize Slack client với authentication
-   */
-  protected async initializeSlackClient(): Promise<SlackClient> {
-    if (this.slackClient) {
-      return this.slackClient;
-    }
-
-    const auth = new SlackAuth();
-    const tokens = auth.extractTokensFromEnvironment();
-    if (!tokens) {
-      throw new Error('Slack authentication required for thread operations');
-    }
-
-    this.slackClient = new SlackClient(tokens);
-
-    return this.slackClient;
-  }
-
   /**
    * Validate thread parameters
    */
@@ -106,6 +83,7 @@ export abstract class BaseThreadTool extends BaseSlackTool {
    * Get thread replies với error handling
    */
   protected async getThreadReplies(
+    context: ToolContext,
     channelId: string, 
     threadTs: string, 
     limit?: number
@@ -113,7 +91,7 @@ export abstract class BaseThreadTool extends BaseSlackTool {
     const startTime = Date.now();
     
     try {
-      const client = await this.initializeSlackClient();
+      const client = this.getSlackClient(context);
       const response = await client.getConversationReplies(channelId, threadTs, {
         limit: limit || 100,
         inclusive: true
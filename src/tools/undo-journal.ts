@@ -0,0 +1,253 @@
+/**
+ * Undo Journal
+ * Recent posts, edits and reactions, with what it takes to reverse each one
+ */
+
+import { randomUUID } from 'node:crypto';
+import { InputValidationError, UndoActionNotFoundError } from '../errors/index.js';
+import type { SlackClient } from '../slack/client.js';
+import { SlackClientProvider } from '../slack/client-provider.js';
+import type { SlackMessage } from '../slack/types.js';
+import type { JSONSchema, ToolContext } from '../types/tools.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * The Slack call that reverses a journaled change
+ */
+export type UndoOperation =
+  | { method: 'chat.delete'; channel: string; ts: string }
+  | { method: 'chat.update'; channel: string; ts: string; text: string; blocks: any[] }
+  | { method: 'reactions.remove'; channel: string; ts: string; name: string };
+
+/**
+ * A change that can be undone
+ */
+export interface JournalEntry {
+  id: string;
+  tool: string;
+  workspace?: string;
+  userId?: string; // Only the client that made a change may undo it
+  description: string;
+  inverse: UndoOperation;
+  createdAt: number;
+}
+
+/**
+ * Result field of calls that can be undone, added to the outputSchema of each journaled tool
+ */
+export const UNDO_PROPERTIES: Record<string, JSONSchema> = {
+  undo_id: { type: 'string', description: 'Pass to undo_action to reverse this change' },
+};
+
+/**
+ * Most changes remembered; the oldest are forgotten first
+ */
+const MAX_ENTRIES = 50;
+
+const UPDATE_TOOLS = ['update_message', 'update_message_blocks'];
+const JOURNALED_TOOLS = [
+  'post_message',
+  'post_message_blocks',
+  'react_to_message',
+  ...UPDATE_TOOLS,
+];
+
+/**
+ * Remembers the last changes made through the message and reaction tools so
+ * they can be reversed: a post by deleting it, an edit by restoring the text
+ * and blocks fetched before it, a reaction by removing it. Deletions cannot be
+ * undone. The journal is kept in memory, so a restart clears it.
+ */
+export class UndoJournal {
+  private entries: JournalEntry[] = [];
+
+  constructor(private clientProvider: SlackClientProvider = SlackClientProvider.getInstance()) {}
+
+  /**
+   * Whether calls to a tool are journaled
+   */
+  tracks(toolName: string): boolean {
+    return JOURNALED_TOOLS.includes(toolName);
+  }
+
+  /**
+   * Fetch what a call is about to overwrite. Without it the edit still runs,
+   * but cannot be undone.
+   */
+  async capture(
+    toolName: string,
+    args: Record<string, any>,
+    context: ToolContext
+  ): Promise<SlackMessage | undefined> {
+    if (!UPDATE_TOOLS.includes(toolName) || typeof args.channel !== 'string') {
+      return undefined;
+    }
+
+    try {
+      const client = this.clientProvider.getClient(context.workspace).withSignal(context.signal);
+      return await client.getMessage(args.channel.trim(), args.ts);
+    } catch (error) {
+      logger.warn('Could not fetch message before editing; the edit cannot be undone', {
+        toolName,
+        channel: args.channel,
+        ts: args.ts,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return undefined;
+    }
+  }
+
+  /**
+   * Remember a successful call. Returns the entry, or undefined when the
+   * change cannot be reversed.
+   */
+  record(
+    toolName: string,
+    args: Record<string, any>,
+    data: Record<string, any>,
+    previous: SlackMessage | undefined,
+    context: ToolContext
+  ): JournalEntry | undefined {
+    const inverse = this.inverseOf(toolName, args, data, previous);
+    if (!inverse) {
+      return undefined;
+    }
+
+    const entry: JournalEntry = {
+      id: `undo_${randomUUID().replace(/-/g, '').slice(0, 16)}`,
+      tool: toolName,
+      workspace: context.workspace,
+      userId: context.userId,
+      description: describe(toolName, inverse),
+      inverse,
+      createdAt: Date.now(),
+    };
+    this.entries.push(entry);
+    if (this.entries.length > MAX_ENTRIES) {
+      this.entries.shift();
+    }
+
+    logger.debug('Change journaled for undo', {
+      undoId: entry.id,
+      toolName,
+      workspace: entry.workspace,
+      traceId: context.traceId,
+    });
+    return entry;
+  }
+
+  /**
+   * The entry to undo: the given one, or the caller's most recent change in
+   * the call's workspace
+   */
+  find(actionId: string | undefined, context: ToolContext): JournalEntry {
+    const entry = actionId
+      ? this.entries.find((candidate) => candidate.id === actionId)
+      : this.entries
+          .filter((candidate) => candidate.workspace === context.workspace)
+          .reverse()
+          .find((candidate) => candidate.userId === context.userId);
+
+    if (!entry || entry.userId !== context.userId) {
+      throw new UndoActionNotFoundError(actionId, context.traceId);
+    }
+    if (entry.workspace !== context.workspace) {
+      throw new InputValidationError(
+        'workspace',
+        `action ${entry.id} was made in workspace ${entry.workspace}; pass workspace: "${entry.workspace}"`,
+        context.traceId
+      );
+    }
+    return entry;
+  }
+
+  /**
+   * Replay an entry's inverse. The entry leaves the journal once it succeeds,
+   * unless this is a dry run.
+   */
+  async undo(entry: JournalEntry, client: SlackClient, context: ToolContext): Promise<void> {
+    const { inverse } = entry;
+    switch (inverse.method) {
+      case 'chat.delete':
+        await client.deleteMessage(inverse.channel, inverse.ts);
+        break;
+      case 'chat.update':
+        await client.updateMessage(inverse.channel, inverse.ts, inverse.text, inverse.blocks);
+        break;
+      case 'reactions.remove': {
+        const response = await client.removeReaction(inverse.channel, inverse.ts, inverse.name);
+        if (!response.ok) {
+          throw new Error(response.error || 'Failed to remove reaction');
+        }
+        break;
+      }
+    }
+
+    if (context.dryRun) {
+      return;
+    }
+    this.entries = this.entries.filter((candidate) => candidate !== entry);
+    logger.info('Change undone', {
+      undoId: entry.id,
+      toolName: entry.tool,
+      method: inverse.method,
+      traceId: context.traceId,
+    });
+  }
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  private inverseOf(
+    toolName: string,
+    args: Record<string, any>,
+    data: Record<string, any>,
+    previous: SlackMessage | undefined
+  ): UndoOperation | undefined {
+    switch (toolName) {
+      case 'post_message':
+      case 'post_message_blocks':
+        return data.channel && data.ts
+          ? { method: 'chat.delete', channel: data.channel, ts: data.ts }
+          : undefined;
+      case 'update_message':
+      case 'update_message_blocks':
+        // An empty blocks array clears blocks the edit added
+        return previous
+          ? {
+              method: 'chat.update',
+              channel: data.channel || args.channel.trim(),
+              ts: previous.ts,
+              text: previous.text,
+              blocks: previous.blocks || [],
+            }
+          : undefined;
+      case 'react_to_message':
+        return data.reaction_added
+          ? {
+              method: 'reactions.remove',
+              channel: args.channel_id,
+              ts: args.message_ts,
+              name: data.reaction_added,
+            }
+          : undefined;
+      default:
+        return undefined;
+    }
+  }
+}
+
+/**
+ * Describe in plain words what undoing an entry will do
+ */
+function describe(toolName: string, inverse: UndoOperation): string {
+  switch (inverse.method) {
+    case 'chat.delete':
+      return `Delete message ${inverse.ts} in ${inverse.channel}, posted with ${toolName}`;
+    case 'chat.update':
+      return `Restore the previous text of message ${inverse.ts} in ${inverse.channel}, edited with ${toolName}`;
+    case 'reactions.remove':
+      return `Remove the :${inverse.name}: reaction from message ${inverse.ts} in ${inverse.channel}`;
+  }
+}
@@ -0,0 +1,155 @@
+import { BaseSlackTool } from './base.js';
+import { JournalEntry, UndoJournal } from './undo-journal.js';
+import { SlackTool, ToolContext, ToolExecutionResult } from '../types/tools.js';
+import { MCPError } from '../errors/index.js';
+import { ResourcePolicy } from '../security/index.js';
+
+/**
+ * Arguments for undoing a specific change
+ */
+export interface UndoActionArgs {
+  action_id: string;
+}
+
+const UNDO_OUTPUT_SCHEMA = {
+  type: 'object',
+  properties: {
+    status: { type: 'string', enum: ['undone'] },
+    action_id: { type: 'string' },
+    tool: { type: 'string', description: 'Tool that made the change' },
+    undone: { type: 'string', description: 'What was done to reverse it' },
+    method: { type: 'string', description: 'Slack API method that reversed it' },
+    channel: { type: 'string' },
+    ts: { type: 'string' },
+  },
+  required: ['status', 'action_id', 'tool', 'undone'],
+};
+
+/**
+ * Shared by the undo tools: find the entry, check the policy still allows
+ * writing to its channel, replay its inverse, describe the result
+ */
+abstract class BaseUndoTool extends BaseSlackTool {
+  constructor(
+    definition: SlackTool,
+    protected journal: UndoJournal,
+    private policy: ResourcePolicy
+  ) {
+    super(definition);
+  }
+
+  protected async undo(
+    actionId: string | undefined,
+    context: ToolContext
+  ): Promise<ToolExecutionResult> {
+    let entry: JournalEntry;
+    try {
+      entry = this.journal.find(actionId, context);
+      await this.policy.check(
+        this.getDefinition().name,
+        { channel: entry.inverse.channel },
+        'write',
+        entry.workspace
+      );
+    } catch (error) {
+      if (error instanceof MCPError) {
+        return this.createErrorResult(error.getUserMessage(), error.code);
+      }
+      throw error;
+    }
+
+    try {
+      await this.journal.undo(entry, this.getSlackClient(context), context);
+    } catch (error) {
+      return this.createErrorResult(
+        `Could not undo ${entry.id} (${entry.description}): ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'UNDO_FAILED',
+        { apiCalls: 1, cacheHits: 0 }
+      );
+    }
+
+    return this.createSuccessResult(
+      {
+        status: 'undone',
+        action_id: entry.id,
+        tool: entry.tool,
+        undone: entry.description,
+        method: entry.inverse.method,
+        channel: entry.inverse.channel,
+        ts: entry.inverse.ts,
+      },
+      { apiCalls: 1, cacheHits: 0 }
+    );
+  }
+}
+
+/**
+ * Tool that reverses the most recent post, edit or reaction in the workspace
+ */
+export class UndoLastActionTool extends BaseUndoTool {
+  constructor(journal: UndoJournal, policy: ResourcePolicy = new ResourcePolicy()) {
+    super(
+      {
+        name: 'undo_last_action',
+        description:
+          'Undo the most recent post, edit or reaction made through this server in the workspace: ' +
+          'deletes a posted message, restores the previous text of an edited one, or removes a reaction. ' +
+          'Deletions cannot be undone.',
+        category: 'messaging',
+        action: 'DELETE',
+        requiresAuth: true,
+        annotations: { idempotentHint: false },
+        inputSchema: { type: 'object', properties: {}, required: [] },
+        outputSchema: UNDO_OUTPUT_SCHEMA,
+      },
+      journal,
+      policy
+    );
+  }
+
+  protected async executeImpl(
+    _args: Record<string, never>,
+    context: ToolContext
+  ): Promise<ToolExecutionResult> {
+    return this.undo(undefined, context);
+  }
+}
+
+/**
+ * Tool that reverses a specific change, by the undo_id its result carried
+ */
+export class UndoActionTool extends BaseUndoTool {
+  constructor(journal: UndoJournal, policy: ResourcePolicy = new ResourcePolicy()) {
+    super(
+      {
+        name: 'undo_action',
+        description:
+          'Undo a specific post, edit or reaction by the undo_id from its result: ' +
+          'deletes a posted message, restores the previous text of an edited one, or removes a reaction.',
+        category: 'messaging',
+        action: 'DELETE',
+        requiresAuth: true,
+        inputSchema: {
+          type: 'object',
+          properties: {
+            action_id: {
+              type: 'string',
+              description: 'undo_id from the result of the call to undo',
+            },
+          },
+          required: ['action_id'],
+        },
+        outputSchema: UNDO_OUTPUT_SCHEMA,
+      },
+      journal,
+      policy
+    );
+  }
+
+  protected async executeImpl(
+    args: UndoActionArgs,
+    context: ToolContext
+  ): Promise<ToolExecutionResult> {
+    return this.undo(args.action_id, context);
+  }
+}
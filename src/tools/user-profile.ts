@@ -1,7 +1,5 @@
 import { BaseSlackTool } from './base.js';
 import { ToolExecutionResult, ToolContext, SlackTool } from '../types/tools.js';
-import { SlackAuth } from '../slack/auth.js';
-import { SlackClient } from '../slack/client.js';
 import { logger } from '../utils/logger.js';
 
 /**
@@ -38,6 +36,15 @@ export class GetUserProfileTool extends BaseSlackTool {
         },
         required: ['user_id'],
       },
+      outputSchema: {
+        type: 'object',
+        properties: {
+          display_name: { type: 'string', description: 'Display name, or real name if unset' },
+          account: { type: 'string', description: 'Email username (empty if the email is hidden)' },
+          user_id: { type: 'string' },
+        },
+        required: ['display_name', 'account', 'user_id'],
+      },
     };
 
     super(definition);
@@ -50,30 +57,8 @@ export class GetUserProfileTool extends BaseSlackTool {
     try {
       logger.info('Getting user profile', { userId: args.user_id });
 
-      // Authenticate with Slack
-      const auth = new SlackAuth();
-      const authResult = await auth.authenticate();
-
-      if (!authResult.success || !authResult.tokens) {
-        return {
-          success: false,
-          error: authResult.error || 'Authentication failed',
-          content: [
-            {
-              type: 'text',
-              text: `❌ Authentication failed: ${authResult.error || 'Unknown error'}`,
-            },
-          ],
-          metadata: {
-            executionTime: 0,
-            apiCalls: 0,
-            cacheHits: 0,
-          },
-        };
-      }
-
-      // Create API client
-      const client = new SlackClient(authResult.tokens);
+      // Shared client for the selected workspace
+      const client = this.getSlackClient(context);
 
       // Call Slack API users.profile.get
       const response = await client.getUserProfile(args.user_id);
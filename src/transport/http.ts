@@ -0,0 +1,463 @@
+import { createServer, IncomingMessage, Server as HttpServer, ServerResponse } from 'node:http';
+import { randomUUID } from 'node:crypto';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { logger } from '../utils/logger.js';
+import { HttpAuthenticator, ClientIdentity } from '../security/http-auth.js';
+import { MCPError } from '../errors/index.js';
+
+export interface HttpTransportOptions {
+  host: string;
+  port: number;
+  maxSessions: number;
+  sessionIdleTimeoutMs: number; // Streamable sessions with no request for this long are closed
+  authenticator?: HttpAuthenticator;
+}
+
+type AuthenticatedRequest = IncomingMessage & { auth?: AuthInfo };
+
+interface HttpSession {
+  server: Server;
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  kind: 'streamable' | 'sse';
+  clientId: string;
+  createdAt: number;
+  lastActivity: number;
+  openRequests: number; // Requests still being answered, including open GET streams
+}
+
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+/**
+ * Longest time between checks for idle sessions
+ */
+const MAX_IDLE_SWEEP_INTERVAL_MS = 60 * 1000;
+
+/**
+ * HTTP transport serving several MCP sessions from one process
+ *
+ * Endpoints:
+ * - POST/GET/DELETE /mcp  Streamable HTTP (current protocol)
+ * - GET /sse + POST /messages  HTTP+SSE fallback for older clients
+ * - GET /health  Liveness check
+ *
+ * Every session gets its own MCP Server instance from the factory; tools and
+ * Slack state are shared by whatever the factory closes over. When an
+ * authenticator is configured, every request except /health is authenticated
+ * and sessions can only be used by the client that created them.
+ *
+ * Streamable sessions end on DELETE, or once they have gone sessionIdleTimeoutMs
+ * without a request, so clients that vanish do not hold a session slot
+ * forever. SSE sessions end when their stream closes.
+ */
+export class HttpTransport {
+  private httpServer: HttpServer | null = null;
+  private sessions: Map<string, HttpSession> = new Map();
+  private idleSweepTimer: NodeJS.Timeout | null = null;
+  private closing = false;
+
+  constructor(
+    private createMcpServer: () => Server,
+    private options: HttpTransportOptions
+  ) {}
+
+  /**
+   * Start listening
+   */
+  async start(): Promise<void> {
+    this.httpServer = createServer((req, res) => {
+      this.handleRequest(req, res).catch((error) => {
+        logger.error('HTTP transport request failed', {
+          method: req.method,
+          url: req.url,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+        if (!res.headersSent) {
+          this.sendJsonRpcError(res, 500, -32603, 'Internal server error');
+        }
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      this.httpServer!.once('error', reject);
+      this.httpServer!.listen(this.options.port, this.options.host, () => {
+        this.httpServer!.off('error', reject);
+        resolve();
+      });
+    });
+
+    this.idleSweepTimer = setInterval(
+      () => this.closeIdleSessions(),
+      Math.min(this.options.sessionIdleTimeoutMs, MAX_IDLE_SWEEP_INTERVAL_MS)
+    );
+    this.idleSweepTimer.unref();
+
+    logger.info('HTTP transport listening', {
+      host: this.options.host,
+      port: this.getPort(),
+      endpoints: ['/mcp', '/sse', '/messages', '/health'],
+      maxSessions: this.options.maxSessions,
+      sessionIdleTimeoutMs: this.options.sessionIdleTimeoutMs,
+    });
+  }
+
+  /**
+   * Close every session and stop accepting connections
+   */
+  async close(): Promise<void> {
+    if (this.closing) return;
+    this.closing = true;
+
+    logger.info('Closing HTTP transport', { activeSessions: this.sessions.size });
+
+    if (this.idleSweepTimer) {
+      clearInterval(this.idleSweepTimer);
+      this.idleSweepTimer = null;
+    }
+
+    const sessions = Array.from(this.sessions.entries());
+    this.sessions.clear();
+
+    await Promise.allSettled(
+      sessions.map(async ([sessionId, session]) => {
+        try {
+          await session.server.close();
+        } catch (error) {
+          logger.warn('Failed to close MCP session', {
+            sessionId,
+            error: error instanceof Error ? error.message : 'Unknown error',
+          });
+        }
+      })
+    );
+
+    if (this.httpServer) {
+      const server = this.httpServer;
+      await new Promise<void>((resolve) => {
+        server.close(() => resolve());
+        // Drop idle keep-alive sockets so close() can complete
+        server.closeIdleConnections();
+      });
+      this.httpServer = null;
+    }
+
+    logger.info('HTTP transport closed');
+  }
+
+  /**
+   * Get the bound port (useful when listening on port 0)
+   */
+  getPort(): number {
+    const address = this.httpServer?.address();
+    return address && typeof address === 'object' ? address.port : this.options.port;
+  }
+
+  /**
+   * Get number of active sessions
+   */
+  getSessionCount(): number {
+    return this.sessions.size;
+  }
+
+  private async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`);
+
+    if (this.closing) {
+      this.sendJsonRpcError(res, 503, -32000, 'Server is shutting down');
+      return;
+    }
+
+    let identity: ClientIdentity | null = null;
+    if (url.pathname !== '/health') {
+      identity = this.authenticateRequest(req, res);
+      if (!identity) return;
+    }
+
+    switch (url.pathname) {
+      case '/mcp':
+        await this.handleStreamableRequest(req, res, identity!);
+        return;
+      case '/sse':
+        if (req.method === 'GET') {
+          await this.handleSseConnect(res, identity!);
+          return;
+        }
+        break;
+      case '/messages':
+        if (req.method === 'POST') {
+          await this.handleSseMessage(req, res, url.searchParams.get('sessionId'), identity!);
+          return;
+        }
+        break;
+      case '/health':
+        if (req.method === 'GET') {
+          res.writeHead(200, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ status: 'ok', sessions: this.sessions.size }));
+          return;
+        }
+        break;
+      default:
+        res.writeHead(404, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: 'Not found' }));
+        return;
+    }
+
+    res.writeHead(405, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ error: 'Method not allowed' }));
+  }
+
+  /**
+   * Streamable HTTP: route to an existing session or create one on initialize
+   */
+  private async handleStreamableRequest(
+    req: IncomingMessage,
+    res: ServerResponse,
+    identity: ClientIdentity
+  ): Promise<void> {
+    const sessionId = req.headers['mcp-session-id'];
+    let body: unknown;
+    if (req.method === 'POST') {
+      const parsed = await this.readJsonBody(req, res);
+      if (!parsed) return;
+      body = parsed.body;
+    }
+
+    if (typeof sessionId === 'string') {
+      const session = this.sessions.get(sessionId);
+      if (!session || session.kind !== 'streamable' || session.clientId !== identity.clientId) {
+        this.sendJsonRpcError(res, 404, -32001, 'Session not found');
+        return;
+      }
+      this.trackActivity(session, res);
+      await (session.transport as StreamableHTTPServerTransport).handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method !== 'POST' || !isInitializeRequest(body)) {
+      this.sendJsonRpcError(res, 400, -32000, 'Bad Request: No valid session ID provided');
+      return;
+    }
+
+    if (!this.hasSessionCapacity(res)) return;
+
+    const server = this.createMcpServer();
+    const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        this.sessions.set(id, {
+          server,
+          transport,
+          kind: 'streamable',
+          clientId: identity.clientId,
+          createdAt: Date.now(),
+          lastActivity: Date.now(),
+          openRequests: 0,
+        });
+        logger.info('MCP HTTP session started', {
+          sessionId: id,
+          clientId: identity.clientId,
+          activeSessions: this.sessions.size,
+        });
+      },
+    });
+
+    transport.onclose = () => {
+      if (transport.sessionId && this.sessions.delete(transport.sessionId)) {
+        logger.info('MCP HTTP session closed', {
+          sessionId: transport.sessionId,
+          activeSessions: this.sessions.size,
+        });
+      }
+    };
+
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  }
+
+  /**
+   * HTTP+SSE fallback: open the event stream for a new session
+   */
+  private async handleSseConnect(res: ServerResponse, identity: ClientIdentity): Promise<void> {
+    if (!this.hasSessionCapacity(res)) return;
+
+    const server = this.createMcpServer();
+    const transport = new SSEServerTransport('/messages', res);
+    const sessionId = transport.sessionId;
+
+    this.sessions.set(sessionId, {
+      server,
+      transport,
+      kind: 'sse',
+      clientId: identity.clientId,
+      createdAt: Date.now(),
+      lastActivity: Date.now(),
+      openRequests: 0,
+    });
+    logger.info('MCP SSE session started', {
+      sessionId,
+      clientId: identity.clientId,
+      activeSessions: this.sessions.size,
+    });
+
+    res.on('close', () => {
+      if (this.sessions.delete(sessionId)) {
+        logger.info('MCP SSE session closed', { sessionId, activeSessions: this.sessions.size });
+        server.close().catch(() => undefined);
+      }
+    });
+
+    await server.connect(transport);
+  }
+
+  /**
+   * HTTP+SSE fallback: deliver a client message to its session
+   */
+  private async handleSseMessage(
+    req: IncomingMessage,
+    res: ServerResponse,
+    sessionId: string | null,
+    identity: ClientIdentity
+  ): Promise<void> {
+    const session = sessionId ? this.sessions.get(sessionId) : undefined;
+    if (!session || session.kind !== 'sse' || session.clientId !== identity.clientId) {
+      this.sendJsonRpcError(res, 404, -32001, 'Session not found');
+      return;
+    }
+
+    const parsed = await this.readJsonBody(req, res);
+    if (!parsed) return;
+    session.lastActivity = Date.now();
+    await (session.transport as SSEServerTransport).handlePostMessage(req, res, parsed.body);
+  }
+
+  /**
+   * Authenticate the caller and attach its identity for MCP handlers (extra.authInfo)
+   */
+  private authenticateRequest(req: IncomingMessage, res: ServerResponse): ClientIdentity | null {
+    if (!this.options.authenticator) {
+      return { clientId: 'anonymous', method: 'anonymous' };
+    }
+
+    try {
+      const identity = this.options.authenticator.authenticate(req);
+      (req as AuthenticatedRequest).auth = HttpAuthenticator.toAuthInfo(identity);
+      return identity;
+    } catch (error) {
+      const status = error instanceof MCPError ? error.statusCode : 401;
+      logger.warn('Rejected HTTP request', {
+        path: req.url,
+        remoteAddress: req.socket.remoteAddress,
+        reason: error instanceof Error ? error.message : 'Unknown error',
+      });
+      if (status === 401) {
+        res.setHeader('WWW-Authenticate', 'Bearer realm="slack-browser-mcp-server"');
+      }
+      this.sendJsonRpcError(
+        res,
+        status,
+        -32001,
+        error instanceof MCPError ? error.getUserMessage() : 'Unauthorized'
+      );
+      return null;
+    }
+  }
+
+  private hasSessionCapacity(res: ServerResponse): boolean {
+    if (this.sessions.size >= this.options.maxSessions) {
+      logger.warn('Rejecting MCP session: limit reached', {
+        maxSessions: this.options.maxSessions,
+      });
+      this.sendJsonRpcError(res, 503, -32000, 'Too many active sessions');
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Count a request as activity on its session until the response is done
+   */
+  private trackActivity(session: HttpSession, res: ServerResponse): void {
+    session.openRequests++;
+    session.lastActivity = Date.now();
+    res.once('close', () => {
+      session.openRequests--;
+      session.lastActivity = Date.now();
+    });
+  }
+
+  /**
+   * Close streamable sessions that have had no request, and no open stream,
+   * for longer than the idle timeout
+   */
+  private closeIdleSessions(): void {
+    const cutoff = Date.now() - this.options.sessionIdleTimeoutMs;
+    for (const [sessionId, session] of this.sessions) {
+      if (
+        session.kind !== 'streamable' ||
+        session.openRequests > 0 ||
+        session.lastActivity > cutoff
+      ) {
+        continue;
+      }
+
+      this.sessions.delete(sessionId);
+      logger.info('MCP HTTP session closed after idle timeout', {
+        sessionId,
+        clientId: session.clientId,
+        idleMs: Date.now() - session.lastActivity,
+        activeSessions: this.sessions.size,
+      });
+      // Closing the server closes its transport too
+      session.server.close().catch((error) => {
+        logger.warn('Failed to close idle MCP session', {
+          sessionId,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      });
+    }
+  }
+
+  /**
+   * Read and parse a JSON request body. An oversize body gets a 413 and a
+   * malformed or empty one a JSON-RPC parse error; both return undefined, and
+   * the request must not be handled further.
+   */
+  private async readJsonBody(
+    req: IncomingMessage,
+    res: ServerResponse
+  ): Promise<{ body: unknown } | undefined> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    for await (const chunk of req) {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        // The rest of the body is not read, so the connection cannot be reused
+        res.setHeader('Connection', 'close');
+        this.sendJsonRpcError(res, 413, -32600, `Request body exceeds ${MAX_BODY_BYTES} bytes`);
+        return undefined;
+      }
+      chunks.push(chunk as Buffer);
+    }
+
+    try {
+      return { body: JSON.parse(Buffer.concat(chunks).toString('utf8')) };
+    } catch {
+      this.sendJsonRpcError(res, 400, -32700, 'Parse error: request body is not valid JSON');
+      return undefined;
+    }
+  }
+
+  private sendJsonRpcError(
+    res: ServerResponse,
+    status: number,
+    code: number,
+    message: string
+  ): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ jsonrpc: '2.0', error: { code, message }, id: null }));
+  }
+}
@@ -1,3 +1,13 @@
+import type { ToolAnnotations } from '@modelcontextprotocol/sdk/types.js';
+import type { SlackClientProvider } from '../slack/client-provider.js';
+import type { DryRunCall } from '../slack/client.js';
+import type {
+  ApprovalConfig,
+  ReadOnlyConfig,
+  ToolDefaults,
+  ToolSelection,
+} from '../utils/config.js';
+
 // JSON Schema type definition
 export interface JSONSchema {
   type?: string;
@@ -14,10 +24,13 @@ export interface SlackTool {
   name: string;
   description: string;
   inputSchema: JSONSchema;
+  outputSchema?: JSONSchema;  // Shape of successful result data; published so clients can use structuredContent
   category: ToolCategory | string;
   tags?: string[];
   requiresAuth?: boolean;
+  timeoutMs?: number;  // Overrides the registry's defaultTimeout
   action?: 'GET' | 'POST' | 'PUT' | 'DELETE';  // MCP action type for tools
+  annotations?: ToolAnnotations;  // Overrides for the hints derived from action
   rateLimit?: {
     maxCalls?: number;      // Legacy format
     windowMs?: number;      // Legacy format
@@ -47,9 +60,36 @@ export interface ToolContext {
   startTime: number;
   traceId: string;
   userId?: string;
+  workspace?: string; // Selected Slack workspace name (default workspace when omitted)
+  action?: SlackTool['action']; // Action of the tool being called; GET tools only read
+  slackClients?: SlackClientProvider; // Shared per-workspace clients, injected by ToolRegistry
+  signal?: AbortSignal; // Aborted with an OperationCancelledError when the client cancels the call
+  reportProgress?: ProgressReporter; // No-op unless the client asked for progress
+  dryRun?: DryRunCall[]; // Dry runs only: calls that would change Slack are recorded here, not sent
   metadata?: Record<string, any>;
 }
 
+/**
+ * Report how far a long-running call has got (MCP notifications/progress)
+ */
+export type ProgressReporter = (progress: number, total?: number, message?: string) => void;
+
+/**
+ * Per-call options supplied by the transport layer
+ */
+export interface ToolExecutionOptions {
+  userId?: string; // Authenticated client identity (HTTP transport)
+  signal?: AbortSignal; // Aborted when the client sends notifications/cancelled
+  onProgress?: ProgressReporter; // Set when the request carried a progressToken
+  confirm?: ApprovalPrompt; // Set when the client can ask its user (MCP elicitation)
+}
+
+/**
+ * Ask the client's user about a held call: true approves it, false rejects it,
+ * undefined (no answer) leaves it pending
+ */
+export type ApprovalPrompt = (message: string, signal?: AbortSignal) => Promise<boolean | undefined>;
+
 /**
  * Tool execution result
  */
@@ -63,6 +103,8 @@ export interface ToolExecutionResult {
     text: string;
   }>;
   isError?: boolean;
+  structuredContent?: Record<string, unknown>;  // Result data, for tools that declare an outputSchema
+  _meta?: Record<string, unknown>;  // Error details for limit and cancellation failures
   metadata?: {
     executionTime: number;
     apiCalls: number;
@@ -113,9 +155,16 @@ export interface ToolMiddleware {
 export interface ToolRegistryConfig {
   enableMetrics: boolean;
   enableTracing: boolean;
-  defaultTimeout: number;
+  defaultTimeout: number;  // ms a call may run, unless the tool sets timeoutMs
   maxConcurrentExecutions: number;
+  queueTimeout: number;  // ms a call may wait for a free slot before failing with ConcurrencyLimitError
   middleware: ToolMiddleware[];
+  tools: ToolSelection;  // Which tools are exposed (config profile)
+  toolDefaults: ToolDefaults;  // Argument values used when the caller omits them (config profile)
+  readOnly: ReadOnlyConfig;  // Workspaces where tools that write to Slack are hidden and rejected
+  approval: ApprovalConfig;  // Tools whose calls are held until approved
+  dryRun: boolean;  // Every call to a write tool is a dry run
+  clientProvider?: SlackClientProvider; // Defaults to the shared provider
 }
 
 /**
@@ -0,0 +1,83 @@
+import { TransportType } from './config.js';
+
+/**
+ * Options that can be passed on the command line
+ */
+export interface CliOptions {
+  transport?: TransportType;
+  host?: string;
+  port?: number;
+  config?: string; // Config file path (overrides SLACK_MCP_CONFIG)
+  profile?: string; // Profile in the config file (overrides SLACK_MCP_PROFILE)
+  readOnly?: boolean; // Hide and block every tool that writes to Slack
+}
+
+/**
+ * Parse command line flags
+ * Supports both "--flag value" and "--flag=value" forms
+ */
+export function parseCliArgs(argv: string[]): CliOptions {
+  const options: CliOptions = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) {
+      continue;
+    }
+
+    const [flag, inlineValue] = arg.slice(2).split(/=(.*)/s, 2);
+    const takeValue = (): string => {
+      if (inlineValue !== undefined) {
+        return inlineValue;
+      }
+      const next = argv[i + 1];
+      if (next === undefined || next.startsWith('--')) {
+        throw new Error(`Missing value for --${flag}`);
+      }
+      i++;
+      return next;
+    };
+
+    switch (flag) {
+      case 'transport': {
+        const value = takeValue();
+        if (value !== 'stdio' && value !== 'http') {
+          throw new Error(`Invalid --transport value: ${value} (expected stdio or http)`);
+        }
+        options.transport = value;
+        break;
+      }
+      case 'http':
+        options.transport = 'http';
+        break;
+      case 'stdio':
+        options.transport = 'stdio';
+        break;
+      case 'host':
+        options.host = takeValue();
+        break;
+      case 'port': {
+        const value = takeValue();
+        const port = parseInt(value, 10);
+        if (!Number.isInteger(port) || port < 0 || port > 65535) {
+          throw new Error(`Invalid --port value: ${value}`);
+        }
+        options.port = port;
+        break;
+      }
+      case 'read-only':
+        options.readOnly = true;
+        break;
+      case 'config':
+        options.config = takeValue();
+        break;
+      case 'profile':
+        options.profile = takeValue();
+        break;
+      default:
+        throw new Error(`Unknown option: --${flag}`);
+    }
+  }
+
+  return options;
+}
@@ -0,0 +1,178 @@
+/**
+ * Config File
+ * Named profiles that pick the exposed tools, argument defaults, read-only mode, channel
+ * and user policy, approval of outbound messages, dry runs, the audit log, middleware and logging
+ */
+
+import { readFileSync } from 'node:fs';
+import { extname } from 'node:path';
+import { load } from 'js-yaml';
+import { z } from 'zod';
+import { ConfigurationError } from '../errors/index.js';
+
+const policyRuleSchema = z
+  .object({
+    name: z.string().min(1).optional(),
+    effect: z.enum(['allow', 'deny']),
+    access: z.enum(['read', 'write']).optional(),
+    tools: z.array(z.string().min(1)).optional(),
+    channels: z.array(z.string().min(1)).optional(),
+    channel_types: z.array(z.enum(['public', 'private', 'im', 'mpim'])).optional(),
+    users: z.array(z.string().min(1)).optional(),
+  })
+  .strict()
+  .refine((rule) => rule.tools || rule.channels || rule.channel_types || rule.users, {
+    message: 'a rule needs at least one of tools, channels, channel_types or users',
+  });
+
+const profileSchema = z
+  .object({
+    tools: z
+      .object({
+        enabled: z.array(z.string().min(1)).optional(), // Only these tools; all when omitted
+        disabled: z.array(z.string().min(1)).optional(),
+      })
+      .strict()
+      .optional(),
+    defaults: z
+      .object({
+        channel: z.string().min(1).optional(), // Used when a tool's channel argument is omitted
+        search: z
+          .object({
+            count: z.number().int().min(1).max(100).optional(),
+            sort_dir: z.enum(['asc', 'desc']).optional(),
+            highlight: z.boolean().optional(),
+          })
+          .strict()
+          .optional(),
+      })
+      .strict()
+      .optional(),
+    middleware: z.enum(['development', 'production', 'testing']).optional(),
+    read_only: z.union([z.boolean(), z.array(z.string().min(1))]).optional(), // All or some workspaces
+    policy: z
+      .object({
+        default: z.enum(['allow', 'deny']).optional(),
+        rules: z.array(policyRuleSchema).optional(), // First match wins
+      })
+      .strict()
+      .optional(),
+    approval: z
+      .union([
+        z.boolean(), // true: the messaging tools
+        z
+          .object({
+            tools: z.array(z.string().min(1)).min(1).optional(),
+            ttl_minutes: z.number().positive().optional(), // How long pending actions wait
+          })
+          .strict(),
+      ])
+      .optional(),
+    dry_run: z.boolean().optional(), // Write tools only report the Slack calls they would make
+    audit: z
+      .union([
+        z.boolean(),
+        z
+          .object({
+            file: z.string().min(1).optional(),
+            max_size_mb: z.number().positive().optional(), // Rotate at this size
+            max_files: z.number().int().min(1).optional(), // Rotated files kept
+          })
+          .strict(),
+      ])
+      .optional(),
+    logging: z
+      .object({
+        level: z.enum(['error', 'warn', 'info', 'debug']).optional(),
+      })
+      .strict()
+      .optional(),
+  })
+  .strict();
+
+const configFileSchema = z
+  .object({
+    profile: z.string().min(1).optional(), // Profile used when none is chosen
+    profiles: z.record(profileSchema),
+  })
+  .strict();
+
+/**
+ * Config file format (SLACK_MCP_CONFIG or --config), YAML or JSON
+ *
+ * profile: readonly
+ * profiles:
+ *   readonly:
+ *     tools:
+ *       enabled: [search_messages, get_thread_replies, list_workspace_channels]
+ *     defaults:
+ *       search: { count: 50, sort_dir: desc }
+ *     middleware: production
+ *     read_only: true
+ *     policy:
+ *       rules:
+ *         - { name: no-hr, effect: deny, channels: ['#hr-private'] }
+ *     logging: { level: warn }
+ */
+export type ConfigFile = z.infer<typeof configFileSchema>;
+
+export type ConfigFileProfile = z.infer<typeof profileSchema>;
+
+/**
+ * Read and validate a config file. Every problem is reported at once, by path.
+ */
+export function readConfigFile(path: string): ConfigFile {
+  let parsed: unknown;
+  try {
+    const text = readFileSync(path, 'utf8');
+    // YAML is a superset of JSON, but JSON files may be indented with tabs, which YAML rejects
+    parsed = extname(path).toLowerCase() === '.json' ? JSON.parse(text) : load(text);
+  } catch (error) {
+    throw new ConfigurationError(
+      path,
+      `cannot read config file: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+
+  const result = configFileSchema.safeParse(parsed);
+  if (!result.success) {
+    const problems = result.error.issues.map((issue) => {
+      const location = issue.path.length > 0 ? issue.path.join('.') : '(file)';
+      return `${location}: ${issue.message}`;
+    });
+    throw new ConfigurationError(path, problems.join('; '));
+  }
+
+  if (Object.keys(result.data.profiles).length === 0) {
+    throw new ConfigurationError(path, 'profiles: define at least one profile');
+  }
+  return result.data;
+}
+
+/**
+ * Pick a profile: the requested name, else the file's "profile", else "default"
+ */
+export function selectProfile(
+  file: ConfigFile,
+  requested?: string
+): { name: string; profile: ConfigFileProfile } {
+  const name = requested || file.profile || 'default';
+  const profile = file.profiles[name];
+  if (!profile) {
+    throw new ConfigurationError(
+      'profile',
+      `unknown profile "${name}" (available: ${Object.keys(file.profiles).join(', ')})`
+    );
+  }
+
+  const { enabled, disabled } = profile.tools || {};
+  const both = (enabled || []).filter((tool) => disabled?.includes(tool));
+  if (both.length > 0) {
+    throw new ConfigurationError(
+      `profiles.${name}.tools`,
+      `${both.join(', ')} listed as both enabled and disabled`
+    );
+  }
+
+  return { name, profile };
+}
@@ -1,16 +1,177 @@
 import { logger } from './logger.js';
+import { readConfigFile, selectProfile } from './config-file.js';
+import { ConfigurationError } from '../errors/index.js';
+import type { HttpAuthConfig } from '../security/http-auth.js';
 
 export interface Config {
   slack: {
     xoxcToken?: string;
     xoxdToken?: string;
+    teamDomain?: string;
+    workspaceName?: string;
+    workspacesFile?: string;
   };
+  credentials: CredentialConfig;
+  slackApi: SlackApiConfig;
+  session: {
+    checkIntervalMs: number; // 0 disables periodic checks
+  };
+  subscriptions: SubscriptionConfig;
+  execution: ExecutionConfig;
+  profile: ProfileConfig;
+  readOnly: ReadOnlyConfig;
+  policy: PolicyConfig;
+  approval: ApprovalConfig;
+  dryRun: boolean; // Every call to a write tool is a dry run
+  audit: AuditConfig;
   logging: {
     level: string;
   };
+  transport: TransportConfig;
   environment: string;
 }
 
+/**
+ * Encrypted credential store settings
+ */
+export interface CredentialConfig {
+  storeFile?: string; // Default: ~/.slack-browser-mcp/credentials.enc
+  passphrase?: string;
+  keyFile?: string; // Default: ~/.slack-browser-mcp/key when it exists
+}
+
+/**
+ * Polling for resource subscriptions and thread watches
+ */
+export interface SubscriptionConfig {
+  pollIntervalMs: number; // Minimum 10s; each watch costs one Tier 3 call per poll
+  ttlMs: number; // How long a subscription lasts without being renewed
+}
+
+/**
+ * Limits on tool calls
+ */
+export interface ExecutionConfig {
+  timeoutMs: number; // Per call, unless the tool sets its own timeoutMs
+  maxConcurrent: number; // Calls running at once; the rest wait in line
+  queueTimeoutMs: number; // How long a call may wait for a slot before failing
+}
+
+/**
+ * Read-only mode: tools that write to Slack are hidden and rejected
+ */
+export interface ReadOnlyConfig {
+  all: boolean;
+  workspaces: string[]; // Read-only workspaces (names or team domains) when not all are
+}
+
+export type ChannelType = 'public' | 'private' | 'im' | 'mpim';
+
+/**
+ * An allow or deny rule. It matches a call when every criterion it sets matches;
+ * within a list, any entry may match.
+ */
+export interface PolicyRule {
+  name: string; // Reported when the rule blocks something
+  effect: 'allow' | 'deny';
+  access?: 'read' | 'write'; // Both when omitted
+  tools?: string[];
+  channels?: string[]; // Channel IDs or names, with or without "#"
+  channelTypes?: ChannelType[];
+  users?: string[]; // User IDs or names
+}
+
+/**
+ * Channel and user policy; the first matching rule decides, else the default
+ */
+export interface PolicyConfig {
+  default: 'allow' | 'deny';
+  rules: PolicyRule[];
+}
+
+/**
+ * Tools whose calls are held as pending actions until approved
+ */
+export const DEFAULT_APPROVAL_TOOLS = [
+  'post_message',
+  'post_message_blocks',
+  'update_message',
+  'delete_message',
+];
+
+/**
+ * Draft-then-approve mode for tools that act as the user
+ */
+export interface ApprovalConfig {
+  tools: string[]; // Empty when approval is off
+  ttlMs: number; // How long a pending action waits before it expires
+}
+
+/**
+ * Append-only record of every tool call that writes to Slack
+ */
+export interface AuditConfig {
+  enabled: boolean;
+  file?: string; // Default: ~/.slack-browser-mcp/audit.jsonl
+  maxBytes: number; // Size at which the file is rotated
+  maxFiles: number; // Rotated files kept besides the current one
+}
+
+export type MiddlewareStack = 'development' | 'production' | 'testing';
+
+/**
+ * Which tools are exposed; names must match registered tools
+ */
+export interface ToolSelection {
+  enabled?: string[]; // Only these tools; all when omitted
+  disabled: string[];
+}
+
+/**
+ * Values filled in for tool arguments the caller leaves out
+ */
+export interface ToolDefaults {
+  channel?: string;
+  search: {
+    count?: number;
+    sortDir?: 'asc' | 'desc';
+    highlight?: boolean;
+  };
+}
+
+/**
+ * Profile chosen from the config file (SLACK_MCP_CONFIG or --config)
+ */
+export interface ProfileConfig {
+  file?: string;
+  name?: string; // Set once a profile has been loaded
+  tools: ToolSelection;
+  defaults: ToolDefaults;
+  middleware: MiddlewareStack;
+}
+
+export type SlackHttpMode = 'live' | 'record' | 'replay';
+
+export interface SlackApiConfig {
+  url: string; // Default: https://slack.com/api (point at a FakeSlackServer for offline runs)
+  mode: SlackHttpMode;
+  cassetteFile?: string; // Recorded interactions for record/replay modes
+  replayLenient: boolean; // Replay answers unmatched calls with another call to the same endpoint
+}
+
+export type TransportType = 'stdio' | 'http';
+
+export interface TransportConfig {
+  type: TransportType;
+  http: {
+    host: string;
+    port: number;
+    maxSessions: number;
+    sessionIdleTimeoutMs: number;
+    auth: HttpAuthConfig;
+  };
+}
+
 class ConfigManager {
   private config: Config;
 
@@ -24,14 +185,144 @@ class ConfigManager {
       slack: {
         xoxcToken: process.env.SLACK_XOXC_TOKEN,
         xoxdToken: process.env.SLACK_XOXD_TOKEN,
+        teamDomain: process.env.SLACK_TEAM_DOMAIN,
+        workspaceName: process.env.SLACK_WORKSPACE_NAME || undefined,
+        workspacesFile: process.env.SLACK_WORKSPACES_FILE || undefined,
+      },
+      credentials: {
+        storeFile: process.env.SLACK_MCP_CREDENTIALS_FILE || undefined,
+        passphrase: process.env.SLACK_MCP_PASSPHRASE || undefined,
+        keyFile: process.env.SLACK_MCP_KEY_FILE || undefined,
+      },
+      slackApi: {
+        url: (process.env.SLACK_API_URL || 'https://slack.com/api').replace(/\/+$/, ''),
+        mode: (process.env.SLACK_HTTP_MODE || 'live') as SlackHttpMode,
+        cassetteFile: process.env.SLACK_HTTP_CASSETTE || undefined,
+        replayLenient: ['true', '1', 'yes'].includes(
+          (process.env.SLACK_HTTP_REPLAY_LENIENT || '').trim().toLowerCase()
+        ),
+      },
+      session: {
+        checkIntervalMs: parseInt(process.env.SLACK_SESSION_CHECK_INTERVAL || '300', 10) * 1000,
+      },
+      subscriptions: {
+        pollIntervalMs: parseInt(process.env.SLACK_WATCH_POLL_INTERVAL || '60', 10) * 1000,
+        ttlMs: parseFloat(process.env.SLACK_WATCH_TTL_HOURS || '24') * 60 * 60 * 1000,
+      },
+      execution: {
+        timeoutMs: parseFloat(process.env.SLACK_TOOL_TIMEOUT || '30') * 1000,
+        maxConcurrent: parseInt(process.env.SLACK_MAX_CONCURRENT_TOOLS || '10', 10),
+        queueTimeoutMs: parseFloat(process.env.SLACK_TOOL_QUEUE_TIMEOUT || '30') * 1000,
+      },
+      profile: {
+        file: process.env.SLACK_MCP_CONFIG || undefined,
+        name: process.env.SLACK_MCP_PROFILE || undefined,
+        tools: { disabled: [] },
+        defaults: { search: {} },
+        middleware: 'development',
+      },
+      readOnly: this.parseReadOnly(process.env.SLACK_READ_ONLY),
+      policy: { default: 'allow', rules: [] },
+      approval: {
+        tools: this.parseApprovalTools(process.env.SLACK_APPROVAL_TOOLS),
+        ttlMs: parseFloat(process.env.SLACK_APPROVAL_TTL_MINUTES || '10') * 60 * 1000,
+      },
+      dryRun: ['true', '1', 'yes'].includes((process.env.SLACK_DRY_RUN || '').trim().toLowerCase()),
+      audit: {
+        ...this.parseAuditLog(process.env.SLACK_AUDIT_LOG),
+        maxBytes: parseFloat(process.env.SLACK_AUDIT_MAX_SIZE_MB || '10') * 1024 * 1024,
+        maxFiles: parseInt(process.env.SLACK_AUDIT_MAX_FILES || '10', 10),
       },
       logging: {
         level: process.env.LOG_LEVEL || 'info',
       },
+      transport: {
+        type: (process.env.MCP_TRANSPORT || 'stdio') as TransportType,
+        http: {
+          host: process.env.MCP_HTTP_HOST || '127.0.0.1',
+          port: parseInt(process.env.MCP_HTTP_PORT || '3000', 10),
+          maxSessions: parseInt(process.env.MCP_HTTP_MAX_SESSIONS || '50', 10),
+          sessionIdleTimeoutMs:
+            parseFloat(process.env.MCP_HTTP_SESSION_IDLE_MINUTES || '30') * 60 * 1000,
+          auth: {
+            apiKeys: this.parseApiKeys(process.env.MCP_HTTP_API_KEYS),
+            hmacSecret: process.env.MCP_HTTP_HMAC_SECRET || undefined,
+            allowedOrigins: this.parseList(process.env.MCP_HTTP_ALLOWED_ORIGINS),
+            allowedHosts: this.parseList(process.env.MCP_HTTP_ALLOWED_HOSTS).map((host) =>
+              host.toLowerCase()
+            ),
+            allowedIps: this.parseList(process.env.MCP_HTTP_ALLOWED_IPS),
+          },
+        },
+      },
       environment: process.env.NODE_ENV || 'development',
     };
   }
 
+  private parseList(value?: string): string[] {
+    return (value || '')
+      .split(',')
+      .map((item) => item.trim())
+      .filter(Boolean);
+  }
+
+  /**
+   * Parse SLACK_READ_ONLY: "true" for every workspace, or a list of workspaces
+   */
+  private parseReadOnly(value?: string): ReadOnlyConfig {
+    const normalized = (value || '').trim().toLowerCase();
+    if (['', 'false', '0', 'no'].includes(normalized)) {
+      return { all: false, workspaces: [] };
+    }
+    if (['true', '1', 'yes'].includes(normalized)) {
+      return { all: true, workspaces: [] };
+    }
+    return { all: false, workspaces: this.parseList(value) };
+  }
+
+  /**
+   * Parse SLACK_APPROVAL_TOOLS: "true" for the messaging tools, or a list of tools
+   */
+  private parseApprovalTools(value?: string): string[] {
+    const normalized = (value || '').trim().toLowerCase();
+    if (['', 'false', '0', 'no'].includes(normalized)) {
+      return [];
+    }
+    if (['true', '1', 'yes'].includes(normalized)) {
+      return [...DEFAULT_APPROVAL_TOOLS];
+    }
+    return this.parseList(value);
+  }
+
+  /**
+   * Parse SLACK_AUDIT_LOG: on by default, "false" to turn it off, or a file path
+   */
+  private parseAuditLog(value?: string): Pick<AuditConfig, 'enabled' | 'file'> {
+    const normalized = (value || '').trim().toLowerCase();
+    if (['false', '0', 'no', 'off'].includes(normalized)) {
+      return { enabled: false };
+    }
+    if (['', 'true', '1', 'yes', 'on'].includes(normalized)) {
+      return { enabled: true };
+    }
+    return { enabled: true, file: value!.trim() };
+  }
+
+  /**
+   * Parse "clientId:key,clientId:key" pairs
+   */
+  private parseApiKeys(value?: string): Record<string, string> {
+    const keys: Record<string, string> = {};
+    for (const entry of this.parseList(value)) {
+      const separator = entry.indexOf(':');
+      if (separator <= 0 || separator === entry.length - 1) {
+        throw new Error('MCP_HTTP_API_KEYS entries must be formatted as clientId:key');
+      }
+      keys[entry.slice(0, separator)] = entry.slice(separator + 1);
+    }
+    return keys;
+  }
+
   private validateConfig(): void {
     const errors: string[] = [];
 
@@ -45,6 +336,80 @@ class ConfigManager {
       errors.push('LOG_LEVEL must be error, warn, info, or debug');
     }
 
+    if (!['stdio', 'http'].includes(this.config.transport.type)) {
+      errors.push('MCP_TRANSPORT must be stdio or http');
+    }
+
+    const { port, maxSessions, sessionIdleTimeoutMs } = this.config.transport.http;
+    if (!Number.isInteger(port) || port < 0 || port > 65535) {
+      errors.push('MCP_HTTP_PORT must be a valid port number');
+    }
+
+    if (!Number.isInteger(maxSessions) || maxSessions < 1) {
+      errors.push('MCP_HTTP_MAX_SESSIONS must be a positive integer');
+    }
+
+    if (!(sessionIdleTimeoutMs > 0)) {
+      errors.push('MCP_HTTP_SESSION_IDLE_MINUTES must be a positive number');
+    }
+
+    const { hmacSecret } = this.config.transport.http.auth;
+    if (hmacSecret !== undefined && hmacSecret.length < 32) {
+      errors.push('MCP_HTTP_HMAC_SECRET must be at least 32 characters');
+    }
+
+    const { checkIntervalMs } = this.config.session;
+    if (!Number.isInteger(checkIntervalMs) || checkIntervalMs < 0) {
+      errors.push('SLACK_SESSION_CHECK_INTERVAL must be a non-negative number of seconds');
+    }
+
+    const { pollIntervalMs, ttlMs } = this.config.subscriptions;
+    if (!Number.isInteger(pollIntervalMs) || pollIntervalMs < 10000) {
+      errors.push('SLACK_WATCH_POLL_INTERVAL must be at least 10 seconds');
+    }
+
+    if (!(ttlMs > 0)) {
+      errors.push('SLACK_WATCH_TTL_HOURS must be a positive number of hours');
+    }
+
+    const { timeoutMs, maxConcurrent, queueTimeoutMs } = this.config.execution;
+    if (!(timeoutMs > 0)) {
+      errors.push('SLACK_TOOL_TIMEOUT must be a positive number of seconds');
+    }
+
+    if (!Number.isInteger(maxConcurrent) || maxConcurrent < 1) {
+      errors.push('SLACK_MAX_CONCURRENT_TOOLS must be a positive integer');
+    }
+
+    if (!(queueTimeoutMs >= 0)) {
+      errors.push('SLACK_TOOL_QUEUE_TIMEOUT must be a non-negative number of seconds');
+    }
+
+    if (!(this.config.approval.ttlMs > 0)) {
+      errors.push('SLACK_APPROVAL_TTL_MINUTES must be a positive number of minutes');
+    }
+
+    const { maxBytes, maxFiles } = this.config.audit;
+    if (!(maxBytes > 0)) {
+      errors.push('SLACK_AUDIT_MAX_SIZE_MB must be a positive number');
+    }
+
+    if (!Number.isInteger(maxFiles) || maxFiles < 1) {
+      errors.push('SLACK_AUDIT_MAX_FILES must be a positive integer');
+    }
+
+    const { mode, cassetteFile } = this.config.slackApi;
+    if (!['live', 'record', 'replay'].includes(mode)) {
+      errors.push('SLACK_HTTP_MODE must be live, record, or replay');
+    } else if (mode !== 'live' && !cassetteFile) {
+      errors.push(`SLACK_HTTP_CASSETTE is required when SLACK_HTTP_MODE is ${mode}`);
+    }
+
+    const { passphrase, keyFile } = this.config.credentials;
+    if (passphrase !== undefined && keyFile !== undefined) {
+      errors.push('Set only one of SLACK_MCP_PASSPHRASE and SLACK_MCP_KEY_FILE');
+    }
+
     if (errors.length > 0) {
       logger.error('Configuration validation failed', { errors });
       throw new Error(`Configuration validation failed: ${errors.join(', ')}`);
@@ -53,10 +418,123 @@ class ConfigManager {
     logger.info('Configuration loaded successfully', {
       environment: this.config.environment,
       logLevel: this.config.logging.level,
+      transport: this.config.transport.type,
+      readOnly: this.config.readOnly.all || this.config.readOnly.workspaces,
+      approvalTools: this.config.approval.tools,
+      dryRun: this.config.dryRun,
+      auditLog: this.config.audit.enabled,
       hasSlackTokens: !!(this.config.slack.xoxcToken && this.config.slack.xoxdToken),
     });
   }
 
+  /**
+   * Apply a profile from the config file. The file and profile default to
+   * SLACK_MCP_CONFIG and SLACK_MCP_PROFILE; settings in the profile win over
+   * the environment. Without a config file this is a no-op.
+   */
+  loadProfile(options: { file?: string; profile?: string } = {}): ProfileConfig {
+    const file = options.file || this.config.profile.file;
+    const requested = options.profile || this.config.profile.name;
+    if (!file) {
+      if (requested) {
+        throw new ConfigurationError(
+          'profile',
+          'choosing a profile requires a config file (SLACK_MCP_CONFIG or --config)'
+        );
+      }
+      return this.getProfileConfig();
+    }
+
+    const { name, profile } = selectProfile(readConfigFile(file), requested);
+    this.config.profile = {
+      file,
+      name,
+      tools: {
+        enabled: profile.tools?.enabled,
+        disabled: profile.tools?.disabled || [],
+      },
+      defaults: {
+        channel: profile.defaults?.channel,
+        search: {
+          count: profile.defaults?.search?.count,
+          sortDir: profile.defaults?.search?.sort_dir,
+          highlight: profile.defaults?.search?.highlight,
+        },
+      },
+      middleware: profile.middleware || this.config.profile.middleware,
+    };
+
+    if (profile.read_only !== undefined) {
+      this.config.readOnly = Array.isArray(profile.read_only)
+        ? { all: false, workspaces: profile.read_only }
+        : { all: profile.read_only, workspaces: [] };
+    }
+
+    if (profile.policy) {
+      this.config.policy = {
+        default: profile.policy.default || 'allow',
+        rules: (profile.policy.rules || []).map((rule, index) => ({
+          name: rule.name || `rule ${index + 1}`,
+          effect: rule.effect,
+          access: rule.access,
+          tools: rule.tools,
+          channels: rule.channels,
+          channelTypes: rule.channel_types,
+          users: rule.users,
+        })),
+      };
+    }
+
+    if (profile.approval !== undefined) {
+      const approval = typeof profile.approval === 'boolean' ? {} : profile.approval;
+      this.config.approval = {
+        tools: profile.approval === false ? [] : approval.tools || [...DEFAULT_APPROVAL_TOOLS],
+        ttlMs:
+          approval.ttl_minutes !== undefined
+            ? approval.ttl_minutes * 60 * 1000
+            : this.config.approval.ttlMs,
+      };
+    }
+
+    if (profile.dry_run !== undefined) {
+      this.config.dryRun = profile.dry_run;
+    }
+
+    if (profile.audit !== undefined) {
+      const audit = typeof profile.audit === 'boolean' ? {} : profile.audit;
+      this.config.audit = {
+        enabled: profile.audit !== false,
+        file: audit.file || this.config.audit.file,
+        maxBytes:
+          audit.max_size_mb !== undefined
+            ? audit.max_size_mb * 1024 * 1024
+            : this.config.audit.maxBytes,
+        maxFiles: audit.max_files ?? this.config.audit.maxFiles,
+      };
+    }
+
+    if (profile.logging?.level) {
+      this.config.logging.level = profile.logging.level;
+      logger.level = profile.logging.level;
+    }
+
+    logger.info('Config profile loaded', {
+      file,
+      profile: name,
+      middleware: this.config.profile.middleware,
+      logLevel: this.config.logging.level,
+      readOnly: this.config.readOnly,
+      policyRules: this.config.policy.rules.length,
+      approvalTools: this.config.approval.tools,
+      dryRun: this.config.dryRun,
+      auditLog: this.config.audit.enabled && (this.config.audit.file || 'default'),
+      enabledTools: this.config.profile.tools.enabled,
+      disabledTools: this.config.profile.tools.disabled,
+    });
+
+    return this.getProfileConfig();
+  }
+
   get(): Config {
     return { ...this.config };
   }
@@ -65,10 +543,58 @@ class ConfigManager {
     return { ...this.config.slack };
   }
 
+  getCredentialConfig(): CredentialConfig {
+    return { ...this.config.credentials };
+  }
+
+  getSlackApiConfig(): SlackApiConfig {
+    return { ...this.config.slackApi };
+  }
+
+  getSessionConfig() {
+    return { ...this.config.session };
+  }
+
+  getSubscriptionConfig(): SubscriptionConfig {
+    return { ...this.config.subscriptions };
+  }
+
+  getExecutionConfig(): ExecutionConfig {
+    return { ...this.config.execution };
+  }
+
+  getProfileConfig(): ProfileConfig {
+    return { ...this.config.profile };
+  }
+
+  getReadOnlyConfig(): ReadOnlyConfig {
+    return { ...this.config.readOnly, workspaces: [...this.config.readOnly.workspaces] };
+  }
+
+  getPolicyConfig(): PolicyConfig {
+    return { ...this.config.policy, rules: [...this.config.policy.rules] };
+  }
+
+  getApprovalConfig(): ApprovalConfig {
+    return { ...this.config.approval, tools: [...this.config.approval.tools] };
+  }
+
+  isDryRun(): boolean {
+    return this.config.dryRun;
+  }
+
+  getAuditConfig(): AuditConfig {
+    return { ...this.config.audit };
+  }
+
   getLoggingConfig() {
     return { ...this.config.logging };
   }
 
+  getTransportConfig(): TransportConfig {
+    return { ...this.config.transport, http: { ...this.config.transport.http } };
+  }
+
   isDevelopment(): boolean {
     return this.config.environment === 'development';
   }
@@ -78,4 +604,4 @@ class ConfigManager {
   }
 }
 
-export const config = new ConfigManager();
\ No newline at end of file
+export const config = new ConfigManager();
@@ -0,0 +1,99 @@
+/**
+ * Semaphore
+ * Limits concurrent work, admitting waiters strictly in arrival order
+ */
+
+/**
+ * Give the slot back. Calling it more than once has no effect.
+ */
+export type Release = () => void;
+
+interface Waiter {
+  admit: () => void;
+}
+
+export class Semaphore {
+  private active = 0;
+  private waiters: Waiter[] = [];
+
+  constructor(private readonly limit: number) {}
+
+  /**
+   * Slots currently held
+   */
+  get running(): number {
+    return this.active;
+  }
+
+  /**
+   * Callers waiting for a slot
+   */
+  get queued(): number {
+    return this.waiters.length;
+  }
+
+  /**
+   * Wait for a slot. Resolves to null if none frees up within timeoutMs, and
+   * rejects with the signal's reason if the signal is aborted while waiting.
+   */
+  acquire(timeoutMs: number = Infinity, signal?: AbortSignal): Promise<Release | null> {
+    if (signal?.aborted) {
+      return Promise.reject(signal.reason);
+    }
+
+    // Only take a free slot directly when nobody is waiting, so late arrivals can't jump the queue
+    if (this.active < this.limit && this.waiters.length === 0) {
+      this.active++;
+      return Promise.resolve(this.createRelease());
+    }
+
+    return new Promise((resolve, reject) => {
+      const waiter: Waiter = {
+        admit: () => {
+          cleanup();
+          resolve(this.createRelease());
+        },
+      };
+
+      const leave = () => {
+        cleanup();
+        this.waiters.splice(this.waiters.indexOf(waiter), 1);
+      };
+      const onAbort = () => {
+        leave();
+        reject(signal!.reason);
+      };
+      const timer = Number.isFinite(timeoutMs)
+        ? setTimeout(() => {
+            leave();
+            resolve(null);
+          }, timeoutMs)
+        : undefined;
+      const cleanup = () => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+      };
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.waiters.push(waiter);
+    });
+  }
+
+  private createRelease(): Release {
+    let released = false;
+    return () => {
+      if (released) {
+        return;
+      }
+      released = true;
+
+      // Hand the slot straight to the next waiter rather than freeing it
+      const next = this.waiters.shift();
+      if (next) {
+        next.admit();
+      } else {
+        this.active--;
+      }
+    };
+  }
+}
@@ -0,0 +1,34 @@
+import assert from 'node:assert/strict';
+import { before, describe, it } from 'node:test';
+import { createToolHarness, type ToolHarness } from '../support/harness.js';
+import { WorkspaceNotFoundError } from '../../src/errors/index.js';
+import { ResourceRegistry } from '../../src/resources/index.js';
+import { FAKE_CHANNEL_ID, FAKE_THREAD_TS } from '../support/fixtures.js';
+
+const PERMALINK_PATH = `/archives/${FAKE_CHANNEL_ID}/p${FAKE_THREAD_TS.replace('.', '')}`;
+
+describe('permalink resources', () => {
+  let harness: ToolHarness;
+
+  before(async () => {
+    harness = await createToolHarness();
+  });
+
+  it('reads a permalink from the workspace its host names', async () => {
+    const contents = await new ResourceRegistry().readResource(
+      `https://fakeco.slack.com${PERMALINK_PATH}`
+    );
+
+    assert.equal(JSON.parse(contents.text).messages[0].ts, FAKE_THREAD_TS);
+  });
+
+  it('refuses a permalink into a workspace that is not configured', async () => {
+    const calls = harness.fake.calls.length;
+
+    await assert.rejects(
+      new ResourceRegistry().readResource(`https://elsewhere.slack.com${PERMALINK_PATH}`),
+      WorkspaceNotFoundError
+    );
+    assert.equal(harness.fake.calls.length, calls);
+  });
+});
@@ -0,0 +1,112 @@
+import assert from 'node:assert/strict';
+import { before, describe, it } from 'node:test';
+import { createToolHarness } from '../support/harness.js';
+import { CompletionProvider } from '../../src/completion/index.js';
+import { SecurityViolationError } from '../../src/errors/index.js';
+import { PromptRegistry } from '../../src/prompts/index.js';
+import { ResourceRegistry, ResourceWatcher } from '../../src/resources/index.js';
+import { PolicyEngine, ResourcePolicy } from '../../src/security/index.js';
+import { SlackClientProvider } from '../../src/slack/client-provider.js';
+import { SlackDirectory } from '../../src/slack/directory.js';
+import { config } from '../../src/utils/config.js';
+import { FAKE_CHANNEL_ID, FAKE_THREAD_TS } from '../support/fixtures.js';
+
+const RANDOM_CHANNEL_ID = 'C00RANDOM01';
+
+function isBlockedBy(rule: string) {
+  return (error: unknown) =>
+    error instanceof SecurityViolationError && error.context?.rule === rule;
+}
+
+describe('policy outside tool calls', () => {
+  let policy: ResourcePolicy;
+
+  before(async () => {
+    await createToolHarness();
+    policy = new ResourcePolicy(
+      new PolicyEngine({
+        default: 'allow',
+        rules: [
+          { name: 'no-random', effect: 'deny', channels: ['#random'] },
+          { name: 'no-leads', effect: 'deny', channels: ['G00PRIVATE1'] },
+          { name: 'skip-bots', effect: 'deny', access: 'read', users: ['U00DEPLOY1'] },
+        ],
+      })
+    );
+  });
+
+  it('leaves denied channels out of resources/list', async () => {
+    const resources = await new ResourceRegistry(undefined, undefined, policy).listResources();
+    const uris = resources.map((resource) => resource.uri);
+
+    assert.ok(uris.includes(`slack://channel/${FAKE_CHANNEL_ID}/history`));
+    assert.ok(!uris.includes(`slack://channel/${RANDOM_CHANNEL_ID}/history`));
+  });
+
+  it('blocks resources/read of a denied channel, naming the rule', async () => {
+    const registry = new ResourceRegistry(undefined, undefined, policy);
+
+    await assert.rejects(
+      registry.readResource(`slack://channel/${RANDOM_CHANNEL_ID}/history`),
+      isBlockedBy('no-random')
+    );
+  });
+
+  it('blocks resources/read of a file shared in a denied channel', async () => {
+    const registry = new ResourceRegistry(undefined, undefined, policy);
+
+    await assert.rejects(
+      registry.readResource('slack://file/F00PLAN0001'),
+      isBlockedBy('no-leads')
+    );
+  });
+
+  it('drops messages by denied users from thread resources', async () => {
+    const registry = new ResourceRegistry(undefined, undefined, policy);
+    const contents = await registry.readResource(
+      `slack://thread/${FAKE_CHANNEL_ID}/${FAKE_THREAD_TS}`
+    );
+    const users = JSON.parse(contents.text).messages.map(
+      (message: { user: string }) => message.user
+    );
+
+    assert.ok(users.length > 0);
+    assert.ok(!users.includes('U00DEPLOY1'));
+  });
+
+  it('refuses to watch a denied channel', async () => {
+    const watcher = new ResourceWatcher(
+      SlackClientProvider.getInstance(),
+      config.getSubscriptionConfig(),
+      policy
+    );
+
+    await assert.rejects(
+      watcher.watch(`slack://channel/${RANDOM_CHANNEL_ID}/history`, 'test'),
+      isBlockedBy('no-random')
+    );
+    assert.equal(watcher.list().length, 0);
+  });
+
+  it('never suggests denied channels or users', async () => {
+    const completion = new CompletionProvider(
+      new PromptRegistry(),
+      SlackDirectory.getInstance(),
+      policy
+    );
+
+    const channels = await completion.complete(
+      { type: 'ref/resource', uri: 'slack://channel/{id}/history' },
+      { name: 'id', value: '' }
+    );
+    const users = await completion.complete(
+      { type: 'ref/resource', uri: 'slack://user/{id}' },
+      { name: 'id', value: '' }
+    );
+
+    assert.ok(channels.values.includes(FAKE_CHANNEL_ID));
+    assert.ok(!channels.values.includes(RANDOM_CHANNEL_ID));
+    assert.ok(users.values.length > 0);
+    assert.ok(!users.values.includes('U00DEPLOY1'));
+  });
+});
@@ -0,0 +1,63 @@
+import assert from 'node:assert/strict';
+import { before, describe, it } from 'node:test';
+import { createToolHarness, resultData, type ToolHarness } from '../support/harness.js';
+import { AuditLog, AuditMiddleware } from '../../src/security/audit-log.js';
+import { FAKE_CHANNEL_ID } from '../support/fixtures.js';
+
+describe('audit log', () => {
+  let harness: ToolHarness;
+
+  before(async () => {
+    // The fake asks for a one second wait when rate limiting, longer than the timeout
+    harness = await createToolHarness({ defaultTimeout: 200 });
+    harness.registry.registerMiddleware(new AuditMiddleware());
+  });
+
+  function latestEntry(text: string) {
+    const { entries } = AuditLog.getInstance().query({ contains: text, limit: 1 });
+    assert.equal(entries.length, 1, `expected an entry for "${text}"`);
+    return entries[0];
+  }
+
+  it('records the permalink of a post without asking Slack for it', async () => {
+    const { ts } = resultData(
+      await harness.call('post_message', { channel: FAKE_CHANNEL_ID, text: 'linked' })
+    );
+    const entry = latestEntry('linked');
+
+    assert.equal(entry.outcome, 'success');
+    assert.equal(
+      entry.permalink,
+      `https://fakeco.slack.com/archives/${FAKE_CHANNEL_ID}/p${ts.replace('.', '')}`
+    );
+    assert.ok(!harness.fake.calls.some((call) => call.endpoint === 'chat.getPermalink'));
+  });
+
+  it('records calls that time out', async () => {
+    harness.fake.rateLimit('chat.postMessage');
+    const result = await harness.call('post_message', { channel: FAKE_CHANNEL_ID, text: 'slow' });
+    const entry = latestEntry('slow');
+
+    assert.ok(result.isError);
+    assert.equal(entry.outcome, 'timeout');
+    assert.equal(entry.error_code, 'TOOL_TIMEOUT');
+    assert.equal(entry.permalink, undefined);
+  });
+
+  it('records calls that are cancelled', async () => {
+    harness.fake.rateLimit('chat.postMessage');
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 50);
+
+    const result = await harness.registry.executeTool(
+      'post_message',
+      { channel: FAKE_CHANNEL_ID, text: 'abandoned' },
+      { signal: controller.signal }
+    );
+    const entry = latestEntry('abandoned');
+
+    assert.ok(result.isError);
+    assert.equal(entry.outcome, 'cancelled');
+    assert.equal(entry.error_code, 'OPERATION_CANCELLED');
+  });
+});
@@ -0,0 +1,90 @@
+import '../support/env.js';
+import assert from 'node:assert/strict';
+import { mkdirSync, mkdtempSync, statSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { describe, it } from 'node:test';
+import { CredentialStoreError } from '../../src/errors/index.js';
+import {
+  CREDENTIALS_DIR,
+  CredentialStore,
+  LEGACY_KEY_FILE,
+} from '../../src/security/credential-store.js';
+import { createDefaultFixtures } from '../support/fixtures.js';
+
+const { tokens } = createDefaultFixtures();
+const TOKENS = { ...tokens, teamDomain: 'fakeco' };
+
+function tempDir(): string {
+  return mkdtempSync(join(tmpdir(), 'slack-mcp-store-'));
+}
+
+describe('credential store keys', () => {
+  it('opens the store only with the passphrase it was written with', () => {
+    const storeFile = join(tempDir(), 'credentials.enc');
+    new CredentialStore({ storeFile, passphrase: 'correct horse' }).upsert('fakeco', TOKENS);
+
+    const reopened = new CredentialStore({ storeFile, passphrase: 'correct horse' }).load();
+    assert.equal(reopened.default, 'fakeco');
+    assert.equal(reopened.workspaces.fakeco.xoxc, TOKENS.xoxc);
+
+    assert.throws(
+      () => new CredentialStore({ storeFile, passphrase: 'battery staple' }).load(),
+      (error: unknown) =>
+        error instanceof CredentialStoreError && /cannot decrypt/.test(error.message)
+    );
+  });
+
+  it('refuses to write without a key', () => {
+    const store = new CredentialStore({ storeFile: join(tempDir(), 'credentials.enc') });
+
+    assert.equal(store.hasKey(), false);
+    assert.throws(() => store.upsert('fakeco', TOKENS), /no key configured/);
+  });
+
+  it('creates an owner-only key file outside the store directory', () => {
+    const storeFile = join(tempDir(), 'credentials.enc');
+    const keyFile = join(tempDir(), 'keys', 'slack-mcp.key');
+    const store = new CredentialStore({ storeFile });
+
+    store.createKeyFile(keyFile);
+    store.upsert('fakeco', TOKENS);
+
+    assert.equal(statSync(keyFile).mode & 0o777, 0o600);
+    assert.equal(store.getKeySource(), keyFile);
+    assert.equal(store.isKeyBesideStore(), false);
+    assert.equal(
+      new CredentialStore({ storeFile, keyFile }).load().workspaces.fakeco.xoxd,
+      TOKENS.xoxd
+    );
+  });
+
+  it('refuses to create a key file next to the store it protects', () => {
+    const dir = tempDir();
+    const store = new CredentialStore({ storeFile: join(dir, 'credentials.enc') });
+
+    assert.throws(() => store.createKeyFile(join(dir, 'key')), /next to the store/);
+    assert.equal(store.hasKey(), false);
+  });
+
+  it('refuses to create a key file when a key is configured', () => {
+    const store = new CredentialStore({
+      storeFile: join(tempDir(), 'credentials.enc'),
+      passphrase: 'correct horse',
+    });
+
+    assert.throws(() => store.createKeyFile(join(tempDir(), 'key')), /already configured/);
+  });
+
+  it('still opens stores keyed by the legacy key file, flagging it as beside the store', () => {
+    mkdirSync(CREDENTIALS_DIR, { recursive: true });
+    writeFileSync(LEGACY_KEY_FILE, 'legacy-key-material\n', { mode: 0o600 });
+
+    const store = new CredentialStore({});
+    store.upsert('fakeco', TOKENS);
+
+    assert.equal(store.getKeySource(), LEGACY_KEY_FILE);
+    assert.equal(store.isKeyBesideStore(), true);
+    assert.equal(new CredentialStore({}).load().workspaces.fakeco.xoxc, TOKENS.xoxc);
+  });
+});
@@ -0,0 +1,146 @@
+import '../support/env.js';
+import assert from 'node:assert/strict';
+import { createHmac } from 'node:crypto';
+import type { IncomingMessage } from 'node:http';
+import { describe, it } from 'node:test';
+import {
+  AuthenticationError,
+  ConfigurationError,
+  SecurityViolationError,
+} from '../../src/errors/index.js';
+import {
+  createHttpAuthenticator,
+  HttpAuthConfig,
+  HttpAuthenticator,
+} from '../../src/security/http-auth.js';
+
+const SECRET = 'a-test-secret-that-is-long-enough-000';
+
+function config(overrides: Partial<HttpAuthConfig> = {}): HttpAuthConfig {
+  return { apiKeys: {}, allowedOrigins: [], allowedHosts: [], allowedIps: [], ...overrides };
+}
+
+function request(
+  headers: Record<string, string> = {},
+  remoteAddress = '127.0.0.1'
+): IncomingMessage {
+  return {
+    headers: { host: '127.0.0.1:3000', ...headers },
+    socket: { remoteAddress },
+  } as unknown as IncomingMessage;
+}
+
+function signedToken(clientId: string, expiresAt: number, secret = SECRET): string {
+  const payload = `v1.${clientId}.${expiresAt}`;
+  return `${payload}.${createHmac('sha256', secret).update(payload).digest('hex')}`;
+}
+
+const inAnHour = () => Math.floor(Date.now() / 1000) + 3600;
+
+describe('HttpAuthenticator', () => {
+  describe('on a loopback bind without allowlists', () => {
+    const authenticator = new HttpAuthenticator(config(), '127.0.0.1');
+
+    it('accepts loopback Host names and clients that send no Origin', () => {
+      for (const host of ['127.0.0.1:3000', 'localhost:3000', '[::1]:3000']) {
+        assert.equal(authenticator.authenticate(request({ host })).method, 'anonymous');
+      }
+    });
+
+    it('rejects other Host names, as a rebound DNS name would send', () => {
+      assert.throws(
+        () => authenticator.authenticate(request({ host: 'attacker.example:3000' })),
+        SecurityViolationError
+      );
+    });
+
+    it('accepts loopback origins only', () => {
+      authenticator.authenticate(request({ origin: 'http://localhost:8080' }));
+      for (const origin of ['https://attacker.example', 'null']) {
+        assert.throws(
+          () => authenticator.authenticate(request({ origin })),
+          SecurityViolationError
+        );
+      }
+    });
+  });
+
+  it('uses the configured Host and Origin allowlists instead', () => {
+    const authenticator = new HttpAuthenticator(
+      config({ allowedHosts: ['mcp.internal'], allowedOrigins: ['https://app.internal'] }),
+      '127.0.0.1'
+    );
+
+    authenticator.authenticate(
+      request({ host: 'mcp.internal:3000', origin: 'https://app.internal' })
+    );
+    assert.throws(() => authenticator.authenticate(request()), SecurityViolationError);
+    assert.throws(
+      () =>
+        authenticator.authenticate(
+          request({ host: 'mcp.internal', origin: 'http://localhost:8080' })
+        ),
+      SecurityViolationError
+    );
+  });
+
+  it('rejects addresses outside the IP allowlist', () => {
+    const authenticator = new HttpAuthenticator(config({ allowedIps: ['10.0.0.0/8'] }));
+
+    authenticator.authenticate(request({}, '10.1.2.3'));
+    assert.throws(
+      () => authenticator.authenticate(request({}, '192.168.1.2')),
+      SecurityViolationError
+    );
+  });
+
+  describe('with credentials', () => {
+    const authenticator = new HttpAuthenticator(
+      config({ apiKeys: { alice: 'alice-key' }, hmacSecret: SECRET })
+    );
+    const withToken = (token: string) => request({ authorization: `Bearer ${token}` });
+
+    it('accepts a static key and a signed token', () => {
+      assert.deepEqual(authenticator.authenticate(withToken('alice-key')), {
+        clientId: 'alice',
+        method: 'bearer',
+      });
+      const expiresAt = inAnHour();
+      assert.deepEqual(authenticator.authenticate(withToken(signedToken('ci-bot', expiresAt))), {
+        clientId: 'ci-bot',
+        method: 'hmac',
+        expiresAt,
+      });
+    });
+
+    it('rejects requests without a bearer token', () => {
+      assert.throws(() => authenticator.authenticate(request()), /missing bearer token/);
+    });
+
+    it('rejects unknown keys and malformed tokens', () => {
+      assert.throws(() => authenticator.authenticate(withToken('bob-key')), /malformed/);
+      assert.throws(
+        () => authenticator.authenticate(withToken(signedToken('ci.bot', inAnHour()))),
+        AuthenticationError
+      );
+    });
+
+    it('rejects tokens with a bad signature or in the past', () => {
+      assert.throws(
+        () =>
+          authenticator.authenticate(withToken(signedToken('ci-bot', inAnHour(), 'wrong-secret'))),
+        /invalid token signature/
+      );
+      assert.throws(
+        () => authenticator.authenticate(withToken(signedToken('ci-bot', 1000))),
+        /client token expired/
+      );
+    });
+  });
+
+  it('refuses an unauthenticated endpoint beyond loopback', () => {
+    assert.throws(() => createHttpAuthenticator(config(), '0.0.0.0'), ConfigurationError);
+    createHttpAuthenticator(config(), '127.0.0.1');
+    createHttpAuthenticator(config({ apiKeys: { alice: 'alice-key' } }), '0.0.0.0');
+  });
+});
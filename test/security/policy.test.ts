@@ -0,0 +1,95 @@
+import assert from 'node:assert/strict';
+import { before, describe, it } from 'node:test';
+import { createToolHarness, type ToolHarness } from '../support/harness.js';
+import { PolicyEngine, PolicyMiddleware, ResourcePolicy } from '../../src/security/policy.js';
+import { SlackClientProvider } from '../../src/slack/client-provider.js';
+import { UndoJournal } from '../../src/tools/undo-journal.js';
+import { UndoLastActionTool } from '../../src/tools/undo-tools.js';
+import type { ToolContext } from '../../src/types/tools.js';
+import { FAKE_CHANNEL_ID } from '../support/fixtures.js';
+
+describe('policy middleware', () => {
+  let harness: ToolHarness;
+
+  before(async () => {
+    harness = await createToolHarness();
+    harness.registry.registerMiddleware(
+      new PolicyMiddleware(
+        new PolicyEngine({
+          default: 'allow',
+          rules: [
+            { name: 'no-general', effect: 'deny', access: 'write', channels: [FAKE_CHANNEL_ID] },
+          ],
+        })
+      )
+    );
+  });
+
+  function posts() {
+    return harness.fake.calls.filter((call) => call.endpoint === 'chat.postMessage').length;
+  }
+
+  it('applies a rule naming a channel ID to calls that give its name', async () => {
+    const before = posts();
+    const result = await harness.call('post_message', { channel: '#general', text: 'hi' });
+
+    assert.ok(result.isError);
+    assert.match(result.content![0].text, /no-general/);
+    assert.equal(posts(), before);
+  });
+
+  it('blocks calls naming a channel the directory does not know', async () => {
+    const result = await harness.call('post_message', { channel: '#no-such-channel', text: 'hi' });
+
+    assert.ok(result.isError);
+    assert.match(result.content![0].text, /could not be found/);
+  });
+
+  it('lets other channels through', async () => {
+    const result = await harness.call('post_message', { channel: 'C00RANDOM01', text: 'hi' });
+
+    assert.ok(!result.isError, result.content?.[0]?.text);
+  });
+});
+
+describe('policy on undo', () => {
+  it('checks the channel an undo writes to against write rules', async () => {
+    const harness = await createToolHarness();
+    const journal = new UndoJournal(SlackClientProvider.getInstance());
+    const context: ToolContext = {
+      toolName: 'undo_last_action',
+      startTime: Date.now(),
+      traceId: 'trace-undo',
+    };
+    journal.record(
+      'post_message',
+      { channel: 'C00RANDOM01', text: 'hi' },
+      { channel: 'C00RANDOM01', ts: '1700000200.000100' },
+      undefined,
+      context
+    );
+    const tool = new UndoLastActionTool(
+      journal,
+      new ResourcePolicy(
+        new PolicyEngine({
+          default: 'allow',
+          rules: [
+            {
+              name: 'random-read-only',
+              effect: 'deny',
+              access: 'write',
+              channels: ['C00RANDOM01'],
+            },
+          ],
+        })
+      )
+    );
+
+    const result = await tool.execute({}, context);
+
+    assert.equal(result.success, false);
+    assert.match(result.error!, /random-read-only/);
+    assert.equal(journal.size, 1);
+    assert.ok(!harness.fake.calls.some((call) => call.endpoint === 'chat.delete'));
+  });
+});
@@ -0,0 +1,76 @@
+import '../support/env.js';
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { RateLimitExceededError } from '../../src/errors/index.js';
+import { SlackClient } from '../../src/slack/client.js';
+import { SlackRateLimiter, TIER_LIMITS } from '../../src/slack/rate-limiter.js';
+import { FakeSlackServer } from '../support/fake-slack-server.js';
+import { createDefaultFixtures, FAKE_CHANNEL_ID } from '../support/fixtures.js';
+
+/**
+ * A client against a fresh fake workspace, with a rate limiter of its own
+ */
+function createClient(teamDomain: string, options: { maxRetryWaitMs?: number } = {}) {
+  const fake = new FakeSlackServer();
+  const { tokens } = createDefaultFixtures();
+  const client = new SlackClient({ ...tokens, teamDomain }, { ...options, fetch: fake.fetch });
+  return { fake, client };
+}
+
+function posts(fake: FakeSlackServer): number {
+  return fake.calls.filter((call) => call.endpoint === 'chat.postMessage').length;
+}
+
+describe('SlackRateLimiter', () => {
+  it('lets a full bucket through, then waits for the next token', async () => {
+    const limiter = new SlackRateLimiter();
+    const started = Date.now();
+    for (let i = 0; i < TIER_LIMITS.tier2; i++) {
+      await limiter.acquire('conversations.list');
+    }
+
+    assert.ok(Date.now() - started < 1000);
+    assert.equal(limiter.getStats()['conversations.list'].tokens, 0);
+    await assert.rejects(
+      limiter.acquire('conversations.list', AbortSignal.timeout(50)),
+      (error: Error) => error.name === 'TimeoutError'
+    );
+  });
+
+  it('blocks a penalized method until Retry-After has passed', async () => {
+    const limiter = new SlackRateLimiter();
+    limiter.penalize('chat.update', 200);
+
+    const started = Date.now();
+    await limiter.acquire('chat.delete');
+    assert.ok(Date.now() - started < 100, 'other methods keep their own bucket');
+
+    await limiter.acquire('chat.update');
+    assert.ok(Date.now() - started >= 150);
+  });
+});
+
+describe('SlackClient rate limit handling', () => {
+  it('retries a 429 once Retry-After has passed', async () => {
+    const { fake, client } = createClient('fakeco-retry');
+    fake.rateLimit('chat.postMessage');
+
+    const started = Date.now();
+    const response = await client.postMessage(FAKE_CHANNEL_ID, 'after the wait');
+
+    assert.equal(response.ok, true);
+    assert.equal(posts(fake), 2);
+    assert.ok(Date.now() - started >= 1000, 'waited out Retry-After: 1');
+  });
+
+  it('gives up when Retry-After is longer than maxRetryWaitMs', async () => {
+    const { fake, client } = createClient('fakeco-no-retry', { maxRetryWaitMs: 500 });
+    fake.rateLimit('chat.postMessage');
+
+    await assert.rejects(
+      client.postMessage(FAKE_CHANNEL_ID, 'too long a wait'),
+      RateLimitExceededError
+    );
+    assert.equal(posts(fake), 1);
+  });
+});
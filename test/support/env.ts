@@ -0,0 +1,20 @@
+/**
+ * Test Environment
+ * Points the server at the fake workspace. Import it before anything from src:
+ * configuration is read from the environment when its module loads.
+ */
+
+import { mkdtempSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { createDefaultFixtures } from './fixtures.js';
+
+const { team, tokens } = createDefaultFixtures();
+
+// The credential store, workspace file and audit log live under HOME; keep them out of the real one
+process.env.HOME = mkdtempSync(join(tmpdir(), 'slack-mcp-test-'));
+process.env.SLACK_XOXC_TOKEN = tokens.xoxc;
+process.env.SLACK_XOXD_TOKEN = tokens.xoxd;
+process.env.SLACK_TEAM_DOMAIN = team.domain;
+process.env.SLACK_SESSION_CHECK_INTERVAL = '0';
+process.env.LOG_LEVEL = process.env.LOG_LEVEL || 'error';
@@ -0,0 +1,635 @@
+/**
+ * Fake Slack API Server
+ * In-process stand-in for the Slack Web API, backed by fixture data
+ */
+
+import { createServer, IncomingMessage, Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import type { SlackTokens } from '../../src/slack/auth.js';
+import type { SlackFetch } from '../../src/slack/http.js';
+import type { SlackMessage } from '../../src/slack/types.js';
+import { logger } from '../../src/utils/logger.js';
+import { createDefaultFixtures, FakeSlackFixtures } from './fixtures.js';
+
+type Params = Record<string, string>;
+type Handler = (params: Params) => Record<string, unknown>;
+
+interface FakeResponse {
+  status: number;
+  headers: Record<string, string>;
+  body: Record<string, unknown>;
+}
+
+/**
+ * A recorded call, for assertions
+ */
+export interface FakeSlackCall {
+  endpoint: string;
+  params: Params;
+}
+
+/**
+ * Fake Slack Web API
+ *
+ * Implements auth.test and the conversations.*, chat.*, reactions.*, pins.*,
+ * search.*, users.*, files.info and emoji.list methods the client uses,
+ * against mutable fixture state. Use it in-process through `fetch` (pass it to
+ * SlackClient or setSlackFetch), or over HTTP with `start()` and SLACK_API_URL.
+ *
+ * Requests must carry the fixture's xoxc token and d cookie; anything else
+ * gets invalid_auth, as does every call after `expireSession()`.
+ */
+export class FakeSlackServer {
+  readonly calls: FakeSlackCall[] = [];
+
+  private state: FakeSlackFixtures;
+  private handlers: Record<string, Handler>;
+  private server: Server | null = null;
+  private sessionExpired = false;
+  private rateLimits: Map<string, number> = new Map();
+  private lastTsMicros = 0;
+
+  constructor(fixtures: FakeSlackFixtures = createDefaultFixtures()) {
+    this.state = fixtures;
+    this.handlers = {
+      'auth.test': () => this.authTest(),
+      'conversations.list': (p) => this.conversationsList(p),
+      'conversations.history': (p) => this.conversationsHistory(p),
+      'conversations.replies': (p) => this.conversationsReplies(p),
+      'conversations.info': (p) => this.conversationsInfo(p),
+      'chat.postMessage': (p) => this.chatPostMessage(p),
+      'chat.update': (p) => this.chatUpdate(p),
+      'chat.delete': (p) => this.chatDelete(p),
+      'chat.getPermalink': (p) => this.chatGetPermalink(p),
+      'reactions.add': (p) => this.reactionsAdd(p),
+      'reactions.remove': (p) => this.reactionsRemove(p),
+      'pins.add': (p) => this.pinsAdd(p),
+      'search.messages': (p) => this.searchMessages(p),
+      'search.files': (p) => this.searchFiles(p),
+      'search.modules.messages': (p) => this.searchModules(p),
+      'search.inline': (p) => this.searchInline(p),
+      'users.list': (p) => this.usersList(p),
+      'users.info': (p) => this.usersInfo(p),
+      'users.profile.get': (p) => this.usersProfileGet(p),
+      'files.info': (p) => this.filesInfo(p),
+      'emoji.list': () => ({ ok: true, emoji: this.state.emoji }),
+    };
+  }
+
+  /**
+   * Tokens that authenticate against this server
+   */
+  get tokens(): SlackTokens {
+    return {
+      xoxc: this.state.tokens.xoxc,
+      xoxd: this.state.tokens.xoxd,
+      teamDomain: this.state.team.domain,
+      teamId: this.state.team.id,
+    };
+  }
+
+  /**
+   * Current fixture state, including messages posted through the API
+   */
+  get fixtures(): FakeSlackFixtures {
+    return this.state;
+  }
+
+  /**
+   * Serve a request in-process without opening a socket
+   */
+  fetch: SlackFetch = async (url, init) => {
+    const endpoint = new URL(url).pathname.split('/').pop() || '';
+    const headers = new Headers(init?.headers);
+    const params =
+      typeof init?.body === 'string' ? Object.fromEntries(new URLSearchParams(init.body)) : {};
+
+    const response = this.dispatch(
+      endpoint,
+      params,
+      headers.get('authorization'),
+      headers.get('cookie')
+    );
+    return new Response(JSON.stringify(response.body), {
+      status: response.status,
+      headers: response.headers,
+    });
+  };
+
+  /**
+   * Listen on a local port and return the API base URL (for SLACK_API_URL)
+   */
+  async start(port: number = 0, host: string = '127.0.0.1'): Promise<string> {
+    if (this.server) {
+      throw new Error('Fake Slack server is already running');
+    }
+
+    this.server = createServer((req, res) => {
+      this.readBody(req)
+        .then((body) => {
+          const endpoint = (req.url || '').split('?')[0].split('/').pop() || '';
+          const response = this.dispatch(
+            endpoint,
+            Object.fromEntries(new URLSearchParams(body)),
+            req.headers.authorization || null,
+            req.headers.cookie || null
+          );
+          res.writeHead(response.status, {
+            'Content-Type': 'application/json',
+            ...response.headers,
+          });
+          res.end(JSON.stringify(response.body));
+        })
+        .catch((error) => {
+          res.writeHead(500).end(error instanceof Error ? error.message : 'Unknown error');
+        });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      this.server!.once('error', reject);
+      this.server!.listen(port, host, () => resolve());
+    });
+
+    const address = this.server.address() as AddressInfo;
+    const url = `http://${host}:${address.port}/api`;
+    logger.info('Fake Slack server listening', { url });
+    return url;
+  }
+
+  /**
+   * Stop listening
+   */
+  async stop(): Promise<void> {
+    if (!this.server) {
+      return;
+    }
+    const server = this.server;
+    this.server = null;
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+
+  /**
+   * Make every following call fail with invalid_auth, as after a browser logout
+   */
+  expireSession(): void {
+    this.sessionExpired = true;
+  }
+
+  /**
+   * Answer the next `times` calls to an endpoint with HTTP 429
+   */
+  rateLimit(endpoint: string, times: number = 1): void {
+    this.rateLimits.set(endpoint, times);
+  }
+
+  private dispatch(
+    endpoint: string,
+    params: Params,
+    authorization: string | null,
+    cookie: string | null
+  ): FakeResponse {
+    this.calls.push({ endpoint, params });
+
+    const limited = this.rateLimits.get(endpoint) || 0;
+    if (limited > 0) {
+      this.rateLimits.set(endpoint, limited - 1);
+      return {
+        status: 429,
+        headers: { 'Retry-After': '1' },
+        body: { ok: false, error: 'ratelimited' },
+      };
+    }
+
+    if (!this.isAuthorized(authorization, cookie)) {
+      return this.ok({ ok: false, error: 'invalid_auth' });
+    }
+
+    const handler = this.handlers[endpoint];
+    if (!handler) {
+      return { status: 404, headers: {}, body: { ok: false, error: 'unknown_method' } };
+    }
+
+    return this.ok(handler(params));
+  }
+
+  private ok(body: Record<string, unknown>): FakeResponse {
+    return { status: 200, headers: {}, body };
+  }
+
+  private isAuthorized(authorization: string | null, cookie: string | null): boolean {
+    if (this.sessionExpired) {
+      return false;
+    }
+    const { xoxc, xoxd } = this.state.tokens;
+    return (
+      authorization === `Bearer ${xoxc}` && !!cookie && cookie.split(/;\s*/).includes(`d=${xoxd}`)
+    );
+  }
+
+  private readBody(req: IncomingMessage): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      req.on('data', (chunk: Buffer) => chunks.push(chunk));
+      req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+      req.on('error', reject);
+    });
+  }
+
+  // auth
+
+  private authTest() {
+    const self = this.state.users.find((u) => u.id === this.state.selfId);
+    return {
+      ok: true,
+      url: `https://${this.state.team.domain}.slack.com/`,
+      team: this.state.team.name,
+      user: self?.name || 'unknown',
+      team_id: this.state.team.id,
+      user_id: this.state.selfId,
+    };
+  }
+
+  // conversations
+
+  private conversationsList(params: Params) {
+    const types = (params.types || 'public_channel').split(',');
+    const channels = this.state.channels.filter(
+      (channel) =>
+        (channel.is_private
+          ? types.includes('private_channel')
+          : types.includes('public_channel')) &&
+        !(params.exclude_archived === 'true' && channel.is_archived)
+    );
+    const page = this.paginate(channels, params, 100);
+    return { ok: true, channels: page.items, response_metadata: page.metadata };
+  }
+
+  private conversationsHistory(params: Params) {
+    const messages = this.channelMessages(params.channel);
+    if (!messages) {
+      return { ok: false, error: 'channel_not_found' };
+    }
+
+    const topLevel = messages
+      .filter((m) => !m.thread_ts || m.thread_ts === m.ts)
+      .filter((m) => this.inRange(m.ts, params))
+      .reverse();
+    const page = this.paginate(topLevel, params, 100);
+    return {
+      ok: true,
+      messages: page.items,
+      has_more: !!page.metadata.next_cursor,
+      response_metadata: page.metadata,
+    };
+  }
+
+  private conversationsReplies(params: Params) {
+    const messages = this.channelMessages(params.channel);
+    if (!messages) {
+      return { ok: false, error: 'channel_not_found' };
+    }
+
+    const thread = messages.filter(
+      (m) => m.ts === params.ts || (m.thread_ts === params.ts && m.ts !== params.ts)
+    );
+    if (!thread.some((m) => m.ts === params.ts)) {
+      return { ok: false, error: 'thread_not_found' };
+    }
+
+    const page = this.paginate(
+      thread.filter((m) => this.inRange(m.ts, params)),
+      params,
+      100
+    );
+    return {
+      ok: true,
+      messages: page.items,
+      has_more: !!page.metadata.next_cursor,
+      response_metadata: page.metadata,
+    };
+  }
+
+  private conversationsInfo(params: Params) {
+    const channel = this.state.channels.find((c) => c.id === params.channel);
+    return channel ? { ok: true, channel } : { ok: false, error: 'channel_not_found' };
+  }
+
+  // chat
+
+  private chatPostMessage(params: Params) {
+    const messages = this.channelMessages(params.channel);
+    if (!messages) {
+      return { ok: false, error: 'channel_not_found' };
+    }
+    if (!params.text && !params.blocks) {
+      return { ok: false, error: 'no_text' };
+    }
+
+    const message: SlackMessage = {
+      type: 'message',
+      ts: this.nextTs(),
+      user: this.state.selfId,
+      text: params.text || '',
+      ...(params.blocks && { blocks: JSON.parse(params.blocks) }),
+    };
+
+    if (params.thread_ts) {
+      const parent = messages.find((m) => m.ts === params.thread_ts);
+      if (!parent) {
+        return { ok: false, error: 'thread_not_found' };
+      }
+      message.thread_ts = parent.ts;
+      parent.thread_ts = parent.ts;
+      parent.reply_count = (parent.reply_count || 0) + 1;
+      parent.latest_reply = message.ts;
+    }
+
+    messages.push(message);
+    return { ok: true, channel: params.channel, ts: message.ts, message };
+  }
+
+  private chatUpdate(params: Params) {
+    const message = this.findMessage(params.channel, params.ts);
+    if (!message) {
+      return { ok: false, error: 'message_not_found' };
+    }
+    if (message.user !== this.state.selfId) {
+      return { ok: false, error: 'cant_update_message' };
+    }
+
+    message.text = params.text ?? message.text;
+    if (params.blocks) {
+      message.blocks = JSON.parse(params.blocks);
+    }
+    return { ok: true, channel: params.channel, ts: message.ts, text: message.text, message };
+  }
+
+  private chatDelete(params: Params) {
+    const messages = this.channelMessages(params.channel);
+    const index = messages ? messages.findIndex((m) => m.ts === params.ts) : -1;
+    if (!messages || index < 0) {
+      return { ok: false, error: 'message_not_found' };
+    }
+    if (messages[index].user !== this.state.selfId) {
+      return { ok: false, error: 'cant_delete_message' };
+    }
+
+    messages.splice(index, 1);
+    return { ok: true, channel: params.channel, ts: params.ts };
+  }
+
+  private chatGetPermalink(params: Params) {
+    const message = this.findMessage(params.channel, params.message_ts);
+    if (!message) {
+      return { ok: false, error: 'message_not_found' };
+    }
+    return {
+      ok: true,
+      channel: params.channel,
+      permalink: this.permalink(params.channel, message),
+    };
+  }
+
+  // reactions and pins
+
+  private reactionsAdd(params: Params) {
+    const message = this.findMessage(params.channel, params.timestamp);
+    if (!message) {
+      return { ok: false, error: 'message_not_found' };
+    }
+
+    message.reactions = message.reactions || [];
+    const reaction = message.reactions.find((r) => r.name === params.name);
+    if (reaction?.users.includes(this.state.selfId)) {
+      return { ok: false, error: 'already_reacted' };
+    }
+    if (reaction) {
+      reaction.users.push(this.state.selfId);
+      reaction.count++;
+    } else {
+      message.reactions.push({ name: params.name, count: 1, users: [this.state.selfId] });
+    }
+    return { ok: true };
+  }
+
+  private reactionsRemove(params: Params) {
+    const message = this.findMessage(params.channel, params.timestamp);
+    if (!message) {
+      return { ok: false, error: 'message_not_found' };
+    }
+
+    const reaction = message.reactions?.find((r) => r.name === params.name);
+    if (!reaction || !reaction.users.includes(this.state.selfId)) {
+      return { ok: false, error: 'no_reaction' };
+    }
+    reaction.users = reaction.users.filter((u) => u !== this.state.selfId);
+    reaction.count--;
+    if (reaction.count === 0) {
+      message.reactions = message.reactions!.filter((r) => r !== reaction);
+    }
+    return { ok: true };
+  }
+
+  private pinsAdd(params: Params) {
+    return this.findMessage(params.channel, params.timestamp)
+      ? { ok: true }
+      : { ok: false, error: 'message_not_found' };
+  }
+
+  // search
+
+  private searchMessages(params: Params) {
+    const matches = this.matchMessages(
+      params.query,
+      params.sort === 'timestamp' ? 'timestamp' : 'score'
+    );
+    if (params.sort_dir === 'asc' || params.sort === 'asc') {
+      matches.reverse();
+    }
+    const page = this.pageByNumber(matches, params, 20);
+    return {
+      ok: true,
+      query: params.query,
+      messages: { matches: page.items, total: matches.length, pagination: page.pagination },
+    };
+  }
+
+  private searchFiles(params: Params) {
+    const terms = this.searchTerms(params.query);
+    const files = this.state.files.filter((file) =>
+      terms.every((term) => `${file.name} ${file.title}`.toLowerCase().includes(term))
+    );
+    const page = this.pageByNumber(files, params, 20);
+    return {
+      ok: true,
+      query: params.query,
+      files: { matches: page.items, total: files.length, pagination: page.pagination },
+    };
+  }
+
+  private searchModules(params: Params) {
+    const matches = this.matchMessages(params.query, 'score');
+    const page = this.pageByNumber(matches, params, 20);
+    return { ok: true, items: page.items, pagination: page.pagination };
+  }
+
+  private searchInline(params: Params) {
+    const matches = this.matchMessages(params.query, 'score').filter(
+      (match) => (match.channel as { id: string }).id === params.channel
+    );
+    const page = this.pageByNumber(matches, params, 3);
+    return { ok: true, items: page.items, pagination: page.pagination };
+  }
+
+  // users
+
+  private usersList(params: Params) {
+    const page = this.paginate(this.state.users, params, 100);
+    return { ok: true, members: page.items, response_metadata: page.metadata };
+  }
+
+  private usersInfo(params: Params) {
+    const user = this.state.users.find((u) => u.id === params.user);
+    return user ? { ok: true, user } : { ok: false, error: 'user_not_found' };
+  }
+
+  private usersProfileGet(params: Params) {
+    const user = this.state.users.find((u) => u.id === (params.user || this.state.selfId));
+    return user
+      ? { ok: true, profile: user.profile || {} }
+      : { ok: false, error: 'user_not_found' };
+  }
+
+  // files
+
+  private filesInfo(params: Params) {
+    const file = this.state.files.find((f) => f.id === params.file);
+    return file ? { ok: true, file } : { ok: false, error: 'file_not_found' };
+  }
+
+  // helpers
+
+  private channelMessages(channelId: string): SlackMessage[] | null {
+    if (!this.state.channels.some((c) => c.id === channelId)) {
+      return null;
+    }
+    return (this.state.messages[channelId] = this.state.messages[channelId] || []);
+  }
+
+  private findMessage(channelId: string, ts: string): SlackMessage | undefined {
+    return this.channelMessages(channelId)?.find((m) => m.ts === ts);
+  }
+
+  private inRange(ts: string, params: Params): boolean {
+    const inclusive = params.inclusive !== 'false';
+    const value = parseFloat(ts);
+    if (
+      params.oldest &&
+      (inclusive ? value < parseFloat(params.oldest) : value <= parseFloat(params.oldest))
+    ) {
+      return false;
+    }
+    if (
+      params.latest &&
+      (inclusive ? value > parseFloat(params.latest) : value >= parseFloat(params.latest))
+    ) {
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Words to match; search modifiers like in:#channel and from:@user filter separately
+   */
+  private searchTerms(query: string = ''): string[] {
+    return query
+      .toLowerCase()
+      .split(/\s+/)
+      .filter((term) => term && !term.includes(':'));
+  }
+
+  private matchMessages(
+    query: string = '',
+    sort: 'score' | 'timestamp'
+  ): Array<Record<string, unknown>> {
+    const terms = this.searchTerms(query);
+    const inChannel = /\bin:#?([\w-]+)/i.exec(query)?.[1];
+    const fromUser = /\bfrom:@?([\w.-]+)/i.exec(query)?.[1];
+    const matches: Array<Record<string, unknown>> = [];
+
+    for (const channel of this.state.channels) {
+      if (inChannel && channel.name !== inChannel && channel.id !== inChannel) {
+        continue;
+      }
+      for (const message of this.state.messages[channel.id] || []) {
+        const author = this.state.users.find((u) => u.id === message.user);
+        if (fromUser && author?.name !== fromUser && author?.id !== fromUser) {
+          continue;
+        }
+        if (!terms.every((term) => message.text.toLowerCase().includes(term))) {
+          continue;
+        }
+        matches.push({
+          iid: `${channel.id}-${message.ts}`,
+          type: 'message',
+          ts: message.ts,
+          text: message.text,
+          user: message.user,
+          username: author?.name,
+          team: this.state.team.id,
+          channel: { id: channel.id, name: channel.name, is_private: !!channel.is_private },
+          permalink: this.permalink(channel.id, message),
+          ...(message.reactions && { reactions: message.reactions }),
+        });
+      }
+    }
+
+    return sort === 'timestamp'
+      ? matches.sort((a, b) => parseFloat(b.ts as string) - parseFloat(a.ts as string))
+      : matches;
+  }
+
+  private paginate<T>(items: T[], params: Params, defaultLimit: number) {
+    const limit = Math.max(1, parseInt(params.limit || String(defaultLimit), 10));
+    const offset = params.cursor
+      ? parseInt(Buffer.from(params.cursor, 'base64').toString(), 10)
+      : 0;
+    const end = offset + limit;
+    return {
+      items: items.slice(offset, end),
+      metadata: {
+        next_cursor: end < items.length ? Buffer.from(String(end)).toString('base64') : '',
+      },
+    };
+  }
+
+  private pageByNumber<T>(items: T[], params: Params, defaultCount: number) {
+    const count = Math.max(1, parseInt(params.count || String(defaultCount), 10));
+    const page = Math.max(1, parseInt(params.page || '1', 10));
+    const pageCount = Math.max(1, Math.ceil(items.length / count));
+    return {
+      items: items.slice((page - 1) * count, page * count),
+      pagination: {
+        total_count: items.length,
+        page,
+        per_page: count,
+        page_count: pageCount,
+        first: Math.min((page - 1) * count + 1, items.length),
+        last: Math.min(page * count, items.length),
+      },
+    };
+  }
+
+  private permalink(channelId: string, message: SlackMessage): string {
+    return `https://${this.state.team.domain}.slack.com/archives/${channelId}/p${message.ts.replace('.', '')}`;
+  }
+
+  /**
+   * Slack-style timestamps from the clock, increasing and unique within the server
+   */
+  private nextTs(): string {
+    this.lastTsMicros = Math.max(Date.now() * 1000, this.lastTsMicros + 1);
+    const seconds = Math.floor(this.lastTsMicros / 1e6);
+    return `${seconds}.${String(this.lastTsMicros % 1e6).padStart(6, '0')}`;
+  }
+}
@@ -0,0 +1,173 @@
+/**
+ * Fake Slack Fixtures
+ * Workspace data served by FakeSlackServer
+ */
+
+import type { SlackChannel, SlackFile, SlackMessage, SlackUser } from '../../src/slack/types.js';
+import type { SlackUserProfile } from '../../src/slack/schemas.js';
+
+export interface FakeSlackUser extends SlackUser {
+  profile?: SlackUserProfile;
+  is_admin?: boolean;
+  is_owner?: boolean;
+}
+
+export interface FakeSlackFixtures {
+  team: { id: string; name: string; domain: string };
+  tokens: { xoxc: string; xoxd: string };
+  selfId: string; // The signed-in user
+  users: FakeSlackUser[];
+  channels: SlackChannel[];
+  messages: Record<string, SlackMessage[]>; // By channel ID, oldest first, thread replies included
+  files: SlackFile[];
+  emoji: Record<string, string>; // Custom emoji: name -> image URL or "alias:<name>"
+}
+
+export const FAKE_TEAM_ID = 'T00FAKE0001';
+export const FAKE_CHANNEL_ID = 'C00GENERAL1';
+export const FAKE_THREAD_TS = '1700000100.000100';
+
+/**
+ * A small workspace: three users, four channels, one thread, two files and
+ * a few custom emoji.
+ * Returns a fresh copy so servers can mutate their state freely.
+ */
+export function createDefaultFixtures(): FakeSlackFixtures {
+  return {
+    team: { id: FAKE_TEAM_ID, name: 'Fake Co', domain: 'fakeco' },
+    tokens: { xoxc: 'xoxc-fake-0000-0000', xoxd: 'xoxd-fake%2F0000' },
+    selfId: 'U00ALICE01',
+    users: [
+      {
+        id: 'U00ALICE01',
+        name: 'alice',
+        real_name: 'Alice Example',
+        is_admin: true,
+        profile: {
+          display_name: 'alice',
+          real_name: 'Alice Example',
+          email: 'alice@fakeco.test',
+          title: 'Engineering Manager',
+          status_text: 'Reviewing',
+          status_emoji: ':eyes:',
+        },
+      },
+      {
+        id: 'U00BOB0001',
+        name: 'bob',
+        real_name: 'Bob Example',
+        profile: { display_name: 'bob', real_name: 'Bob Example', email: 'bob@fakeco.test' },
+      },
+      {
+        id: 'U00DEPLOY1',
+        name: 'deploybot',
+        real_name: 'Deploy Bot',
+        is_bot: true,
+        profile: { display_name: 'deploybot', real_name: 'Deploy Bot' },
+      },
+    ],
+    channels: [
+      {
+        id: FAKE_CHANNEL_ID,
+        name: 'general',
+        is_channel: true,
+        is_member: true,
+        num_members: 3,
+        topic: { value: 'Company-wide announcements', creator: 'U00ALICE01', last_set: 1700000000 },
+        purpose: { value: 'General chat', creator: 'U00ALICE01', last_set: 1700000000 },
+      },
+      { id: 'C00RANDOM01', name: 'random', is_channel: true, is_member: true, num_members: 2 },
+      {
+        id: 'G00PRIVATE1',
+        name: 'leads',
+        is_channel: true,
+        is_private: true,
+        is_member: true,
+        num_members: 2,
+      },
+      {
+        id: 'C00OLDPROJ1',
+        name: 'old-project',
+        is_channel: true,
+        is_archived: true,
+        num_members: 0,
+      },
+    ],
+    messages: {
+      [FAKE_CHANNEL_ID]: [
+        {
+          type: 'message',
+          ts: '1700000000.000100',
+          user: 'U00ALICE01',
+          text: 'Welcome to Fake Co!',
+        },
+        {
+          type: 'message',
+          ts: FAKE_THREAD_TS,
+          user: 'U00BOB0001',
+          text: 'Deploy of v2.3 failed on staging, investigating',
+          thread_ts: FAKE_THREAD_TS,
+          reply_count: 2,
+          latest_reply: '1700000300.000100',
+          reactions: [{ name: 'eyes', count: 1, users: ['U00ALICE01'] }],
+        },
+        {
+          type: 'message',
+          ts: '1700000200.000100',
+          user: 'U00DEPLOY1',
+          text: 'Rollback of v2.3 complete',
+          thread_ts: FAKE_THREAD_TS,
+        },
+        {
+          type: 'message',
+          ts: '1700000300.000100',
+          user: 'U00ALICE01',
+          text: 'Thanks! Root cause was a missing migration, fix is merged',
+          thread_ts: FAKE_THREAD_TS,
+        },
+      ],
+      C00RANDOM01: [
+        { type: 'message', ts: '1700000400.000100', user: 'U00BOB0001', text: 'Lunch at noon?' },
+      ],
+      G00PRIVATE1: [
+        {
+          type: 'message',
+          ts: '1700000500.000100',
+          user: 'U00ALICE01',
+          text: 'Q3 planning doc is ready for review',
+        },
+      ],
+    },
+    files: [
+      {
+        id: 'F00PLAN0001',
+        name: 'q3-plan.pdf',
+        title: 'Q3 Plan',
+        filetype: 'pdf',
+        mimetype: 'application/pdf',
+        size: 52311,
+        user: 'U00ALICE01',
+        created: 1700000500,
+        timestamp: 1700000500,
+        channels: ['G00PRIVATE1'],
+      },
+      {
+        id: 'F00LOGS0001',
+        name: 'deploy-v2.3.log',
+        title: 'Deploy log v2.3',
+        filetype: 'text',
+        mimetype: 'text/plain',
+        size: 2048,
+        user: 'U00DEPLOY1',
+        created: 1700000200,
+        timestamp: 1700000200,
+        channels: [FAKE_CHANNEL_ID],
+      },
+    ],
+    emoji: {
+      shipit: 'https://emoji.slack-edge.com/T00FAKE0001/shipit/0001.png',
+      partyparrot: 'https://emoji.slack-edge.com/T00FAKE0001/partyparrot/0002.gif',
+      squirrel: 'alias:shipit',
+    },
+  };
+}
@@ -0,0 +1,44 @@
+/**
+ * Tool Test Harness
+ * A ToolRegistry whose Slack calls are answered by a FakeSlackServer
+ */
+
+import './env.js';
+import assert from 'node:assert/strict';
+import { SlackClientProvider } from '../../src/slack/client-provider.js';
+import { setSlackFetch } from '../../src/slack/http.js';
+import { ToolRegistry } from '../../src/tools/index.js';
+import type { ToolExecutionResult, ToolRegistryConfig } from '../../src/types/tools.js';
+import { FakeSlackServer } from './fake-slack-server.js';
+
+export interface ToolHarness {
+  fake: FakeSlackServer;
+  registry: ToolRegistry;
+  call(name: string, args?: Record<string, unknown>): Promise<ToolExecutionResult>;
+}
+
+/**
+ * Start a registry with the production tools against a fresh fake workspace,
+ * after the startup session check that also learns the workspace's team ID
+ */
+export async function createToolHarness(
+  config: Partial<ToolRegistryConfig> = {}
+): Promise<ToolHarness> {
+  const fake = new FakeSlackServer();
+  setSlackFetch(fake.fetch);
+  await SlackClientProvider.getInstance().validate();
+
+  const registry = new ToolRegistry(config);
+  await registry.initialize();
+
+  return { fake, registry, call: (name, args = {}) => registry.executeTool(name, args) };
+}
+
+/**
+ * The structured result of a successful call
+ */
+export function resultData(result: ToolExecutionResult): Record<string, any> {
+  assert.ok(!result.isError, `expected success, got: ${result.content?.[0]?.text}`);
+  assert.ok(result.structuredContent, 'expected structured content');
+  return result.structuredContent as Record<string, any>;
+}
@@ -0,0 +1,16 @@
+/**
+ * Test Support
+ * Offline Slack API for exercising tools without a live workspace
+ */
+
+export { FakeSlackServer } from './fake-slack-server.js';
+export type { FakeSlackCall } from './fake-slack-server.js';
+export {
+  createDefaultFixtures,
+  FAKE_CHANNEL_ID,
+  FAKE_TEAM_ID,
+  FAKE_THREAD_TS,
+} from './fixtures.js';
+export type { FakeSlackFixtures, FakeSlackUser } from './fixtures.js';
+export { createToolHarness, resultData } from './harness.js';
+export type { ToolHarness } from './harness.js';
@@ -0,0 +1,38 @@
+import assert from 'node:assert/strict';
+import { before, describe, it } from 'node:test';
+import { createToolHarness, resultData, type ToolHarness } from '../support/harness.js';
+import { FAKE_CHANNEL_ID } from '../support/fixtures.js';
+
+describe('approval tools', () => {
+  let harness: ToolHarness;
+
+  before(async () => {
+    harness = await createToolHarness({ approval: { tools: ['post_message'], ttlMs: 60_000 } });
+  });
+
+  async function hold(text: string): Promise<string> {
+    const data = resultData(await harness.call('post_message', { channel: FAKE_CHANNEL_ID, text }));
+    assert.equal(data.status, 'pending');
+    return data.action_id;
+  }
+
+  it('approve_action runs the held call', async () => {
+    const actionId = await hold('needs a second pair of eyes');
+    const posts = () => harness.fake.calls.filter((call) => call.endpoint === 'chat.postMessage');
+    const before = posts().length;
+
+    const data = resultData(await harness.call('approve_action', { action_id: actionId }));
+
+    assert.equal(data.status, 'committed');
+    assert.equal(data.tool, 'post_message');
+    assert.equal(posts().length, before + 1);
+  });
+
+  it('reject_action discards the held call', async () => {
+    const actionId = await hold('never mind');
+    const data = resultData(await harness.call('reject_action', { action_id: actionId }));
+
+    assert.equal(data.status, 'rejected');
+    assert.equal(data.action_id, actionId);
+  });
+});
@@ -0,0 +1,42 @@
+import assert from 'node:assert/strict';
+import { before, describe, it } from 'node:test';
+import { createToolHarness, resultData, type ToolHarness } from '../support/harness.js';
+import { FAKE_CHANNEL_ID, FAKE_THREAD_TS } from '../support/fixtures.js';
+
+describe('data tools', () => {
+  let harness: ToolHarness;
+
+  before(async () => {
+    harness = await createToolHarness();
+  });
+
+  it('get_thread_replies returns the thread', async () => {
+    const data = resultData(
+      await harness.call('get_thread_replies', { channel: FAKE_CHANNEL_ID, ts: FAKE_THREAD_TS })
+    );
+
+    assert.equal(data.reply_count, 3);
+    assert.equal(data.messages.length, 3);
+  });
+
+  it('list_workspace_channels lists the channels the user belongs to', async () => {
+    const data = resultData(await harness.call('list_workspace_channels'));
+    const names = data.channels.map((channel: { name: string }) => channel.name);
+
+    assert.ok(names.includes('general'));
+    assert.ok(!names.includes('old-project'), 'archived channels are excluded');
+  });
+
+  it('list_workspace_users lists active users', async () => {
+    const data = resultData(await harness.call('list_workspace_users'));
+
+    assert.equal(data.user_count, 2);
+  });
+
+  it('get_user_profile returns a user', async () => {
+    const data = resultData(await harness.call('get_user_profile', { user_id: 'U00BOB0001' }));
+
+    assert.equal(data.user_id, 'U00BOB0001');
+    assert.equal(data.display_name, 'bob');
+  });
+});
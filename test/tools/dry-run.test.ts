@@ -0,0 +1,64 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { createToolHarness, resultData, type ToolHarness } from '../support/harness.js';
+import { FAKE_CHANNEL_ID, FAKE_THREAD_TS } from '../support/fixtures.js';
+
+const WRITE_METHODS = ['chat.postMessage', 'chat.update', 'chat.delete', 'reactions.add'];
+
+function writes(harness: ToolHarness): number {
+  return harness.fake.calls.filter((call) => WRITE_METHODS.includes(call.endpoint)).length;
+}
+
+describe('dry runs', () => {
+  it('reports the calls a post would make without sending them', async () => {
+    const harness = await createToolHarness();
+    const data = resultData(
+      await harness.call('post_message', { channel: FAKE_CHANNEL_ID, text: 'hi', dry_run: true })
+    );
+
+    assert.equal(data.dry_run, true);
+    assert.deepEqual(
+      data.calls.map((call: { method: string }) => call.method),
+      ['chat.postMessage']
+    );
+    assert.equal(data.calls[0].payload.channel, FAKE_CHANNEL_ID);
+    assert.equal(data.calls[0].payload.text, 'hi');
+    assert.equal(data.undo_id, undefined);
+    assert.equal(writes(harness), 0);
+  });
+
+  it('covers reactions', async () => {
+    const harness = await createToolHarness();
+    const data = resultData(
+      await harness.call('react_to_message', {
+        channel_id: FAKE_CHANNEL_ID,
+        message_ts: FAKE_THREAD_TS,
+        reaction_type: 'resolved',
+        dry_run: true,
+      })
+    );
+
+    assert.equal(data.calls[0].method, 'reactions.add');
+    assert.equal(data.calls[0].payload.name, 'white_check_mark');
+    assert.equal(writes(harness), 0);
+  });
+
+  it('makes every write a dry run when configured', async () => {
+    const harness = await createToolHarness({ dryRun: true });
+    const data = resultData(
+      await harness.call('post_message', { channel: FAKE_CHANNEL_ID, text: 'hi' })
+    );
+
+    assert.equal(data.dry_run, true);
+    assert.equal(writes(harness), 0);
+  });
+
+  it('is not offered by read tools', async () => {
+    const harness = await createToolHarness();
+    const tools = harness.registry.getTools();
+    const schema = (name: string) => tools.find((tool) => tool.name === name)!.inputSchema;
+
+    assert.ok(schema('post_message').properties?.dry_run);
+    assert.equal(schema('get_thread_replies').properties?.dry_run, undefined);
+  });
+});
@@ -0,0 +1,99 @@
+import assert from 'node:assert/strict';
+import { setTimeout as delay } from 'node:timers/promises';
+import { before, describe, it } from 'node:test';
+import { createToolHarness, resultData, type ToolHarness } from '../support/harness.js';
+import type { ToolExecutionResult } from '../../src/types/tools.js';
+import { FAKE_CHANNEL_ID } from '../support/fixtures.js';
+
+function errorCode(result: ToolExecutionResult): unknown {
+  assert.ok(result.isError, 'expected an error result');
+  return (result._meta?.error as { code?: string } | undefined)?.code;
+}
+
+describe('tool timeouts and cancellation', () => {
+  let harness: ToolHarness;
+
+  before(async () => {
+    // The fake asks for a one second wait when rate limiting, longer than the timeout
+    harness = await createToolHarness({ defaultTimeout: 200 });
+  });
+
+  function posts(): number {
+    return harness.fake.calls.filter((call) => call.endpoint === 'chat.postMessage').length;
+  }
+
+  it('times out a call that outlives defaultTimeout and stops its Slack requests', async () => {
+    harness.fake.rateLimit('chat.postMessage');
+    const before = posts();
+
+    const result = await harness.call('post_message', { channel: FAKE_CHANNEL_ID, text: 'slow' });
+    assert.equal(errorCode(result), 'TOOL_TIMEOUT');
+    assert.match(result.content![0].text, /timed out after 200ms/);
+
+    // The retry after Retry-After would have come by now
+    await delay(1300);
+    assert.equal(posts(), before + 1);
+  });
+
+  it('cancels a call when the client aborts it and stops its Slack requests', async () => {
+    harness.fake.rateLimit('chat.postMessage');
+    const before = posts();
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 50);
+
+    const result = await harness.registry.executeTool(
+      'post_message',
+      { channel: FAKE_CHANNEL_ID, text: 'abandoned' },
+      { signal: controller.signal }
+    );
+    assert.equal(errorCode(result), 'OPERATION_CANCELLED');
+
+    await delay(1300);
+    assert.equal(posts(), before + 1);
+  });
+
+  it('never calls Slack for a call cancelled before it starts', async () => {
+    const before = harness.fake.calls.length;
+    const controller = new AbortController();
+    controller.abort();
+
+    const result = await harness.registry.executeTool(
+      'post_message',
+      { channel: FAKE_CHANNEL_ID, text: 'too late' },
+      { signal: controller.signal }
+    );
+
+    assert.equal(errorCode(result), 'OPERATION_CANCELLED');
+    assert.equal(harness.fake.calls.length, before);
+  });
+});
+
+describe('tool concurrency limit', () => {
+  let harness: ToolHarness;
+
+  before(async () => {
+    harness = await createToolHarness({ maxConcurrentExecutions: 1, queueTimeout: 100 });
+  });
+
+  it('fails calls that wait for a slot longer than queueTimeout', async () => {
+    // Holds the only slot for the one second the fake asks to wait
+    harness.fake.rateLimit('chat.postMessage');
+    const first = harness.call('post_message', { channel: FAKE_CHANNEL_ID, text: 'first' });
+
+    const second = await harness.call('post_message', { channel: FAKE_CHANNEL_ID, text: 'second' });
+
+    assert.equal(errorCode(second), 'CONCURRENCY_LIMIT_EXCEEDED');
+    assert.equal(resultData(await first).success, true);
+  });
+
+  it('runs queued calls once a slot frees', async () => {
+    const results = await Promise.all([
+      harness.call('list_workspace_channels'),
+      harness.call('list_workspace_channels'),
+    ]);
+
+    for (const result of results) {
+      resultData(result);
+    }
+  });
+});
@@ -0,0 +1,103 @@
+import assert from 'node:assert/strict';
+import { before, describe, it } from 'node:test';
+import { createToolHarness, resultData, type ToolHarness } from '../support/harness.js';
+import { FAKE_CHANNEL_ID, FAKE_TEAM_ID } from '../support/fixtures.js';
+
+const BLOCKS = JSON.stringify([{ type: 'section', text: { type: 'mrkdwn', text: '*hello*' } }]);
+
+describe('messaging tools', () => {
+  let harness: ToolHarness;
+
+  before(async () => {
+    harness = await createToolHarness();
+  });
+
+  async function post(text: string): Promise<Record<string, any>> {
+    return resultData(await harness.call('post_message', { channel: FAKE_CHANNEL_ID, text }));
+  }
+
+  it('post_message posts to the channel and tags the workspace', async () => {
+    const data = await post('hello from the tests');
+
+    assert.equal(data.success, true);
+    assert.equal(data.channel, FAKE_CHANNEL_ID);
+    assert.ok(data.ts);
+    assert.ok(data.undo_id);
+    assert.equal(data.team_id, FAKE_TEAM_ID);
+    assert.ok(harness.fake.calls.some((call) => call.endpoint === 'chat.postMessage'));
+  });
+
+  it('update_message edits a posted message', async () => {
+    const { ts } = await post('before');
+    const data = resultData(
+      await harness.call('update_message', { channel: FAKE_CHANNEL_ID, ts, text: 'after' })
+    );
+
+    assert.equal(data.ts, ts);
+    assert.equal(data.text, 'after');
+  });
+
+  it('delete_message deletes a posted message', async () => {
+    const { ts } = await post('short lived');
+    const data = resultData(await harness.call('delete_message', { channel: FAKE_CHANNEL_ID, ts }));
+
+    assert.equal(data.success, true);
+    assert.equal(data.ts, ts);
+  });
+
+  it('react_to_message adds a reaction', async () => {
+    const { ts } = await post('react to me');
+    const data = resultData(
+      await harness.call('react_to_message', {
+        channel_id: FAKE_CHANNEL_ID,
+        message_ts: ts,
+        reaction_type: 'thumbs_up',
+      })
+    );
+
+    assert.equal(data.success, true);
+    assert.equal(data.action_type, 'thumbs_up');
+  });
+
+  it('post_message_blocks posts Block Kit blocks', async () => {
+    const data = resultData(
+      await harness.call('post_message_blocks', {
+        channel: FAKE_CHANNEL_ID,
+        blocks: BLOCKS,
+        text: 'hello',
+      })
+    );
+
+    assert.equal(data.message_type, 'block_kit');
+    assert.equal(data.blocks_count, 1);
+  });
+
+  it('update_message_blocks replaces the blocks of a message', async () => {
+    const { ts } = await post('plain');
+    const data = resultData(
+      await harness.call('update_message_blocks', { channel: FAKE_CHANNEL_ID, ts, blocks: BLOCKS })
+    );
+
+    assert.equal(data.update_type, 'block_kit');
+  });
+
+  it('undo_last_action reverses the latest change', async () => {
+    await post('oops');
+    const data = resultData(await harness.call('undo_last_action'));
+
+    assert.equal(data.status, 'undone');
+    assert.equal(data.tool, 'post_message');
+  });
+
+  it('undo_action reverses the change with the given undo_id', async () => {
+    const { ts } = await post('original');
+    const { undo_id } = resultData(
+      await harness.call('update_message', { channel: FAKE_CHANNEL_ID, ts, text: 'edited' })
+    );
+    const data = resultData(await harness.call('undo_action', { action_id: undo_id }));
+
+    assert.equal(data.status, 'undone');
+    assert.equal(data.action_id, undo_id);
+    assert.equal(data.tool, 'update_message');
+  });
+});
@@ -0,0 +1,48 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { createToolHarness, resultData, type ToolHarness } from '../support/harness.js';
+import { FAKE_CHANNEL_ID, FAKE_THREAD_TS } from '../support/fixtures.js';
+
+function toolNames(harness: ToolHarness): string[] {
+  return harness.registry.getTools().map((tool) => tool.name);
+}
+
+async function assertBlocksWrites(harness: ToolHarness, message: RegExp): Promise<void> {
+  const before = harness.fake.calls.length;
+  const result = await harness.call('post_message', { channel: FAKE_CHANNEL_ID, text: 'hi' });
+
+  assert.ok(result.isError);
+  assert.equal((result._meta?.error as { code?: string }).code, 'READ_ONLY_MODE');
+  assert.match(result.content![0].text, message);
+  assert.equal(harness.fake.calls.length, before);
+}
+
+describe('read-only mode', () => {
+  it('hides and rejects write tools on the whole server', async () => {
+    const harness = await createToolHarness({ readOnly: { all: true, workspaces: [] } });
+
+    assert.ok(!toolNames(harness).includes('post_message'));
+    assert.ok(!toolNames(harness).includes('undo_last_action'));
+    assert.ok(toolNames(harness).includes('get_thread_replies'));
+    await assertBlocksWrites(harness, /This server is in read-only mode/);
+  });
+
+  it('rejects write tools in a read-only workspace', async () => {
+    const harness = await createToolHarness({ readOnly: { all: false, workspaces: ['fakeco'] } });
+
+    assert.ok(!toolNames(harness).includes('post_message'));
+    await assertBlocksWrites(harness, /Workspace fakeco is in read-only mode/);
+  });
+
+  it('still runs read tools', async () => {
+    const harness = await createToolHarness({ readOnly: { all: true, workspaces: [] } });
+    const data = resultData(
+      await harness.call('get_thread_replies', {
+        channel: FAKE_CHANNEL_ID,
+        ts: FAKE_THREAD_TS,
+      })
+    );
+
+    assert.ok(data.messages.length > 0);
+  });
+});
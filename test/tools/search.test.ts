@@ -0,0 +1,23 @@
+import assert from 'node:assert/strict';
+import { before, describe, it } from 'node:test';
+import { createToolHarness, resultData, type ToolHarness } from '../support/harness.js';
+
+describe('search tools', () => {
+  let harness: ToolHarness;
+
+  before(async () => {
+    harness = await createToolHarness();
+  });
+
+  it('search_messages finds matching messages', async () => {
+    const data = resultData(await harness.call('search_messages', { query: 'rollback' }));
+
+    assert.equal(data.total_results, 1);
+  });
+
+  it('search_files finds matching files', async () => {
+    const data = resultData(await harness.call('search_files', { query: 'plan' }));
+
+    assert.ok(data.total_results >= 1);
+  });
+});
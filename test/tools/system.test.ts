@@ -0,0 +1,29 @@
+import assert from 'node:assert/strict';
+import { before, describe, it } from 'node:test';
+import { createToolHarness, resultData, type ToolHarness } from '../support/harness.js';
+import { AuditMiddleware } from '../../src/security/audit-log.js';
+import { FAKE_CHANNEL_ID } from '../support/fixtures.js';
+
+describe('system tools', () => {
+  let harness: ToolHarness;
+
+  before(async () => {
+    harness = await createToolHarness();
+    harness.registry.registerMiddleware(new AuditMiddleware());
+  });
+
+  it('get_session_status reports the configured workspace', async () => {
+    const data = resultData(await harness.call('get_session_status'));
+
+    assert.equal(data.sessions.length, 1);
+    assert.equal(data.sessions[0].workspace, 'fakeco');
+  });
+
+  it('query_audit_log returns recorded writes', async () => {
+    resultData(await harness.call('post_message', { channel: FAKE_CHANNEL_ID, text: 'audited' }));
+    const data = resultData(await harness.call('query_audit_log', { tool: 'post_message' }));
+
+    assert.ok(data.total >= 1);
+    assert.equal(data.entries[0].tool, 'post_message');
+  });
+});